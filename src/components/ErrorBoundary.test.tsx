@@ -0,0 +1,127 @@
+/**
+ * ErrorBoundary — logs caught render errors via the context logger and shows the
+ * request ID in the fallback (copy + try again).
+ */
+
+import React, { useState } from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom/vitest';
+import { ErrorBoundary } from './ErrorBoundary';
+import type { Logger } from '../utils/logger';
+
+function createMockLogger() {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    setLevel: vi.fn(),
+    getLevel: vi.fn(() => 'info' as const),
+  } satisfies Logger;
+}
+
+function Bomb({ explode }: { explode: boolean }): React.ReactElement {
+  if (explode) {
+    throw new Error('render failed');
+  }
+  return <p>all good</p>;
+}
+
+describe('ErrorBoundary', () => {
+  let baseLogger: ReturnType<typeof createMockLogger>;
+
+  beforeEach(() => {
+    baseLogger = createMockLogger();
+    document.cookie = 'x-request-id=req-abc';
+    // React logs caught errors to console.error in development — keep test output clean.
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    document.cookie = 'x-request-id=; expires=Thu, 01 Jan 1970 00:00:00 GMT';
+    vi.restoreAllMocks();
+  });
+
+  it('renders children when nothing throws', () => {
+    render(
+      <ErrorBoundary baseLogger={baseLogger}>
+        <Bomb explode={false} />
+      </ErrorBoundary>,
+    );
+    expect(screen.getByText('all good')).toBeInTheDocument();
+    expect(baseLogger.error).not.toHaveBeenCalled();
+  });
+
+  it('logs the error with service, request_id and component stack', () => {
+    render(
+      <ErrorBoundary service="Dashboard" baseLogger={baseLogger}>
+        <Bomb explode />
+      </ErrorBoundary>,
+    );
+    expect(baseLogger.error).toHaveBeenCalledTimes(1);
+    const [message, context] = baseLogger.error.mock.calls[0];
+    expect(message).toBe('React render error');
+    expect(context).toMatchObject({
+      service: 'Dashboard',
+      request_id: 'req-abc',
+      error_message: 'render failed',
+      error_name: 'Error',
+    });
+    expect(context.component_stack).toContain('Bomb');
+  });
+
+  it('shows the request ID in the default fallback and copies it', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+
+    render(
+      <ErrorBoundary baseLogger={baseLogger} labels={{ copy: 'Copy ID', copied: 'Copied!' }}>
+        <Bomb explode />
+      </ErrorBoundary>,
+    );
+    expect(screen.getByRole('alert')).toBeInTheDocument();
+    expect(screen.getByText('req-abc')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Copy ID'));
+    expect(writeText).toHaveBeenCalledWith('req-abc');
+    await waitFor(() => expect(screen.getByText('Copied!')).toBeInTheDocument());
+  });
+
+  it('try again resets the boundary and re-renders children', () => {
+    const onReset = vi.fn();
+    function Harness() {
+      const [explode, setExplode] = useState(true);
+      return (
+        <ErrorBoundary
+          baseLogger={baseLogger}
+          onReset={() => {
+            onReset();
+            setExplode(false);
+          }}
+        >
+          <Bomb explode={explode} />
+        </ErrorBoundary>
+      );
+    }
+    render(<Harness />);
+    fireEvent.click(screen.getByText('Try again'));
+    expect(onReset).toHaveBeenCalledTimes(1);
+    expect(screen.getByText('all good')).toBeInTheDocument();
+  });
+
+  it('supports a render-function fallback and onError callback', () => {
+    const onError = vi.fn();
+    render(
+      <ErrorBoundary
+        baseLogger={baseLogger}
+        onError={onError}
+        fallback={({ error, requestId }) => <span>{`${error.message} (${requestId})`}</span>}
+      >
+        <Bomb explode />
+      </ErrorBoundary>,
+    );
+    expect(screen.getByText('render failed (req-abc)')).toBeInTheDocument();
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), expect.anything(), 'req-abc');
+  });
+});
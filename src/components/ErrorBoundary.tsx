@@ -0,0 +1,186 @@
+/**
+ * ErrorBoundary component — catches render errors, logs them via createContextLogger and
+ * shows a fallback with the request ID the user can quote to support.
+ *
+ * The logged entry carries `service`, `request_id`, `browser_id`, the error message, a
+ * truncated stack and the React component stack. The fallback displays the same `request_id`,
+ * so support can find the exact log line in Grafana.
+ *
+ * @example
+ * <ErrorBoundary service="Dashboard" labels={{ title: t('errors.title'), retry: t('errors.retry') }}>
+ *   <Dashboard />
+ * </ErrorBoundary>
+ *
+ * // Custom fallback
+ * <ErrorBoundary fallback={({ requestId, reset }) => <MyFallback id={requestId} onRetry={reset} />}>
+ *   <Dashboard />
+ * </ErrorBoundary>
+ */
+
+"use client";
+
+import React, { useState } from 'react';
+import {
+  MSG_ERROR_BOUNDARY_COPIED,
+  MSG_ERROR_BOUNDARY_COPY,
+  MSG_ERROR_BOUNDARY_DESCRIPTION,
+  MSG_ERROR_BOUNDARY_REQUEST_ID_LABEL,
+  MSG_ERROR_BOUNDARY_RETRY,
+  MSG_ERROR_BOUNDARY_TITLE,
+} from '../lib/messages';
+import type { Logger } from '../utils/logger';
+import { createContextLogger } from '../utils/context-logger';
+import { getRequestId } from '../utils/requestId';
+
+/** Maximum length for logged stacks (error and component stack). */
+const MAX_STACK_LENGTH = 2000;
+
+export interface ErrorBoundaryFallbackProps {
+  error: Error;
+  /** Request ID attached to the logged entry — show it so users can quote it to support. */
+  requestId: string;
+  /** Clears the error and re-renders children. */
+  reset: () => void;
+}
+
+/** Fallback copy. Defaults are English; pass translated strings from the app. */
+export interface ErrorBoundaryLabels {
+  title?: string;
+  description?: string;
+  requestId?: string;
+  copy?: string;
+  copied?: string;
+  retry?: string;
+}
+
+export interface ErrorBoundaryProps {
+  children?: React.ReactNode;
+  /** Value for the `service` log field (component or screen name). Default `'ErrorBoundary'`. */
+  service?: string;
+  /** Custom fallback element, or render function receiving error, request ID and reset. */
+  fallback?: React.ReactNode | ((props: ErrorBoundaryFallbackProps) => React.ReactNode);
+  labels?: ErrorBoundaryLabels;
+  /** Called after the error is logged (e.g. to report to an analytics tool). */
+  onError?: (error: Error, info: React.ErrorInfo, requestId: string) => void;
+  /** Called when the user clicks "try again", before children re-render. */
+  onReset?: () => void;
+  className?: string;
+  /** Logger override (for testing). Defaults to the singleton. */
+  baseLogger?: Logger;
+}
+
+interface ErrorBoundaryState {
+  error: Error | null;
+  requestId: string;
+}
+
+function truncate(value: string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  return value.length > MAX_STACK_LENGTH ? `${value.slice(0, MAX_STACK_LENGTH)}…[truncated]` : value;
+}
+
+/** Same request_id createContextLogger would pick (cookie, else fresh UUID), fixed per error. */
+function resolveRequestId(): string {
+  const fromCookie = getRequestId();
+  if (fromCookie) return fromCookie;
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) return crypto.randomUUID();
+  return '';
+}
+
+function DefaultErrorFallback({
+  requestId,
+  reset,
+  labels,
+  className = '',
+}: ErrorBoundaryFallbackProps & { labels?: ErrorBoundaryLabels; className?: string }): React.ReactElement {
+  const [copied, setCopied] = useState(false);
+  const canCopy = typeof navigator !== 'undefined' && !!navigator.clipboard;
+
+  const handleCopy = () => {
+    navigator.clipboard
+      .writeText(requestId)
+      .then(() => setCopied(true))
+      .catch(() => { /* clipboard permission denied — the ID is still visible */ });
+  };
+
+  return (
+    <div className={`exbrain-error-boundary ${className}`} role="alert">
+      <p className="exbrain-error-boundary-title">{labels?.title ?? MSG_ERROR_BOUNDARY_TITLE}</p>
+      <p className="exbrain-error-boundary-description">{labels?.description ?? MSG_ERROR_BOUNDARY_DESCRIPTION}</p>
+      {requestId && (
+        <div className="exbrain-error-boundary-reference">
+          <span>{labels?.requestId ?? MSG_ERROR_BOUNDARY_REQUEST_ID_LABEL}:</span>
+          <code className="exbrain-error-boundary-request-id">{requestId}</code>
+          {canCopy && (
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="exbrain-button exbrain-button--small exbrain-button--secondary"
+            >
+              {copied ? (labels?.copied ?? MSG_ERROR_BOUNDARY_COPIED) : (labels?.copy ?? MSG_ERROR_BOUNDARY_COPY)}
+            </button>
+          )}
+        </div>
+      )}
+      <button
+        type="button"
+        onClick={reset}
+        className="exbrain-button exbrain-button--small exbrain-button--primary"
+      >
+        {labels?.retry ?? MSG_ERROR_BOUNDARY_RETRY}
+      </button>
+    </div>
+  );
+}
+
+export class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  state: ErrorBoundaryState = { error: null, requestId: '' };
+
+  static getDerivedStateFromError(error: Error): Partial<ErrorBoundaryState> {
+    return { error, requestId: resolveRequestId() };
+  }
+
+  componentDidCatch(error: Error, info: React.ErrorInfo): void {
+    const { service = 'ErrorBoundary', baseLogger, onError } = this.props;
+    const { requestId } = this.state;
+    try {
+      const log = createContextLogger(service, baseLogger);
+      log.error(
+        'React render error',
+        {
+          // Explicit request_id so the logged entry matches the ID shown in the fallback.
+          request_id: requestId,
+          error_name: error.name,
+          stack: truncate(error.stack),
+          component_stack: truncate(info.componentStack),
+        },
+        error,
+      );
+    } catch {
+      // Logging must never break the fallback render.
+    }
+    onError?.(error, info, requestId);
+  }
+
+  reset = (): void => {
+    this.props.onReset?.();
+    this.setState({ error: null, requestId: '' });
+  };
+
+  render(): React.ReactNode {
+    const { error, requestId } = this.state;
+    if (!error) {
+      return this.props.children;
+    }
+    const { fallback, labels, className } = this.props;
+    if (typeof fallback === 'function') {
+      return fallback({ error, requestId, reset: this.reset });
+    }
+    if (fallback !== undefined) {
+      return fallback;
+    }
+    return (
+      <DefaultErrorFallback error={error} requestId={requestId} reset={this.reset} labels={labels} className={className} />
+    );
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * AuthProvider — cross-tab sync: events from other tabs are applied to this tab's Auth0 client,
+ * and a completed login redirect is announced to the other tabs.
+ */
+
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, waitFor } from '@testing-library/react';
+import { AuthProvider } from './AuthProvider';
+import { createAuthSyncBus, getActiveAuthSyncBus, type AuthSyncBus } from '../../utils/auth-sync';
+
+const auth0 = vi.hoisted(() => ({
+  logout: vi.fn(async () => {}),
+  getAccessTokenSilently: vi.fn(async () => 'token'),
+  providerProps: {} as Record<string, unknown>,
+}));
+
+vi.mock('@auth0/auth0-react', () => ({
+  Auth0Provider: ({ children, ...props }: { children: React.ReactNode }) => {
+    auth0.providerProps = props;
+    return <>{children}</>;
+  },
+  useAuth0: () => auth0,
+}));
+
+vi.mock('../../utils/auth-events', () => ({ logAuthEvent: vi.fn() }));
+
+const config = { domain: 'tenant.auth0.example', clientId: 'client-1' };
+
+describe('AuthProvider cross-tab sync', () => {
+  let otherTab: AuthSyncBus;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    otherTab = createAuthSyncBus({ appName: 'hello', channelName: 'exbrain-auth-sync' });
+  });
+
+  afterEach(() => {
+    otherTab.close();
+  });
+
+  it('signs this tab out locally when another tab logs out', async () => {
+    const { unmount } = render(<AuthProvider config={config} appName="hello">app</AuthProvider>);
+    otherTab.publish('logout');
+    await waitFor(() => expect(auth0.logout).toHaveBeenCalledWith({ openUrl: false }));
+    unmount();
+    expect(getActiveAuthSyncBus()).toBeNull();
+  });
+
+  it('re-reads the token cache when another tab logs in or refreshes', async () => {
+    const { unmount } = render(<AuthProvider config={config}>app</AuthProvider>);
+    otherTab.publish('token_refresh');
+    await waitFor(() => expect(auth0.getAccessTokenSilently).toHaveBeenCalledTimes(1));
+    unmount();
+  });
+
+  it('announces a completed login redirect and restores the return path', () => {
+    const { unmount } = render(<AuthProvider config={config}>app</AuthProvider>);
+    const publish = vi.spyOn(getActiveAuthSyncBus() as AuthSyncBus, 'publish');
+    const replaceState = vi.spyOn(window.history, 'replaceState');
+    const onRedirectCallback = auth0.providerProps.onRedirectCallback as (
+      appState?: { returnTo?: string },
+      user?: { sub?: string }
+    ) => void;
+    onRedirectCallback({ returnTo: '/dashboard' }, { sub: 'auth0|1' });
+    expect(publish).toHaveBeenCalledWith('login', 'auth0|1');
+    expect(replaceState).toHaveBeenCalledWith({}, document.title, '/dashboard');
+    unmount();
+  });
+
+  it('does not start the bus when syncAcrossTabs is false', () => {
+    const { unmount } = render(<AuthProvider config={config} syncAcrossTabs={false}>app</AuthProvider>);
+    expect(getActiveAuthSyncBus()).toBeNull();
+    expect(auth0.providerProps.onRedirectCallback).toBeUndefined();
+    unmount();
+  });
+});
@@ -4,11 +4,18 @@
  * Wraps the Auth0Provider from @auth0/auth0-react with proper configuration
  */
 
-import React from 'react';
-import { Auth0Provider as Auth0ProviderBase } from '@auth0/auth0-react';
+import React, { useEffect } from 'react';
+import { Auth0Provider as Auth0ProviderBase, useAuth0 as useAuth0Base, type AppState } from '@auth0/auth0-react';
 import { ORIGIN_PREFIX_127, ORIGIN_PREFIX_LOCALHOST, URL_SCHEME_HTTPS } from '../../lib/constants';
 import { MSG_AUTH0_DISABLED_HTTP_WARN } from '../../lib/messages';
+import { noteAccessToken } from '../../services/auth0';
 import type { Auth0Config } from '../../types/auth0';
+import {
+  createAuthSyncBus,
+  getActiveAuthSyncBus,
+  publishAuthSyncEvent,
+  setActiveAuthSyncBus,
+} from '../../utils/auth-sync';
 import { createContextLogger } from '../../utils/context-logger';
 
 const log = createContextLogger('AuthProvider');
@@ -16,6 +23,10 @@ const log = createContextLogger('AuthProvider');
 interface AuthProviderProps {
   children: React.ReactNode;
   config: Auth0Config;
+  /** Application name recorded with auth events (logAuthEvent `appName`). Default 'unknown'. */
+  appName?: string;
+  /** Propagate login, logout and token refresh to the other tabs. Default true. */
+  syncAcrossTabs?: boolean;
 }
 
 /**
@@ -39,6 +50,53 @@ function isSecureOrigin(): boolean {
   return false;
 }
 
+/**
+ * Applies auth events from other tabs (utils/auth-sync.ts) to this tab's Auth0 client:
+ * logout clears the local session without redirecting; login and token refresh re-read the
+ * shared localStorage token cache so this tab's user and token catch up.
+ */
+const AuthTabSync: React.FC<{ appName: string }> = ({ appName }) => {
+  const { logout, getAccessTokenSilently } = useAuth0Base();
+
+  useEffect(() => {
+    const bus = createAuthSyncBus({ appName });
+    setActiveAuthSyncBus(bus);
+    const unsubscribe = bus.subscribe((event) => {
+      if (event.type === 'logout') {
+        noteAccessToken(null);
+        void logout({ openUrl: false });
+        return;
+      }
+      getAccessTokenSilently().then(
+        (token) => {
+          noteAccessToken(token);
+        },
+        (error: unknown) => {
+          log.warn('Cross-tab auth sync failed', {
+            event: event.type,
+            reason: error instanceof Error ? error.message : typeof error,
+          });
+        }
+      );
+    });
+    return () => {
+      unsubscribe();
+      bus.close();
+      if (getActiveAuthSyncBus() === bus) {
+        setActiveAuthSyncBus(null);
+      }
+    };
+  }, [appName, logout, getAccessTokenSilently]);
+
+  return null;
+};
+
+/** Auth0's default redirect handling, plus a login event for the other tabs. */
+function onRedirectCallback(appState?: AppState, user?: { sub?: string }): void {
+  publishAuthSyncEvent('login', user?.sub);
+  window.history.replaceState({}, document.title, appState?.returnTo || window.location.pathname);
+}
+
 /**
  * Auth0Provider component
  * Wraps the application with Auth0 authentication
@@ -66,7 +124,12 @@ function isUsingIAMService(config: Auth0Config): boolean {
   return redirectUri.includes('/auth/callback');
 }
 
-export const AuthProvider: React.FC<AuthProviderProps> = ({ children, config }) => {
+export const AuthProvider: React.FC<AuthProviderProps> = ({
+  children,
+  config,
+  appName = 'unknown',
+  syncAcrossTabs = true,
+}) => {
   // Check if we're on a secure origin
   const secure = isSecureOrigin();
   
@@ -114,7 +177,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children, config })
       }}
       cacheLocation="localstorage"
       useRefreshTokens={true}
+      onRedirectCallback={syncAcrossTabs ? onRedirectCallback : undefined}
     >
+      {syncAcrossTabs && <AuthTabSync appName={appName} />}
       {children}
     </Auth0ProviderBase>
   );
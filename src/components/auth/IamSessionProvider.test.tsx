@@ -0,0 +1,160 @@
+/**
+ * IamSessionProvider — loads the BFF session, refreshes it ahead of expiry and builds
+ * validated login / logout redirects.
+ */
+
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, render, renderHook, waitFor } from '@testing-library/react';
+import { IamSessionProvider, useSession } from './IamSessionProvider';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+const session = {
+  user: { id: 'u-1', email: 'ada@example.com', name: 'Ada' },
+  tenants: [{ id: 't-1', name: 'Acme', roles: ['admin'] }],
+  roles: ['admin'],
+};
+
+function wrapper(props: Partial<React.ComponentProps<typeof IamSessionProvider>> = {}) {
+  return function Wrapper({ children }: { children: React.ReactNode }) {
+    return <IamSessionProvider {...props}>{children}</IamSessionProvider>;
+  };
+}
+
+describe('IamSessionProvider', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let assign: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    assign = vi.fn();
+    vi.spyOn(window, 'location', 'get').mockReturnValue({
+      ...window.location,
+      pathname: '/dashboard/reports',
+      search: '?tab=2',
+      assign,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('loads the session through apiUrl and exposes user, tenants, roles and expiresAt', async () => {
+    vi.stubEnv('NEXT_PUBLIC_BASE_PATH', '/hello');
+    fetchMock.mockImplementation(async () => jsonResponse({ ...session, expires_at: '2030-01-01T00:00:00Z' }));
+    const { result } = renderHook(() => useSession(), { wrapper: wrapper() });
+    expect(result.current.status).toBe('loading');
+    await waitFor(() => expect(result.current.status).toBe('authenticated'));
+    expect(fetchMock).toHaveBeenCalledWith('/hello/api/auth/session', expect.objectContaining({ credentials: 'same-origin' }));
+    expect(result.current.user).toEqual(session.user);
+    expect(result.current.tenants).toEqual(session.tenants);
+    expect(result.current.roles).toEqual(['admin']);
+    expect(result.current.expiresAt?.toISOString()).toBe('2030-01-01T00:00:00.000Z');
+  });
+
+  it('is unauthenticated on 401 and on { authenticated: false }', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ error: { code: 'unauthorized', message: 'no session' } }, 401));
+    const first = renderHook(() => useSession(), { wrapper: wrapper() });
+    await waitFor(() => expect(first.result.current.status).toBe('unauthenticated'));
+    expect(first.result.current.error).toBeNull();
+
+    fetchMock.mockResolvedValueOnce(jsonResponse({ authenticated: false }));
+    const second = renderHook(() => useSession(), { wrapper: wrapper() });
+    await waitFor(() => expect(second.result.current.status).toBe('unauthenticated'));
+    expect(second.result.current.user).toBeNull();
+  });
+
+  it('refreshes in the background before expiry and keeps the session when a refresh fails', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    const expiresIn = 10 * 60 * 1000;
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ ...session, expiresAt: Math.floor((Date.now() + expiresIn) / 1000) }))
+      .mockResolvedValueOnce(jsonResponse({ error: 'upstream down' }, 502))
+      .mockResolvedValueOnce(jsonResponse({ ...session, roles: ['viewer'], expiresAt: Date.now() + 2 * expiresIn }));
+    const { result } = renderHook(() => useSession(), { wrapper: wrapper({ refreshBeforeMs: 60000, retryDelayMs: 30000 }) });
+    await act(async () => {});
+    expect(result.current.status).toBe('authenticated');
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(expiresIn - 60000);
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(result.current.status).toBe('authenticated');
+    expect(result.current.error?.status).toBe(502);
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(30000);
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(result.current.roles).toEqual(['viewer']);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('backs off when a refresh returns the same expiry', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    const expiresIn = 10 * 60 * 1000;
+    const body = { ...session, expiresAt: Date.now() + expiresIn };
+    fetchMock.mockImplementation(async () => jsonResponse(body));
+    const { result } = renderHook(() => useSession(), { wrapper: wrapper({ refreshBeforeMs: 60000 }) });
+    await act(async () => {});
+    expect(result.current.status).toBe('authenticated');
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(expiresIn - 60000);
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(59000);
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(1000 + 10 * 60000);
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('shares one request between concurrent refresh calls', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(session));
+    const { result } = renderHook(() => useSession(), { wrapper: wrapper() });
+    await waitFor(() => expect(result.current.status).toBe('authenticated'));
+    await act(async () => {
+      await Promise.all([result.current.refresh(), result.current.refresh()]);
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('login and logout redirect with a validated return URL', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(session));
+    const { result } = renderHook(() => useSession(), { wrapper: wrapper() });
+    await waitFor(() => expect(result.current.status).toBe('authenticated'));
+
+    result.current.login();
+    expect(assign).toHaveBeenLastCalledWith('/auth/login?returnUrl=%2Fdashboard%2Freports%3Ftab%3D2');
+    result.current.login('https://evil.example/phish');
+    expect(assign).toHaveBeenLastCalledWith('/auth/login?returnUrl=%2F');
+
+    act(() => result.current.logout('//evil.example'));
+    expect(assign).toHaveBeenLastCalledWith('/auth/logout?returnUrl=%2F');
+    expect(result.current.status).toBe('unauthenticated');
+    expect(result.current.user).toBeNull();
+  });
+
+  it('throws when useSession is used outside the provider', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    function Consumer() {
+      useSession();
+      return null;
+    }
+    expect(() => render(<Consumer />)).toThrow('useSession must be used within an IamSessionProvider');
+  });
+});
@@ -0,0 +1,285 @@
+'use client';
+
+/**
+ * IamSessionProvider for common-react
+ *
+ * Session state for apps that use the IAM Service BFF pattern (redirectUri points to
+ * /auth/callback, so AuthProvider skips Auth0). The BFF keeps the tokens server-side in an
+ * httpOnly session cookie; this provider only reads the session endpoint.
+ *
+ * - Loads `GET sessionPath` (through apiUrl) on mount: 2xx with a `user` → authenticated,
+ *   401 / 403 or `{ authenticated: false }` → unauthenticated.
+ * - Re-fetches the session `refreshBeforeMs` before `expiresAt`, so the BFF can refresh the
+ *   tokens in the background. A failed background refresh keeps the current session until it
+ *   expires and is retried after `retryDelayMs`.
+ * - `login(returnUrl)` / `logout(returnUrl)` navigate to the BFF routes with the return URL
+ *   passed through validateReturnUrl (default: the current path for login, '/' for logout).
+ */
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { MSG_USE_SESSION_OUTSIDE_PROVIDER } from '../../lib/messages';
+import { apiErrorFromFailure, isApiError, parseApiResponse, type ApiError } from '../../utils/api-error';
+import { createContextLogger } from '../../utils/context-logger';
+import { apiUrl, withoutBasePath } from '../../utils/paths';
+import { fetchWithRequestId } from '../../utils/requestId';
+import { validateReturnUrl } from '../../utils/return-url-validator';
+
+const log = createContextLogger('IamSessionProvider');
+
+export type SessionStatus = 'loading' | 'authenticated' | 'unauthenticated';
+
+/** User as returned by the session endpoint (IAM `/v1/me` shape). */
+export interface IamSessionUser {
+  id: string;
+  email?: string;
+  name?: string;
+  picture?: string;
+  [key: string]: unknown;
+}
+
+export interface IamTenant {
+  id: string;
+  name?: string;
+  /** The user's roles within this tenant. */
+  roles?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * Session endpoint body. `expires_at` / `expiresAt` may be an ISO string, epoch seconds or
+ * epoch milliseconds.
+ */
+export interface IamSessionResponse {
+  authenticated?: boolean;
+  user?: IamSessionUser | null;
+  tenants?: IamTenant[];
+  roles?: string[];
+  expires_at?: string | number | null;
+  expiresAt?: string | number | null;
+}
+
+export interface SessionContextValue {
+  status: SessionStatus;
+  user: IamSessionUser | null;
+  tenants: IamTenant[];
+  roles: string[];
+  expiresAt: Date | null;
+  /** Last failure loading the session (cleared on the next successful load). */
+  error: ApiError | null;
+  /** Re-fetch the session now; concurrent calls share one request. */
+  refresh: () => Promise<void>;
+  /** Navigate to the BFF login route. */
+  login: (returnUrl?: string) => void;
+  /** Navigate to the BFF logout route. */
+  logout: (returnUrl?: string) => void;
+}
+
+export interface IamSessionProviderProps {
+  children: React.ReactNode;
+  /** Session endpoint. Default '/api/auth/session'. */
+  sessionPath?: string;
+  /** BFF login route. Default '/auth/login'. */
+  loginPath?: string;
+  /** BFF logout route. Default '/auth/logout'. */
+  logoutPath?: string;
+  /** Query parameter carrying the return URL. Default 'returnUrl'. */
+  returnUrlParam?: string;
+  /** How long before `expiresAt` the session is re-fetched. Default 60000. */
+  refreshBeforeMs?: number;
+  /** Delay before retrying a failed background refresh. Default 30000. */
+  retryDelayMs?: number;
+}
+
+interface SessionState {
+  status: SessionStatus;
+  user: IamSessionUser | null;
+  tenants: IamTenant[];
+  roles: string[];
+  expiresAt: Date | null;
+  error: ApiError | null;
+}
+
+const UNAUTHENTICATED: Omit<SessionState, 'error'> = {
+  status: 'unauthenticated',
+  user: null,
+  tenants: [],
+  roles: [],
+  expiresAt: null,
+};
+
+/** Shortest delay between two scheduled refreshes. */
+const MIN_REFRESH_DELAY_MS = 5000;
+
+/** Longest delay setTimeout accepts; longer delays fire immediately. */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+const SessionContext = createContext<SessionContextValue | null>(null);
+
+function parseExpiry(value: string | number | null | undefined): Date | null {
+  if (value === null || value === undefined || value === '') return null;
+  // Epoch seconds are below 1e12 until the year 33658.
+  const ms = typeof value === 'number' ? (value < 1e12 ? value * 1000 : value) : Date.parse(value);
+  return Number.isFinite(ms) ? new Date(ms) : null;
+}
+
+function toSessionState(body: IamSessionResponse | undefined): SessionState {
+  if (!body || body.authenticated === false || !body.user) {
+    return { ...UNAUTHENTICATED, error: null };
+  }
+  return {
+    status: 'authenticated',
+    user: body.user,
+    tenants: body.tenants ?? [],
+    roles: body.roles ?? [],
+    expiresAt: parseExpiry(body.expires_at ?? body.expiresAt),
+    error: null,
+  };
+}
+
+function currentPath(): string {
+  if (typeof window === 'undefined') return '/';
+  return withoutBasePath(window.location.pathname) + window.location.search;
+}
+
+/**
+ * IamSessionProvider component
+ *
+ * @example
+ * ```tsx
+ * <IamSessionProvider sessionPath="/api/auth/session">
+ *   <App />
+ * </IamSessionProvider>
+ *
+ * const { status, user, login } = useSession();
+ * if (status === 'unauthenticated') login();
+ * ```
+ */
+export const IamSessionProvider: React.FC<IamSessionProviderProps> = ({
+  children,
+  sessionPath = '/api/auth/session',
+  loginPath = '/auth/login',
+  logoutPath = '/auth/logout',
+  returnUrlParam = 'returnUrl',
+  refreshBeforeMs = 60000,
+  retryDelayMs = 30000,
+}) => {
+  const [state, setState] = useState<SessionState>({ ...UNAUTHENTICATED, status: 'loading', error: null });
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const inFlight = useRef<Promise<void> | null>(null);
+  const mounted = useRef(true);
+  // Expiry (epoch ms) the last pre-expiry refresh was made for.
+  const preExpiryRefreshed = useRef<number | null>(null);
+
+  const refresh = useCallback((): Promise<void> => {
+    if (inFlight.current) return inFlight.current;
+    const run = (async () => {
+      try {
+        const body = await parseApiResponse<IamSessionResponse>(
+          fetchWithRequestId(apiUrl(sessionPath), {
+            credentials: 'same-origin',
+            cache: 'no-store',
+            headers: { Accept: 'application/json' },
+          })
+        );
+        if (!mounted.current) return;
+        setRetryAt(null);
+        setState(toSessionState(body));
+      } catch (err) {
+        if (!mounted.current) return;
+        const error = isApiError(err) ? err : apiErrorFromFailure(err);
+        if (error.status === 401 || error.status === 403) {
+          setRetryAt(null);
+          setState({ ...UNAUTHENTICATED, error: null });
+          return;
+        }
+        log.warn('Session refresh failed', { error_code: error.code, status: error.status });
+        setState((prev) => {
+          const stillValid =
+            prev.status === 'authenticated' && (!prev.expiresAt || prev.expiresAt.getTime() > Date.now());
+          return stillValid ? { ...prev, error } : { ...UNAUTHENTICATED, error };
+        });
+        setRetryAt(Date.now() + retryDelayMs);
+      }
+    })().finally(() => {
+      inFlight.current = null;
+    });
+    inFlight.current = run;
+    return run;
+  }, [sessionPath, retryDelayMs]);
+
+  useEffect(() => {
+    mounted.current = true;
+    void refresh();
+    return () => {
+      mounted.current = false;
+    };
+  }, [refresh]);
+
+  // Background refresh ahead of expiry (or retry after a failed refresh). A BFF with an
+  // absolute session lifetime returns the same expiry again: then only check once more at
+  // expiry instead of refreshing every MIN_REFRESH_DELAY_MS until the session ends.
+  useEffect(() => {
+    if (state.status !== 'authenticated') return;
+    const expiresAt = state.expiresAt?.getTime();
+    let expiryCheckAt: number | null = null;
+    if (expiresAt !== undefined) {
+      if (expiresAt !== preExpiryRefreshed.current) expiryCheckAt = expiresAt - refreshBeforeMs;
+      else if (expiresAt > Date.now()) expiryCheckAt = expiresAt;
+    }
+    const candidates = [expiryCheckAt, retryAt].filter((at): at is number => at !== null);
+    if (candidates.length === 0) return;
+    const next = Math.min(...candidates);
+    const delay = Math.min(Math.max(next - Date.now(), MIN_REFRESH_DELAY_MS), MAX_TIMER_DELAY_MS);
+    const timer = setTimeout(() => {
+      if (next === expiryCheckAt) preExpiryRefreshed.current = expiresAt ?? null;
+      void refresh();
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [state.status, state.expiresAt, retryAt, refreshBeforeMs, refresh]);
+
+  const redirect = useCallback(
+    (path: string, returnUrl: string) => {
+      const query = new URLSearchParams({ [returnUrlParam]: returnUrl });
+      window.location.assign(`${apiUrl(path)}?${query.toString()}`);
+    },
+    [returnUrlParam]
+  );
+
+  const login = useCallback(
+    (returnUrl?: string) => redirect(loginPath, validateReturnUrl(returnUrl ?? currentPath())),
+    [redirect, loginPath]
+  );
+
+  const logout = useCallback(
+    (returnUrl?: string) => {
+      setRetryAt(null);
+      setState({ ...UNAUTHENTICATED, error: null });
+      redirect(logoutPath, validateReturnUrl(returnUrl));
+    },
+    [redirect, logoutPath]
+  );
+
+  const value = useMemo<SessionContextValue>(
+    () => ({ ...state, refresh, login, logout }),
+    [state, refresh, login, logout]
+  );
+
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>;
+};
+
+/** Session of the enclosing IamSessionProvider, or null outside one. */
+export function useOptionalSession(): SessionContextValue | null {
+  return useContext(SessionContext);
+}
+
+/**
+ * Session of the enclosing IamSessionProvider.
+ * Throws when called outside the provider.
+ */
+export function useSession(): SessionContextValue {
+  const ctx = useContext(SessionContext);
+  if (!ctx) {
+    throw new Error(MSG_USE_SESSION_OUTSIDE_PROVIDER);
+  }
+  return ctx;
+}
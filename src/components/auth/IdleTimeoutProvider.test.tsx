@@ -0,0 +1,148 @@
+/**
+ * IdleTimeoutProvider — countdown warning, sign-out on inactivity, cross-tab "still here".
+ */
+
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom/vitest';
+import { IdleTimeoutProvider, IDLE_ACTIVITY_STORAGE_KEY } from './IdleTimeoutProvider';
+import { setActiveAuthSyncBus } from '../../utils/auth-sync';
+
+const auth = vi.hoisted(() => ({
+  isAuthenticated: true,
+  user: { sub: 'auth0|1' } as { sub: string } | undefined,
+  logout: vi.fn(async () => {}),
+}));
+
+const mockLogAuthEvent = vi.hoisted(() => vi.fn());
+
+vi.mock('../../services/auth0', () => ({ useAuth0: () => auth }));
+vi.mock('../../utils/auth-events', () => ({ logAuthEvent: mockLogAuthEvent }));
+
+async function advance(ms: number) {
+  await act(async () => {
+    vi.advanceTimersByTime(ms);
+  });
+}
+
+function renderProvider(props: Partial<React.ComponentProps<typeof IdleTimeoutProvider>> = {}) {
+  return render(
+    <IdleTimeoutProvider appName="hello" idleTimeoutMs={60_000} warningMs={10_000} {...props}>
+      <p>app</p>
+    </IdleTimeoutProvider>
+  );
+}
+
+describe('IdleTimeoutProvider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'Date'] });
+    auth.isAuthenticated = true;
+    auth.user = { sub: 'auth0|1' };
+    auth.logout = vi.fn(async () => {});
+    mockLogAuthEvent.mockClear();
+    window.localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    setActiveAuthSyncBus(null);
+  });
+
+  it('shows a countdown warning before the timeout', async () => {
+    renderProvider();
+    await advance(49_000);
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    await advance(2_000);
+    expect(screen.getByRole('dialog')).toBeInTheDocument();
+    expect(screen.getByText('Are you still there?')).toBeInTheDocument();
+    expect(screen.getByText(/signed out in 9 seconds/)).toBeInTheDocument();
+  });
+
+  it('signs out and logs session_timeout when time runs out', async () => {
+    renderProvider();
+    await advance(61_000);
+    expect(mockLogAuthEvent).toHaveBeenCalledWith({
+      eventType: 'session_timeout',
+      appName: 'hello',
+      userId: 'auth0|1',
+      result: 'success',
+    });
+    expect(auth.logout).toHaveBeenCalledTimes(1);
+    await advance(5_000);
+    expect(auth.logout).toHaveBeenCalledTimes(1);
+  });
+
+  it('resets on activity and on "Stay signed in", but ignores passive activity while warning', async () => {
+    renderProvider({ labels: { staySignedIn: 'Keep going' } });
+    await advance(40_000);
+    fireEvent.keyDown(window);
+    await advance(40_000);
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+
+    await advance(15_000);
+    expect(screen.getByRole('dialog')).toBeInTheDocument();
+    fireEvent.pointerMove(window);
+    await advance(1_000);
+    expect(screen.getByRole('dialog')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Keep going'));
+    await advance(1_000);
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(auth.logout).not.toHaveBeenCalled();
+  });
+
+  it('closes the warning when another tab reports activity', async () => {
+    renderProvider();
+    await advance(52_000);
+    expect(screen.getByRole('dialog')).toBeInTheDocument();
+
+    const now = String(Date.now());
+    window.localStorage.setItem(IDLE_ACTIVITY_STORAGE_KEY, now);
+    await act(async () => {
+      window.dispatchEvent(new StorageEvent('storage', { key: IDLE_ACTIVITY_STORAGE_KEY, newValue: now }));
+    });
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('logs the timeout once across tabs and leaves the other tabs to the auth sync logout', async () => {
+    setActiveAuthSyncBus({ tabId: 'bus', publish: vi.fn(), subscribe: vi.fn(), close: vi.fn() });
+    // Two tabs sharing localStorage.
+    renderProvider();
+    renderProvider();
+    await advance(61_000);
+    expect(mockLogAuthEvent).toHaveBeenCalledTimes(1);
+    expect(auth.logout).toHaveBeenCalledTimes(1);
+  });
+
+  it('still signs out every tab without an auth sync bus, logging the timeout once', async () => {
+    renderProvider();
+    renderProvider();
+    await advance(61_000);
+    expect(mockLogAuthEvent).toHaveBeenCalledTimes(1);
+    expect(auth.logout).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses onTimeout instead of the auth provider logout and the sign-out button', async () => {
+    const onTimeout = vi.fn();
+    renderProvider({ onTimeout });
+    await advance(52_000);
+    fireEvent.click(screen.getByText('Sign out'));
+    expect(onTimeout).toHaveBeenCalledTimes(1);
+    expect(auth.logout).not.toHaveBeenCalled();
+    expect(mockLogAuthEvent).not.toHaveBeenCalled();
+  });
+
+  it('does nothing while signed out or disabled', async () => {
+    auth.isAuthenticated = false;
+    const { unmount } = renderProvider();
+    await advance(120_000);
+    unmount();
+
+    auth.isAuthenticated = true;
+    renderProvider({ enabled: false });
+    await advance(120_000);
+    expect(auth.logout).not.toHaveBeenCalled();
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,314 @@
+'use client';
+
+/**
+ * IdleTimeoutProvider for common-react
+ *
+ * Signs the user out after a period of inactivity, with a countdown warning first
+ * (built on ui/dialog). Only runs while the user is signed in, through IamSessionProvider
+ * when one encloses it, else Auth0.
+ *
+ * - Activity: pointer, keyboard, wheel and touch events, and the tab becoming visible.
+ *   While the warning is open only "Stay signed in" (or closing the dialog) counts.
+ * - Tabs share the last activity time through localStorage, so activity or "Stay signed in"
+ *   in one tab resets the timer (and closes the warning) in every tab.
+ * - On timeout the sign-out is logged via logAuthEvent (`session_timeout`), then the auth
+ *   provider's logout is called (or `onTimeout`, when given).
+ * - Tabs time out together, so one tab claims the timeout (a "timed out at" marker next to
+ *   the activity key) and only that tab logs the event. With Auth0 and an active auth sync bus
+ *   the other tabs are signed out by the winner's logout; otherwise each runs its own logout.
+ */
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  MSG_IDLE_TIMEOUT_DESCRIPTION,
+  MSG_IDLE_TIMEOUT_SIGN_OUT,
+  MSG_IDLE_TIMEOUT_STAY_SIGNED_IN,
+  MSG_IDLE_TIMEOUT_TITLE,
+} from '../../lib/messages';
+import { useAuth0 } from '../../services/auth0';
+import { Button } from '../../ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../../ui/dialog';
+import { logAuthEvent } from '../../utils/auth-events';
+import { getActiveAuthSyncBus } from '../../utils/auth-sync';
+import { useOptionalSession } from './IamSessionProvider';
+
+/** Warning dialog copy. Defaults are English; pass translated strings from the app. */
+export interface IdleTimeoutLabels {
+  title?: string;
+  /** `{seconds}` is replaced with the seconds left before sign-out. */
+  description?: string;
+  staySignedIn?: string;
+  signOut?: string;
+}
+
+export interface IdleTimeoutProviderProps {
+  children: React.ReactNode;
+  /** Inactivity before sign-out. Default 15 minutes. */
+  idleTimeoutMs?: number;
+  /** How long before sign-out the warning is shown. Default 60 seconds. */
+  warningMs?: number;
+  /** Application name recorded with the `session_timeout` event. Default 'unknown'. */
+  appName?: string;
+  /** Replaces the auth provider's logout on timeout (the event is still logged). */
+  onTimeout?: () => void;
+  /** Set false to turn the timer off (e.g. for kiosk screens). Default true. */
+  enabled?: boolean;
+  labels?: IdleTimeoutLabels;
+  /**
+   * localStorage key shared by tabs. Default 'exbrain-idle-last-activity'. The timeout claim
+   * is stored under `<storageKey>:timed-out`.
+   */
+  storageKey?: string;
+}
+
+export interface IdleTimeoutContextValue {
+  /** True while the countdown warning is shown. */
+  isWarning: boolean;
+  /** Seconds left before sign-out while warning, else null. */
+  secondsLeft: number | null;
+  /** Record activity (e.g. during a long upload without user input). */
+  reset: () => void;
+}
+
+export const IDLE_ACTIVITY_STORAGE_KEY = 'exbrain-idle-last-activity';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+
+/** Minimum gap between two shared activity writes. */
+const ACTIVITY_WRITE_INTERVAL_MS = 5000;
+
+const TICK_MS = 1000;
+
+const IdleTimeoutContext = createContext<IdleTimeoutContextValue | null>(null);
+
+function readSharedActivity(key: string): number {
+  try {
+    const value = Number(window.localStorage.getItem(key));
+    return Number.isFinite(value) ? value : 0;
+  } catch {
+    return 0;
+  }
+}
+
+function writeSharedActivity(key: string, at: number): void {
+  try {
+    window.localStorage.setItem(key, String(at));
+  } catch {
+    // Storage full or disabled: activity is only tracked in this tab.
+  }
+}
+
+function createTabId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Claims the timeout for this tab. A claim made after `lastActivity` means another tab already
+ * timed out this session. Returns true when this tab should log the event.
+ */
+function claimTimeout(key: string, lastActivity: number, tabId: string): boolean {
+  try {
+    const [at, owner] = (window.localStorage.getItem(key) ?? '').split(':');
+    if (Number(at) >= lastActivity) return owner === tabId;
+    const claim = `${Date.now()}:${tabId}`;
+    window.localStorage.setItem(key, claim);
+    // Re-read: of two tabs writing at once, the last write wins.
+    return window.localStorage.getItem(key) === claim;
+  } catch {
+    // Storage unavailable: every tab handles its own timeout.
+    return true;
+  }
+}
+
+/**
+ * IdleTimeoutProvider component
+ *
+ * @example
+ * ```tsx
+ * <AuthProvider config={auth0Config} appName="hello">
+ *   <IdleTimeoutProvider appName="hello" idleTimeoutMs={15 * 60_000} labels={{ title: t('idle.title') }}>
+ *     <App />
+ *   </IdleTimeoutProvider>
+ * </AuthProvider>
+ * ```
+ */
+export const IdleTimeoutProvider: React.FC<IdleTimeoutProviderProps> = ({
+  children,
+  idleTimeoutMs = 15 * 60 * 1000,
+  warningMs = 60 * 1000,
+  appName = 'unknown',
+  onTimeout,
+  enabled = true,
+  labels,
+  storageKey = IDLE_ACTIVITY_STORAGE_KEY,
+}) => {
+  const session = useOptionalSession();
+  const auth0 = useAuth0();
+  const authenticated = session ? session.status === 'authenticated' : auth0.isAuthenticated;
+  const userId = session ? session.user?.id : auth0.user?.sub;
+  const active = enabled && authenticated;
+
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const lastActivity = useRef(Date.now());
+  const lastWrite = useRef(0);
+  const warning = useRef(false);
+  const timedOut = useRef(false);
+  const tabId = useRef('');
+  if (!tabId.current) tabId.current = createTabId();
+
+  // Latest auth values for the timers, without restarting them on every render.
+  const latest = useRef({ appName, userId, syncedLogout: false, logout: () => {} });
+  latest.current = {
+    appName,
+    userId,
+    // The Auth0 logout wrapper publishes on the auth sync bus, which signs out the other tabs.
+    syncedLogout: !onTimeout && !session,
+    logout: () => {
+      if (onTimeout) {
+        onTimeout();
+      } else if (session) {
+        session.logout();
+      } else {
+        void auth0.logout();
+      }
+    },
+  };
+
+  const markActive = useCallback(
+    (share: boolean) => {
+      const now = Date.now();
+      lastActivity.current = now;
+      if (warning.current) {
+        warning.current = false;
+        setSecondsLeft(null);
+      }
+      if (share || now - lastWrite.current >= ACTIVITY_WRITE_INTERVAL_MS) {
+        lastWrite.current = now;
+        writeSharedActivity(storageKey, now);
+      }
+    },
+    [storageKey]
+  );
+
+  const reset = useCallback(() => markActive(true), [markActive]);
+
+  const check = useCallback(() => {
+    if (timedOut.current) return;
+    const last = Math.max(lastActivity.current, readSharedActivity(storageKey));
+    lastActivity.current = last;
+    const remaining = last + idleTimeoutMs - Date.now();
+    if (remaining <= 0) {
+      timedOut.current = true;
+      warning.current = false;
+      setSecondsLeft(null);
+      if (claimTimeout(`${storageKey}:timed-out`, last, tabId.current)) {
+        logAuthEvent({
+          eventType: 'session_timeout',
+          appName: latest.current.appName,
+          userId: latest.current.userId,
+          result: 'success',
+        });
+        latest.current.logout();
+      } else if (!latest.current.syncedLogout || !getActiveAuthSyncBus()) {
+        latest.current.logout();
+      }
+      return;
+    }
+    if (remaining <= warningMs) {
+      warning.current = true;
+      setSecondsLeft(Math.ceil(remaining / 1000));
+    } else if (warning.current) {
+      // Another tab reported activity.
+      warning.current = false;
+      setSecondsLeft(null);
+    }
+  }, [storageKey, idleTimeoutMs, warningMs]);
+
+  useEffect(() => {
+    if (!active) return;
+    timedOut.current = false;
+    markActive(true);
+
+    const onActivity = () => {
+      if (!warning.current) markActive(false);
+    };
+    const onVisibility = () => {
+      if (document.visibilityState !== 'visible') return;
+      // Timers are throttled in background tabs: settle an overdue timeout first.
+      check();
+      if (!timedOut.current && !warning.current) markActive(false);
+    };
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === storageKey) check();
+    };
+
+    ACTIVITY_EVENTS.forEach((type) => window.addEventListener(type, onActivity, { passive: true }));
+    document.addEventListener('visibilitychange', onVisibility);
+    window.addEventListener('storage', onStorage);
+    const timer = setInterval(check, TICK_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach((type) => window.removeEventListener(type, onActivity));
+      document.removeEventListener('visibilitychange', onVisibility);
+      window.removeEventListener('storage', onStorage);
+      clearInterval(timer);
+      warning.current = false;
+      setSecondsLeft(null);
+    };
+  }, [active, storageKey, markActive, check]);
+
+  const signOutNow = useCallback(() => {
+    timedOut.current = true;
+    warning.current = false;
+    setSecondsLeft(null);
+    latest.current.logout();
+  }, []);
+
+  const value = useMemo<IdleTimeoutContextValue>(
+    () => ({ isWarning: secondsLeft !== null, secondsLeft, reset }),
+    [secondsLeft, reset]
+  );
+
+  const description = (labels?.description ?? MSG_IDLE_TIMEOUT_DESCRIPTION).replace(
+    '{seconds}',
+    String(secondsLeft ?? 0)
+  );
+
+  return (
+    <IdleTimeoutContext.Provider value={value}>
+      {children}
+      <Dialog
+        open={secondsLeft !== null}
+        onOpenChange={(open) => {
+          if (!open) reset();
+        }}
+      >
+        <DialogContent showCloseButton={false}>
+          <DialogHeader>
+            <DialogTitle>{labels?.title ?? MSG_IDLE_TIMEOUT_TITLE}</DialogTitle>
+            <DialogDescription aria-live="polite">{description}</DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={signOutNow}>
+              {labels?.signOut ?? MSG_IDLE_TIMEOUT_SIGN_OUT}
+            </Button>
+            <Button type="button" onClick={reset}>
+              {labels?.staySignedIn ?? MSG_IDLE_TIMEOUT_STAY_SIGNED_IN}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </IdleTimeoutContext.Provider>
+  );
+};
+
+/** Idle state of the enclosing IdleTimeoutProvider, or null outside one. */
+export function useIdleTimeout(): IdleTimeoutContextValue | null {
+  return useContext(IdleTimeoutContext);
+}
@@ -0,0 +1,150 @@
+/**
+ * ProtectedRoute — authentication, role / permission / claims checks, fallbacks and
+ * redirect to login with a validated return URL.
+ */
+
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom/vitest';
+import { ProtectedRoute } from './ProtectedRoute';
+import type { Auth0User } from '../../types/auth0';
+
+const auth = vi.hoisted(() => ({
+  isAuthenticated: false,
+  isLoading: false,
+  user: undefined as Auth0User | undefined,
+  loginWithRedirect: vi.fn(),
+}));
+
+vi.mock('../../services/auth0', () => ({
+  useAuth0: () => auth,
+}));
+
+function signIn(user: Partial<Auth0User> = {}) {
+  auth.isAuthenticated = true;
+  auth.user = { sub: 'auth0|1', ...user };
+}
+
+describe('ProtectedRoute', () => {
+  beforeEach(() => {
+    auth.isAuthenticated = false;
+    auth.isLoading = false;
+    auth.user = undefined;
+    auth.loginWithRedirect = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('renders the loading slot while Auth0 is loading', () => {
+    auth.isLoading = true;
+    render(<ProtectedRoute loading={<p>spinner</p>}>secret</ProtectedRoute>);
+    expect(screen.getByText('spinner')).toBeInTheDocument();
+    expect(screen.queryByText('secret')).not.toBeInTheDocument();
+  });
+
+  it('keeps the default loading markup', () => {
+    auth.isLoading = true;
+    render(<ProtectedRoute>secret</ProtectedRoute>);
+    expect(screen.getByText('Loading...')).toBeInTheDocument();
+  });
+
+  it('renders unauthenticatedFallback (or the legacy fallback) when signed out', () => {
+    const { rerender } = render(
+      <ProtectedRoute unauthenticatedFallback={<p>sign in</p>} forbiddenFallback={<p>denied</p>}>
+        secret
+      </ProtectedRoute>
+    );
+    expect(screen.getByText('sign in')).toBeInTheDocument();
+    rerender(<ProtectedRoute fallback={<p>legacy</p>}>secret</ProtectedRoute>);
+    expect(screen.getByText('legacy')).toBeInTheDocument();
+  });
+
+  it('renders children when authenticated and no checks are configured', () => {
+    signIn();
+    render(<ProtectedRoute>secret</ProtectedRoute>);
+    expect(screen.getByText('secret')).toBeInTheDocument();
+  });
+
+  it('checks namespaced role claims with any / all semantics', () => {
+    signIn({ 'https://exbrain.ai/roles': ['editor'] });
+    const { rerender } = render(
+      <ProtectedRoute claimNamespace="https://exbrain.ai" requiredRoles={['admin', 'editor']} forbiddenFallback={<p>denied</p>}>
+        secret
+      </ProtectedRoute>
+    );
+    expect(screen.getByText('secret')).toBeInTheDocument();
+    rerender(
+      <ProtectedRoute
+        claimNamespace="https://exbrain.ai"
+        requiredRoles={['admin', 'editor']}
+        rolesMatch="all"
+        forbiddenFallback={<p>denied</p>}
+      >
+        secret
+      </ProtectedRoute>
+    );
+    expect(screen.getByText('denied')).toBeInTheDocument();
+  });
+
+  it('ignores role claims outside claimNamespace', () => {
+    signIn({ 'https://other.example/roles': ['admin'] });
+    render(
+      <ProtectedRoute claimNamespace="https://exbrain.ai" requiredRoles={['admin']} forbiddenFallback={<p>denied</p>}>
+        secret
+      </ProtectedRoute>
+    );
+    expect(screen.getByText('denied')).toBeInTheDocument();
+  });
+
+  it('requires all permissions by default', () => {
+    signIn({ permissions: ['read:users'] });
+    render(
+      <ProtectedRoute requiredPermissions={['read:users', 'write:users']} forbiddenFallback={<p>denied</p>}>
+        secret
+      </ProtectedRoute>
+    );
+    expect(screen.getByText('denied')).toBeInTheDocument();
+  });
+
+  it('applies a custom claims predicate', () => {
+    signIn({ 'https://exbrain.ai/tenant': 'acme' });
+    const authorize = vi.fn((user: Auth0User) => user['https://exbrain.ai/tenant'] === 'globex');
+    render(
+      <ProtectedRoute authorize={authorize} forbiddenFallback={<p>denied</p>}>
+        secret
+      </ProtectedRoute>
+    );
+    expect(screen.getByText('denied')).toBeInTheDocument();
+    expect(authorize).toHaveBeenCalledWith(auth.user);
+  });
+
+  it('redirects to login with the current path as a validated return URL', () => {
+    vi.spyOn(window, 'location', 'get').mockReturnValue({
+      ...window.location,
+      pathname: '/admin/users',
+      search: '?page=2',
+      hash: '',
+    });
+    render(
+      <ProtectedRoute redirectToLogin loading={<p>redirecting</p>}>
+        secret
+      </ProtectedRoute>
+    );
+    expect(screen.getByText('redirecting')).toBeInTheDocument();
+    expect(auth.loginWithRedirect).toHaveBeenCalledWith({ appState: { returnTo: '/admin/users?page=2' } });
+  });
+
+  it('falls back to / when the current path is not a safe return URL', () => {
+    vi.spyOn(window, 'location', 'get').mockReturnValue({
+      ...window.location,
+      pathname: '/a//evil.example',
+      search: '',
+      hash: '',
+    });
+    render(<ProtectedRoute redirectToLogin>secret</ProtectedRoute>);
+    expect(auth.loginWithRedirect).toHaveBeenCalledWith({ appState: { returnTo: '/' } });
+  });
+});
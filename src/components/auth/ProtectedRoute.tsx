@@ -1,42 +1,121 @@
 /**
  * ProtectedRoute Component for common-react
- * 
- * Route guard component that requires authentication
+ *
+ * Route guard component that requires authentication and, optionally, roles,
+ * permissions or a custom check over the user's claims (see utils/auth-claims.ts)
  */
 
-import React from 'react';
+import React, { useEffect } from 'react';
 import { useAuth0 } from '../../services/auth0';
+import type { Auth0User } from '../../types/auth0';
+import { hasPermissions, hasRoles, type ClaimMatch } from '../../utils/auth-claims';
+import { validateReturnUrl } from '../../utils/return-url-validator';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  /** Rendered when the user is not authenticated. Default null. */
+  unauthenticatedFallback?: React.ReactNode;
+  /** Alias of `unauthenticatedFallback`, kept for existing callers. */
   fallback?: React.ReactNode;
+  /** Rendered when the user is authenticated but fails the role / permission / claims checks. Default null. */
+  forbiddenFallback?: React.ReactNode;
+  /** Rendered while Auth0 is loading (and while redirecting to login). */
+  loading?: React.ReactNode;
+  /** The app's custom-claim namespace, so `<namespace>/roles` and `<namespace>/permissions` are read too. */
+  claimNamespace?: string;
+  /** Roles the user needs (`roles` or `<claimNamespace>/roles` claim). */
+  requiredRoles?: string[];
+  /** How `requiredRoles` are matched. Default 'any'. */
+  rolesMatch?: ClaimMatch;
+  /** Exact claim holding the roles. */
+  rolesClaim?: string;
+  /** Permissions the user needs (`permissions` or `<claimNamespace>/permissions` claim). */
+  requiredPermissions?: string[];
+  /** How `requiredPermissions` are matched. Default 'all'. */
+  permissionsMatch?: ClaimMatch;
+  /** Exact claim holding the permissions. */
+  permissionsClaim?: string;
+  /** Custom check over the user's claims, applied after the role and permission checks. */
+  authorize?: (user: Auth0User) => boolean;
+  /**
+   * Start loginWithRedirect when the user is not authenticated, with the current path
+   * (validated by validateReturnUrl) as `appState.returnTo`.
+   */
+  redirectToLogin?: boolean;
+}
+
+function currentReturnUrl(): string {
+  if (typeof window === 'undefined') return '/';
+  const { pathname, search, hash } = window.location;
+  return validateReturnUrl(pathname + search + hash);
 }
 
 /**
  * ProtectedRoute component
- * Only renders children if user is authenticated
- * 
+ * Only renders children if user is authenticated and passes the configured checks
+ *
  * @example
  * ```tsx
  * <ProtectedRoute>
  *   <Dashboard />
  * </ProtectedRoute>
+ *
+ * <ProtectedRoute
+ *   requiredRoles={['admin', 'owner']}
+ *   requiredPermissions={['read:users']}
+ *   forbiddenFallback={<AccessDenied />}
+ *   loading={<Spinner />}
+ *   redirectToLogin
+ * >
+ *   <UserAdmin />
+ * </ProtectedRoute>
  * ```
  */
-export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ 
-  children, 
-  fallback = null 
+export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
+  children,
+  unauthenticatedFallback,
+  fallback = null,
+  forbiddenFallback = null,
+  loading = <div>Loading...</div>,
+  claimNamespace,
+  requiredRoles = [],
+  rolesMatch,
+  rolesClaim,
+  requiredPermissions = [],
+  permissionsMatch,
+  permissionsClaim,
+  authorize,
+  redirectToLogin = false,
 }) => {
-  const { isAuthenticated, isLoading } = useAuth0();
+  const { isAuthenticated, isLoading, user, loginWithRedirect } = useAuth0();
+  const shouldRedirect = redirectToLogin && !isLoading && !isAuthenticated;
+
+  useEffect(() => {
+    if (shouldRedirect) {
+      void loginWithRedirect({ appState: { returnTo: currentReturnUrl() } });
+    }
+  }, [shouldRedirect, loginWithRedirect]);
 
-  if (isLoading) {
-    return <div>Loading...</div>;
+  if (isLoading || shouldRedirect) {
+    return <>{loading}</>;
   }
 
   if (!isAuthenticated) {
-    return <>{fallback}</>;
+    return <>{unauthenticatedFallback ?? fallback}</>;
+  }
+
+  const allowed =
+    hasRoles(user, requiredRoles, { match: rolesMatch, namespace: claimNamespace, claim: rolesClaim }) &&
+    hasPermissions(user, requiredPermissions, {
+      match: permissionsMatch,
+      namespace: claimNamespace,
+      claim: permissionsClaim,
+    }) &&
+    (!authorize || (user !== undefined && authorize(user)));
+
+  if (!allowed) {
+    return <>{forbiddenFallback}</>;
   }
 
   return <>{children}</>;
 };
-
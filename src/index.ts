@@ -8,6 +8,12 @@ export { Button } from './components/Button';
 export { FormField } from './components/FormField';
 export { Input } from './components/Input';
 export { StatusBanner } from './components/StatusBanner';
+export {
+  ErrorBoundary,
+  type ErrorBoundaryProps,
+  type ErrorBoundaryFallbackProps,
+  type ErrorBoundaryLabels,
+} from './components/ErrorBoundary';
 export { Table } from './components/Table';
 export { Pagination, type PaginationProps } from './components/Pagination/Pagination';
 
@@ -23,18 +29,112 @@ export { AuthProvider } from './components/auth/AuthProvider';
 export { AuthButton } from './components/auth/AuthButton';
 export { ProtectedRoute } from './components/auth/ProtectedRoute';
 
+// Export IAM Service (BFF) session
+export {
+  IamSessionProvider,
+  useSession,
+  type IamSessionProviderProps,
+  type IamSessionResponse,
+  type IamSessionUser,
+  type IamTenant,
+  type SessionContextValue,
+  type SessionStatus,
+} from './components/auth/IamSessionProvider';
+export {
+  IdleTimeoutProvider,
+  useIdleTimeout,
+  IDLE_ACTIVITY_STORAGE_KEY,
+  type IdleTimeoutContextValue,
+  type IdleTimeoutLabels,
+  type IdleTimeoutProviderProps,
+} from './components/auth/IdleTimeoutProvider';
+
 // Export all utilities
-export { default as logger, enableLogShipping, disableLogShipping, isLogShippingEnabled } from './utils/logger';
-export type { Logger, LogLevel } from './utils/logger';
+export {
+  default as logger,
+  enableLogShipping,
+  disableLogShipping,
+  isLogShippingEnabled,
+  enablePersistentLogQueue,
+} from './utils/logger';
+export type {
+  Logger,
+  LogLevel,
+  PersistentLogQueueOptions,
+  LogShippingOptions,
+  LogShippingRetryOptions,
+} from './utils/logger';
+export type { LogSamplingOptions, LogRateLimitOptions } from './utils/log-sampling';
 export { createContextLogger } from './utils/context-logger';
 export type { ContextLogger } from './utils/context-logger';
+export { installGlobalErrorCapture, type GlobalErrorCaptureOptions } from './utils/global-error-capture';
+export {
+  configureLogRedaction,
+  redactLogContext,
+  redactString,
+  DEFAULT_REDACTED_KEYS,
+  DEFAULT_REDACTION_PATTERNS,
+  type LogRedactionOptions,
+  type RedactionPattern,
+} from './utils/log-redaction';
+export {
+  setServiceLogLevel,
+  setServiceLogLevels,
+  getServiceLogLevels,
+  parseLogLevelOverrides,
+} from './utils/log-level-overrides';
 export * from './utils/sanitizer';
 export * from './utils/paths';
 export * from './utils/email-validator';
 export * from './utils/return-url-validator';
 export * from './utils/password-validator';
 export * from './utils/auth-error-mapper';
+export * from './utils/auth-claims';
+export {
+  ApiError,
+  isApiError,
+  parseApiResponse,
+  apiErrorFromResponse,
+  apiErrorFromFailure,
+  codeForStatus,
+  type ApiErrorKind,
+  type ApiErrorOptions,
+  type ProblemDetails,
+  type ParseApiResponseOptions,
+} from './utils/api-error';
+export {
+  createApiClient,
+  TOTAL_COUNT_HEADER,
+  type ApiClient,
+  type ApiClientOptions,
+  type ApiRequestOptions,
+  type ApiResponse,
+  type ApiListResult,
+  type GetTokenOptions,
+  type QueryValue,
+} from './utils/api-client';
+export {
+  CSRF_COOKIE_NAME,
+  CSRF_HEADER,
+  CSRF_SAFE_METHODS,
+  getCsrfToken,
+  getCsrfHeader,
+  fetchWithCsrf,
+} from './utils/csrf';
+export { useCsrfFetch } from './utils/use-csrf-fetch';
 export * from './utils/auth-events';
+export {
+  AUTH_SYNC_CHANNEL,
+  createAuthSyncBus,
+  getActiveAuthSyncBus,
+  publishAuthSyncEvent,
+  setActiveAuthSyncBus,
+  type AuthSyncBus,
+  type AuthSyncBusOptions,
+  type AuthSyncEvent,
+  type AuthSyncEventType,
+  type AuthSyncListener,
+} from './utils/auth-sync';
 export { cn } from './utils/cn';
 export { safeTrim } from './utils/safe-trim';
 export {
@@ -46,6 +146,21 @@ export {
   REQUEST_ID_COOKIE_NAME,
   REQUEST_ID_HEADER,
 } from './utils/requestId';
+export {
+  TRACEPARENT_HEADER,
+  TRACESTATE_HEADER,
+  parseTraceparent,
+  parseTracestate,
+  formatTraceparent,
+  generateTraceId,
+  generateSpanId,
+  startTrace,
+  continueTrace,
+  createChildSpan,
+  getTraceHeaders,
+  getPageTraceContext,
+  type TraceContext,
+} from './utils/trace-context';
 
 // Responsive (SSR-safe viewport queries; align with Tailwind `screens`)
 export * from './responsive';
@@ -71,6 +186,13 @@ export {
 
 // Export Auth0 service
 export { useAuth0, getAccessToken } from './services/auth0';
+export {
+  createTokenManager,
+  decodeTokenExpiry,
+  useTokenManager,
+  type TokenManager,
+  type TokenManagerOptions,
+} from './services/token-manager';
 
 // Export all types
 export * from './types/common';
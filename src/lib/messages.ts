@@ -13,6 +13,18 @@ export const MSG_AUTH0_PROVIDER_NOT_AVAILABLE = 'Auth0Provider is not available'
 export const MSG_MISSING_REFRESH_TOKEN =
   'Missing Refresh Token. Please clear your browser storage (localStorage) and log in again to obtain a refresh token.'
 
+// IAM Service (BFF) session
+export const MSG_USE_SESSION_OUTSIDE_PROVIDER =
+  'useSession must be used within an IamSessionProvider'
+
+// Idle session timeout warning (defaults; apps pass translated labels)
+export const MSG_IDLE_TIMEOUT_TITLE = 'Are you still there?'
+/** `{seconds}` is replaced with the seconds left before sign-out. */
+export const MSG_IDLE_TIMEOUT_DESCRIPTION =
+  'For your security, you will be signed out in {seconds} seconds due to inactivity.'
+export const MSG_IDLE_TIMEOUT_STAY_SIGNED_IN = 'Stay signed in'
+export const MSG_IDLE_TIMEOUT_SIGN_OUT = 'Sign out'
+
 // Form primitives
 export const MSG_USE_FORM_FIELD_OUTSIDE_CONTEXT =
   'useFormField should be used within <FormField>';
@@ -39,3 +51,12 @@ export const AUTH_ERROR_MESSAGES: Record<string, string> = {
   network_error: 'Network error. Please check your connection and try again.',
   timeout: 'Request timed out. Please try again.',
 }
+
+// ErrorBoundary fallback (defaults; apps pass translated labels)
+export const MSG_ERROR_BOUNDARY_TITLE = 'Something went wrong.'
+export const MSG_ERROR_BOUNDARY_DESCRIPTION =
+  'An unexpected error occurred. If it keeps happening, contact support and quote the reference below.'
+export const MSG_ERROR_BOUNDARY_REQUEST_ID_LABEL = 'Reference'
+export const MSG_ERROR_BOUNDARY_COPY = 'Copy'
+export const MSG_ERROR_BOUNDARY_COPIED = 'Copied'
+export const MSG_ERROR_BOUNDARY_RETRY = 'Try again'
@@ -21,8 +21,36 @@ export {
   enableLogShipping,
   disableLogShipping,
   isLogShippingEnabled,
+  enablePersistentLogQueue,
 } from './utils/logger';
-export type { Logger, LogLevel, PatchConsoleOptions } from './utils/logger';
+export type {
+  Logger,
+  LogLevel,
+  PatchConsoleOptions,
+  PersistentLogQueueOptions,
+  LogShippingOptions,
+  LogShippingRetryOptions,
+} from './utils/logger';
+export type { LogSamplingOptions, LogRateLimitOptions } from './utils/log-sampling';
 
 export { createContextLogger } from './utils/context-logger';
 export type { ContextLogger } from './utils/context-logger';
+
+export { installGlobalErrorCapture } from './utils/global-error-capture';
+export type { GlobalErrorCaptureOptions } from './utils/global-error-capture';
+
+export {
+  configureLogRedaction,
+  redactLogContext,
+  redactString,
+  DEFAULT_REDACTED_KEYS,
+  DEFAULT_REDACTION_PATTERNS,
+} from './utils/log-redaction';
+export type { LogRedactionOptions, RedactionPattern } from './utils/log-redaction';
+
+export {
+  setServiceLogLevel,
+  setServiceLogLevels,
+  getServiceLogLevels,
+  parseLogLevelOverrides,
+} from './utils/log-level-overrides';
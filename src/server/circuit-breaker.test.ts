@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+
+import { createCircuitBreaker } from "./circuit-breaker";
+
+describe("createCircuitBreaker", () => {
+  it("opens after consecutive failures and fails fast until the reset timeout", () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000 });
+    breaker.recordFailure(0);
+    expect(breaker.getState(0)).toBe("closed");
+    breaker.recordFailure(0);
+    expect(breaker.getState(10)).toBe("open");
+    expect(breaker.tryAcquire(10)).toBe(false);
+    expect(breaker.retryAfterMs(400)).toBe(600);
+  });
+
+  it("lets one probe through when half-open; success closes, failure re-opens", () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 });
+    breaker.recordFailure(0);
+    expect(breaker.getState(1000)).toBe("half-open");
+    expect(breaker.tryAcquire(1000)).toBe(true);
+    expect(breaker.tryAcquire(1000)).toBe(false);
+    breaker.recordFailure(1000);
+    expect(breaker.getState(1500)).toBe("open");
+
+    expect(breaker.tryAcquire(2000)).toBe(true);
+    breaker.recordSuccess();
+    expect(breaker.getState(2000)).toBe("closed");
+  });
+
+  it("resets the failure count on success", () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 2 });
+    breaker.recordFailure(0);
+    breaker.recordSuccess();
+    breaker.recordFailure(0);
+    expect(breaker.getState(0)).toBe("closed");
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * In-memory circuit breaker for one upstream (closed → open → half-open).
+ *
+ * After `failureThreshold` consecutive failures the circuit opens and callers fail fast for
+ * `resetTimeoutMs`; then a single probe request is let through (half-open). A successful probe
+ * closes the circuit, a failed one re-opens it.
+ *
+ * State is closure-level (one instance per process), like ./rate-limiter. Edge-safe: no Node APIs.
+ */
+
+export type CircuitBreakerOptions = {
+  /** Consecutive failures that open the circuit. Default 5. */
+  failureThreshold?: number;
+  /** Time the circuit stays open before a probe is allowed. Default 30000. */
+  resetTimeoutMs?: number;
+};
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export type CircuitBreaker = {
+  /** True when a request may be sent now (claims the probe slot when half-open). */
+  tryAcquire(now?: number): boolean;
+  recordSuccess(): void;
+  recordFailure(now?: number): void;
+  /** Releases a claimed probe without counting a result (e.g. the caller aborted). */
+  release(): void;
+  getState(now?: number): CircuitState;
+  /** Milliseconds until a probe is allowed (0 unless open). */
+  retryAfterMs(now?: number): number;
+};
+
+export function createCircuitBreaker(options: CircuitBreakerOptions = {}): CircuitBreaker {
+  const failureThreshold = options.failureThreshold ?? 5;
+  const resetTimeoutMs = options.resetTimeoutMs ?? 30_000;
+  let failures = 0;
+  let openedAt: number | null = null;
+  let probeInFlight = false;
+
+  function getState(now = Date.now()): CircuitState {
+    if (openedAt === null) return "closed";
+    return now - openedAt >= resetTimeoutMs ? "half-open" : "open";
+  }
+
+  return {
+    tryAcquire(now = Date.now()) {
+      const state = getState(now);
+      if (state === "closed") return true;
+      if (state === "open" || probeInFlight) return false;
+      probeInFlight = true;
+      return true;
+    },
+    recordSuccess() {
+      failures = 0;
+      openedAt = null;
+      probeInFlight = false;
+    },
+    recordFailure(now = Date.now()) {
+      failures++;
+      if (probeInFlight || failures >= failureThreshold) {
+        openedAt = now;
+      }
+      probeInFlight = false;
+    },
+    release() {
+      probeInFlight = false;
+    },
+    getState,
+    retryAfterMs(now = Date.now()) {
+      return openedAt === null ? 0 : Math.max(0, openedAt + resetTimeoutMs - now);
+    },
+  };
+}
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 
 import { createClientLogsPostHandler } from "./client-logs-ingest";
+import { createMemorySink } from "./log-sinks";
 
 describe("createClientLogsPostHandler", () => {
   const POST = createClientLogsPostHandler({ service: "test-ui" });
@@ -118,6 +119,210 @@ describe("createClientLogsPostHandler", () => {
     expect(written).toContain('"browser_id":"b-2"');
   });
 
+  it("redacts sensitive keys and token/email patterns before writing", async () => {
+    const req = new Request("http://localhost/api/logs", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        browserId: "b-1",
+        logs: [
+          {
+            level: "info",
+            message: "login for jane@example.com",
+            context: { password: "hunter2", headers: { Authorization: "Bearer abc" } },
+          },
+        ],
+        url: "",
+      }),
+    });
+    await POST(req);
+    const written = String(writeSpy?.mock.calls[0]?.[0] ?? "");
+    expect(written).toContain('"message":"login for [REDACTED_EMAIL]"');
+    expect(written).toContain('"password":"[REDACTED]"');
+    expect(written).toContain('"Authorization":"[REDACTED]"');
+    expect(written).not.toContain("hunter2");
+  });
+
+  describe("abuse limits", () => {
+    function post(body: unknown, headers: Record<string, string> = {}) {
+      return new Request("http://localhost/api/logs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: typeof body === "string" ? body : JSON.stringify(body),
+      });
+    }
+
+    it("returns 413 payload_too_large when the body exceeds maxBodyBytes", async () => {
+      const handler = createClientLogsPostHandler({ service: "test-ui", maxBodyBytes: 100 });
+      const res = await handler(post({ logs: [{ level: "info", message: "x".repeat(200) }] }));
+      expect(res.status).toBe(413);
+      expect(await res.json()).toEqual({ success: false, error: "payload_too_large" });
+      expect(writeSpy).not.toHaveBeenCalled();
+    });
+
+    it("returns 413 too_many_entries when the batch exceeds maxEntries", async () => {
+      const handler = createClientLogsPostHandler({ service: "test-ui", maxEntries: 2 });
+      const logs = [1, 2, 3].map((i) => ({ level: "info", message: `m${i}` }));
+      const res = await handler(post({ logs }));
+      expect(res.status).toBe(413);
+      expect(await res.json()).toEqual({ success: false, error: "too_many_entries" });
+    });
+
+    it("returns 400 invalid_body for JSON that is not an object", async () => {
+      const res = await POST(post("[1,2]"));
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({ success: false, error: "invalid_body" });
+    });
+
+    it("skips entries whose level is not allowed and reports them", async () => {
+      const res = await POST(
+        post({ browserId: "b-1", logs: [{ level: "shout", message: "no" }, { level: "WARN", message: "yes" }] }),
+      );
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ success: true, rejected: [{ index: 0, reason: "level_not_allowed" }] });
+      const lines = (writeSpy?.mock.calls ?? []).map((c) => String(c[0]));
+      expect(lines).toHaveLength(1);
+      expect(lines[0]).toContain('"level":"warn"');
+    });
+
+    it("drops oversized or too-deep context but keeps the entry and its request_id", async () => {
+      const handler = createClientLogsPostHandler({ service: "test-ui", maxContextDepth: 2, maxContextBytes: 50 });
+      const res = await handler(
+        post({
+          logs: [
+            { level: "info", message: "deep", context: { requestId: "r-1", a: { b: { c: 1 } } } },
+            { level: "info", message: "big", context: { blob: "x".repeat(100) } },
+          ],
+        }),
+      );
+      expect(await res.json()).toEqual({
+        success: true,
+        rejected: [
+          { index: 0, reason: "context_too_deep" },
+          { index: 1, reason: "context_too_large" },
+        ],
+      });
+      const lines = (writeSpy?.mock.calls ?? []).map((c) => JSON.parse(String(c[0])));
+      expect(lines[0]).toMatchObject({ message: "deep", request_id: "r-1", context_dropped: "context_too_deep" });
+      expect(lines[0].a).toBeUndefined();
+      expect(lines[1]).toMatchObject({ message: "big", context_dropped: "context_too_large" });
+    });
+
+    it("returns 429 with Retry-After once a browser exceeds the rate limit", async () => {
+      const handler = createClientLogsPostHandler({ service: "test-ui", rateLimit: { maxRequests: 2, windowMs: 60_000 } });
+      const headers = { "X-Browser-ID": "noisy" };
+      expect((await handler(post({ logs: [] }, headers))).status).toBe(200);
+      expect((await handler(post({ logs: [] }, headers))).status).toBe(200);
+      const limited = await handler(post({ logs: [] }, headers));
+      expect(limited.status).toBe(429);
+      expect(limited.headers.get("Retry-After")).toBe("60");
+      expect(await limited.json()).toEqual({ success: false, error: "rate_limited" });
+      // Other browsers are unaffected
+      expect((await handler(post({ logs: [] }, { "X-Browser-ID": "quiet" }))).status).toBe(200);
+    });
+
+    it("keys the rate limit on the x-browser-id cookie when there is no header (sendBeacon)", async () => {
+      const handler = createClientLogsPostHandler({ service: "test-ui", rateLimit: { maxRequests: 1, windowMs: 60_000 } });
+      const cookie = { cookie: "x-browser-id=beacon-b" };
+      expect((await handler(post({ logs: [] }, cookie))).status).toBe(200);
+      expect((await handler(post({ logs: [] }, cookie))).status).toBe(429);
+    });
+
+    it("also limits per client IP, so rotating browser ids does not bypass the limit", async () => {
+      const handler = createClientLogsPostHandler({
+        service: "test-ui",
+        ipRateLimit: { maxRequests: 2, windowMs: 60_000 },
+      });
+      const from = (ip: string) => ({ "X-Browser-ID": crypto.randomUUID(), "x-forwarded-for": ip });
+      expect((await handler(post({ logs: [] }, from("203.0.113.1")))).status).toBe(200);
+      expect((await handler(post({ logs: [] }, from("203.0.113.1")))).status).toBe(200);
+      expect((await handler(post({ logs: [] }, from("203.0.113.1")))).status).toBe(429);
+      expect((await handler(post({ logs: [] }, from("203.0.113.2")))).status).toBe(200);
+    });
+
+    it("ignores forged x-forwarded-for entries in front of the proxy hop", async () => {
+      const handler = createClientLogsPostHandler({
+        service: "test-ui",
+        ipRateLimit: { maxRequests: 1, windowMs: 60_000 },
+      });
+      const forged = (spoofed: string) => ({
+        "X-Browser-ID": crypto.randomUUID(),
+        "x-forwarded-for": `${spoofed}, 203.0.113.1`,
+      });
+      expect((await handler(post({ logs: [] }, forged("198.51.100.1")))).status).toBe(200);
+      expect((await handler(post({ logs: [] }, forged("198.51.100.2")))).status).toBe(429);
+    });
+
+    it("keys the limits on getClientKey when supplied", async () => {
+      const getClientKey = vi.fn(() => "peer-1");
+      const handler = createClientLogsPostHandler({
+        service: "test-ui",
+        ipRateLimit: { maxRequests: 1, windowMs: 60_000 },
+        getClientKey,
+      });
+      expect((await handler(post({ logs: [] }, { "x-forwarded-for": "203.0.113.1" }))).status).toBe(200);
+      expect((await handler(post({ logs: [] }, { "x-forwarded-for": "203.0.113.2" }))).status).toBe(429);
+      expect(getClientKey).toHaveBeenCalledWith(expect.any(Request));
+    });
+  });
+
+  describe("sinks", () => {
+    function post(logs: unknown[]) {
+      return new Request("http://localhost/api/logs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ browserId: "b-1", logs, url: "http://localhost/" }),
+      });
+    }
+
+    it("hands the normalized batch to every configured sink instead of stdout", async () => {
+      const a = createMemorySink();
+      const b = createMemorySink();
+      const handler = createClientLogsPostHandler({ service: "test-ui", sinks: [a, b] });
+      await handler(post([{ level: "warn", message: "m", context: { requestId: "r-1", page: "home" } }]));
+      expect(a.entries()).toEqual([
+        expect.objectContaining({
+          level: "warn",
+          message: "m",
+          service: "test-ui",
+          browser_id: "b-1",
+          source: "browser",
+          request_id: "r-1",
+          page: "home",
+        }),
+      ]);
+      expect(b.entries()).toEqual(a.entries());
+      expect(writeSpy).not.toHaveBeenCalled();
+    });
+
+    it("isolates a failing sink from the others and from the response", async () => {
+      const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+      const memory = createMemorySink();
+      const failing = { name: "broken", write: () => Promise.reject(new Error("down")) };
+      const pending: Promise<unknown>[] = [];
+      const handler = createClientLogsPostHandler({
+        service: "test-ui",
+        sinks: [failing, memory],
+        waitUntil: (promise) => pending.push(promise),
+      });
+      const res = await handler(post([{ level: "info", message: "m" }]));
+      expect(res.status).toBe(200);
+      await Promise.all(pending);
+      expect(memory.entries()).toHaveLength(1);
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('"broken"'), "down");
+      errorSpy.mockRestore();
+    });
+
+    it("responds without waiting for a slow sink", async () => {
+      const slow = { name: "slow", write: () => new Promise<void>(() => {}) };
+      const waitUntil = vi.fn();
+      const handler = createClientLogsPostHandler({ service: "test-ui", sinks: [slow], waitUntil });
+      const res = await handler(post([{ level: "info", message: "m" }]));
+      expect(res.status).toBe(200);
+      expect(waitUntil).toHaveBeenCalledWith(expect.any(Promise));
+    });
+  });
+
   it("returns 400 when body is invalid JSON", async () => {
     const req = new Request("http://localhost/api/logs", {
       method: "POST",
@@ -1,23 +1,156 @@
 /**
  * Next.js App Router `POST` handler for browser log batches (`@exbrain/common-react` logger shipper).
- * Writes one NDJSON line per entry to stdout for `ob logs` / Promtail / Loki.
+ * Normalizes each entry into one line and hands the batch to the configured sinks
+ * (default: NDJSON to stdout for `ob logs` / Promtail / Loki — see ./log-sinks).
  *
  * Uses standard `Request` / `Response` only (no `next` imports) so consuming apps typecheck
  * against their own `next` dependency — avoids duplicate `NextRequest` types when common-react
  * has a nested `node_modules/next`.
  *
  * Import from `@exbrain/common-react/server/client-logs-ingest` (Node route handlers only).
+ *
+ * Abuse limits (all configurable): body size (413), entries per batch (413), level allowlist,
+ * context depth/size, and in-memory per-browser_id and per-IP rate limits (429 + Retry-After).
+ * Rejections carry a machine-readable `error` reason. Well-formed batches keep the original
+ * contract: 200 `{ success: true }`; unparseable JSON is still 400 `{ success: false }`.
  */
 
+import { redactLogContext, redactString } from "../utils/log-redaction";
+import { createStdoutSink, type ClientLogLine, type ClientLogSink } from "./log-sinks";
+import { createRateLimiter, getClientIp, type RateLimitOptions } from "./rate-limiter";
+
 export type ClientLogsIngestOptions = {
   /** Value for the `service` field in each NDJSON line (e.g. `hello-ui`, `exbrain-ui`). */
   service: string;
+  /** Maximum request body size in bytes (413 `payload_too_large`). Default 1 MiB. */
+  maxBodyBytes?: number;
+  /** Maximum entries per batch (413 `too_many_entries`). Default 500. */
+  maxEntries?: number;
+  /** Maximum nesting depth of an entry's `context`; deeper contexts are dropped. Default 8. */
+  maxContextDepth?: number;
+  /** Maximum serialized size of an entry's `context` in bytes; larger contexts are dropped. Default 16 KiB. */
+  maxContextBytes?: number;
+  /** Maximum message length; longer messages are truncated. Default 8192. */
+  maxMessageLength?: number;
+  /** Levels accepted; other entries are skipped (`level_not_allowed`). Default debug/info/warn/error. */
+  allowedLevels?: readonly string[];
+  /**
+   * Per-browser_id (falling back to client IP) request limit (429 `rate_limited`).
+   * Default 120 requests per minute; `false` disables it.
+   */
+  rateLimit?: RateLimitOptions | false;
+  /**
+   * Per-client-IP request limit (429 `rate_limited`), checked first. The browser id is chosen
+   * by the client, so a fresh id per request would otherwise bypass `rateLimit`. Generous
+   * because users behind one NAT share an IP. Default 600 requests per minute; `false` disables it.
+   */
+  ipRateLimit?: RateLimitOptions | false;
+  /**
+   * Client key for `ipRateLimit` and the `rateLimit` fallback. Default `getClientIp`, which is
+   * only safe behind a proxy that appends to (or overwrites) `x-forwarded-for`; supply your own
+   * (e.g. the platform's client address) otherwise.
+   */
+  getClientKey?: (request: Request) => string;
+  /**
+   * Destinations for accepted lines; each receives the whole batch. A failing sink is reported
+   * to stderr and does not affect the others or the response. Default `[createStdoutSink()]`.
+   * The response does not wait for sinks, so a slow network sink cannot hold the POST open
+   * (and trigger client retries that duplicate entries).
+   */
+  sinks?: readonly ClientLogSink[];
+  /**
+   * Receives the pending sink writes of each batch so the platform keeps the work alive after
+   * the response, e.g. `after` from `next/server` or a serverless `waitUntil`.
+   */
+  waitUntil?: (promise: Promise<unknown>) => void;
 };
 
-function writeNdjsonLine(obj: Record<string, unknown>): void {
-  if (typeof process !== "undefined" && process.stdout?.writable) {
-    process.stdout.write(JSON.stringify(obj) + "\n");
+/** Machine-readable reasons in rejection responses (`error`) and per-entry `rejected[].reason`. */
+export type ClientLogsRejectionReason =
+  | "payload_too_large"
+  | "too_many_entries"
+  | "invalid_body"
+  | "rate_limited"
+  | "level_not_allowed"
+  | "context_too_deep"
+  | "context_too_large";
+
+const DEFAULT_ALLOWED_LEVELS = ["debug", "info", "warn", "error"] as const;
+
+async function writeToSinks(sinks: readonly ClientLogSink[], lines: ClientLogLine[]): Promise<void> {
+  if (lines.length === 0) return;
+  await Promise.all(
+    sinks.map(async (sink) => {
+      try {
+        await sink.write(lines);
+      } catch (error) {
+        // Never log the lines themselves here — only which sink failed.
+        console.error(`[client-logs-ingest] sink "${sink.name}" failed:`, error instanceof Error ? error.message : error);
+      }
+    }),
+  );
+}
+
+function reject(status: number, error: ClientLogsRejectionReason, headers?: Record<string, string>): Response {
+  return Response.json({ success: false, error }, { status, headers });
+}
+
+/** Reads the body as text, giving up (null) as soon as it exceeds `maxBytes`. */
+export async function readBodyWithLimit(request: Request, maxBytes: number): Promise<string | null> {
+  const declared = Number(request.headers.get("content-length"));
+  if (Number.isFinite(declared) && declared > maxBytes) return null;
+  if (!request.body) return "";
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel().catch(() => {});
+      return null;
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+function parseCookieValue(cookieHeader: string, name: string): string {
+  for (const part of cookieHeader.split(";")) {
+    const trimmed = part.trim();
+    const eq = trimmed.indexOf("=");
+    if (eq >= 0 && trimmed.slice(0, eq).trim() === name) return trimmed.slice(eq + 1).trim();
+  }
+  return "";
+}
+
+/**
+ * Rate-limit key: X-Browser-ID header, else the x-browser-id cookie (sendBeacon sends cookies
+ * but cannot set headers), else the client key. Held in memory only — never written to logs.
+ */
+function rateLimitKey(request: Request, clientKey: string): string {
+  const browserId =
+    request.headers.get("X-Browser-ID")?.trim() ||
+    parseCookieValue(request.headers.get("cookie") ?? "", "x-browser-id");
+  if (browserId) return `bid:${browserId}`;
+  return `ip:${clientKey}`;
+}
+
+function contextDepth(value: unknown, depth = 0): number {
+  if (value === null || typeof value !== "object" || depth > 64) return depth;
+  let max = depth + 1;
+  for (const child of Object.values(value as Record<string, unknown>)) {
+    max = Math.max(max, contextDepth(child, depth + 1));
   }
+  return max;
 }
 
 /**
@@ -27,10 +160,46 @@ function writeNdjsonLine(obj: Record<string, unknown>): void {
  */
 export function createClientLogsPostHandler(options: ClientLogsIngestOptions) {
   const { service } = options;
+  const maxBodyBytes = options.maxBodyBytes ?? 1024 * 1024;
+  const maxEntries = options.maxEntries ?? 500;
+  const maxContextDepth = options.maxContextDepth ?? 8;
+  const maxContextBytes = options.maxContextBytes ?? 16 * 1024;
+  const maxMessageLength = options.maxMessageLength ?? 8192;
+  const allowedLevels = new Set(options.allowedLevels ?? DEFAULT_ALLOWED_LEVELS);
+  const limiter =
+    options.rateLimit === false
+      ? null
+      : createRateLimiter(options.rateLimit ?? { maxRequests: 120, windowMs: 60_000 });
+  const ipLimiter =
+    options.ipRateLimit === false
+      ? null
+      : createRateLimiter(options.ipRateLimit ?? { maxRequests: 600, windowMs: 60_000 });
+  const getClientKey = options.getClientKey ?? getClientIp;
+  const sinks = options.sinks ?? [createStdoutSink()];
 
   return async function POST(request: Request): Promise<Response> {
+    const clientKey = getClientKey(request);
+    const ipLimit = ipLimiter?.check(clientKey);
+    const limit = ipLimit && !ipLimit.allowed ? ipLimit : limiter?.check(rateLimitKey(request, clientKey));
+    if (limit && !limit.allowed) {
+      return reject(429, "rate_limited", { "Retry-After": String(limit.retryAfterSeconds) });
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      const text = await readBodyWithLimit(request, maxBodyBytes);
+      if (text === null) {
+        return reject(413, "payload_too_large");
+      }
+      body = JSON.parse(text);
+    } catch {
+      return Response.json({ success: false }, { status: 400 });
+    }
+    if (body === null || typeof body !== "object" || Array.isArray(body)) {
+      return reject(400, "invalid_body");
+    }
+
     try {
-      const body = await request.json();
       const browserId =
         (body.browserId as string)?.trim() ||
         request.headers.get("X-Browser-ID")?.trim() ||
@@ -41,24 +210,52 @@ export function createClientLogsPostHandler(options: ClientLogsIngestOptions) {
         (body.batchRequestId as string)?.trim() ||
         request.headers.get("X-Request-ID")?.trim() ||
         "";
-      const logs = Array.isArray(body.logs) ? body.logs : [];
+      const logs: unknown[] = Array.isArray(body.logs) ? body.logs : [];
+      if (logs.length > maxEntries) {
+        return reject(413, "too_many_entries");
+      }
       const url = typeof body.url === "string" ? body.url : "";
       // PII (golden §7): do NOT persist user_agent or client_ip (from x-forwarded-for /
       // x-real-ip). Correlation is via browser_id / request_id only.
 
-      for (const entry of logs) {
-        const level = (entry?.level as string) || "info";
-        const message = typeof entry?.message === "string" ? entry.message : "—";
+      const rejected: Array<{ index: number; reason: ClientLogsRejectionReason }> = [];
+      const lines: ClientLogLine[] = [];
+      logs.forEach((raw, index) => {
+        const entry = raw as Record<string, unknown> | null | undefined;
+        const level = typeof entry?.level === "string" && entry.level ? entry.level.toLowerCase() : "info";
+        if (!allowedLevels.has(level)) {
+          rejected.push({ index, reason: "level_not_allowed" });
+          return;
+        }
+        // PII (golden §7): re-apply the shared redaction rules — batches from older clients
+        // (or tampered ones) may carry unredacted context.
+        const message =
+          typeof entry?.message === "string" ? redactString(entry.message.slice(0, maxMessageLength)) : "—";
         const timestamp = typeof entry?.timestamp === "string" ? entry.timestamp : new Date().toISOString();
-        const context =
+        let context =
           typeof entry?.context === "object" && entry.context !== null
             ? (entry.context as Record<string, unknown>)
             : {};
+        let contextDropped: ClientLogsRejectionReason | null = null;
+        if (contextDepth(context) > maxContextDepth) {
+          contextDropped = "context_too_deep";
+        } else if (JSON.stringify(context).length > maxContextBytes) {
+          contextDropped = "context_too_large";
+        }
+        if (contextDropped) {
+          rejected.push({ index, reason: contextDropped });
+          // Keep correlation IDs; drop the rest of the oversized context.
+          const { requestId, request_id } = context;
+          context = { requestId, request_id, context_dropped: contextDropped };
+        }
         // Per-entry request_id: prefer entry's own context.requestId, fall back to batch transport X-Request-ID.
-        const entryRequestId = (context.requestId as string)?.trim() || (context.request_id as string)?.trim() || batchRequestId;
+        const entryRequestId =
+          (typeof context.requestId === "string" && context.requestId.trim()) ||
+          (typeof context.request_id === "string" && context.request_id.trim()) ||
+          batchRequestId;
         // Remove correlation IDs from context spread to avoid duplication
         const { requestId: _r, request_id: _r2, browserId: _b, ...restContext } = context;
-        const line: Record<string, unknown> = {
+        const line: ClientLogLine = {
           level,
           message,
           timestamp,
@@ -66,15 +263,18 @@ export function createClientLogsPostHandler(options: ClientLogsIngestOptions) {
           browser_id: browserId,
           source: "browser",
           url,
-          ...restContext,
+          ...redactLogContext(restContext),
         };
         if (entryRequestId) {
           line.request_id = entryRequestId;
         }
-        writeNdjsonLine(line);
-      }
+        lines.push(line);
+      });
+      // Acknowledge without waiting; synchronous sinks (stdout) have already written by now.
+      const written = writeToSinks(sinks, lines);
+      options.waitUntil?.(written);
 
-      return Response.json({ success: true }, { status: 200 });
+      return Response.json(rejected.length > 0 ? { success: true, rejected } : { success: true }, { status: 200 });
     } catch {
       return Response.json({ success: false }, { status: 400 });
     }
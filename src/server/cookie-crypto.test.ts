@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  decryptCookieValue,
+  encryptCookieValue,
+  signCookieValue,
+  verifySignedCookieValue,
+} from "./cookie-crypto";
+
+const SECRET = "a".repeat(32);
+const NEW_SECRET = "b".repeat(32);
+
+function tamper(value: string): string {
+  const last = value.at(-2) === "A" ? "B" : "A";
+  return `${value.slice(0, -2)}${last}${value.at(-1)}`;
+}
+
+describe("signed cookie values", () => {
+  it("round-trips and keeps the payload readable", async () => {
+    const signed = await signCookieValue("return_to", "/dashboard", SECRET);
+    expect(signed).toMatch(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+    await expect(verifySignedCookieValue("return_to", signed, SECRET)).resolves.toEqual({
+      ok: true,
+      value: "/dashboard",
+    });
+  });
+
+  it("rejects a changed payload or signature", async () => {
+    const signed = await signCookieValue("tenant", "t-1", SECRET);
+    const [payload, signature] = signed.split(".");
+    const forgedPayload = btoa(JSON.stringify({ v: "t-2" })).replace(/=+$/, "");
+    await expect(verifySignedCookieValue("tenant", `${forgedPayload}.${signature}`, SECRET)).resolves.toEqual({
+      ok: false,
+      reason: "invalid_signature",
+    });
+    await expect(verifySignedCookieValue("tenant", `${payload}.${tamper(signature)}`, SECRET)).resolves.toEqual({
+      ok: false,
+      reason: "invalid_signature",
+    });
+  });
+
+  it("binds the value to the cookie name", async () => {
+    const signed = await signCookieValue("tenant", "t-1", SECRET);
+    await expect(verifySignedCookieValue("other", signed, SECRET)).resolves.toMatchObject({ ok: false });
+  });
+
+  it("rejects malformed values", async () => {
+    await expect(verifySignedCookieValue("x", "no-signature", SECRET)).resolves.toEqual({
+      ok: false,
+      reason: "malformed",
+    });
+    await expect(verifySignedCookieValue("x", "a.b.c", SECRET)).resolves.toEqual({ ok: false, reason: "malformed" });
+  });
+
+  it("enforces maxAge from the payload", async () => {
+    const now = Date.now();
+    const signed = await signCookieValue("x", "v", SECRET, { maxAge: 60, now });
+    await expect(verifySignedCookieValue("x", signed, SECRET, now + 59_000)).resolves.toEqual({ ok: true, value: "v" });
+    await expect(verifySignedCookieValue("x", signed, SECRET, now + 60_000)).resolves.toEqual({
+      ok: false,
+      reason: "expired",
+    });
+  });
+
+  it("verifies with any secret in the list (key rotation)", async () => {
+    const old = await signCookieValue("x", "v", SECRET);
+    await expect(verifySignedCookieValue("x", old, [NEW_SECRET, SECRET])).resolves.toEqual({ ok: true, value: "v" });
+    const fresh = await signCookieValue("x", "v", [NEW_SECRET, SECRET]);
+    await expect(verifySignedCookieValue("x", fresh, SECRET)).resolves.toMatchObject({ ok: false });
+    await expect(verifySignedCookieValue("x", fresh, NEW_SECRET)).resolves.toEqual({ ok: true, value: "v" });
+  });
+
+  it("requires secrets of at least 32 characters", async () => {
+    await expect(signCookieValue("x", "v", "short")).rejects.toThrow(/at least 32/);
+    await expect(signCookieValue("x", "v", [])).rejects.toThrow(/at least one secret/);
+  });
+});
+
+describe("encrypted cookie values", () => {
+  it("round-trips without exposing the plaintext", async () => {
+    const sealed = await encryptCookieValue("csrf_state", "secret-state", SECRET);
+    expect(sealed).not.toContain("secret-state");
+    expect(atob(sealed.replace(/-/g, "+").replace(/_/g, "/"))).not.toContain("secret-state");
+    await expect(decryptCookieValue("csrf_state", sealed, SECRET)).resolves.toEqual({
+      ok: true,
+      value: "secret-state",
+    });
+  });
+
+  it("uses a fresh IV per value", async () => {
+    const a = await encryptCookieValue("x", "same", SECRET);
+    const b = await encryptCookieValue("x", "same", SECRET);
+    expect(a).not.toBe(b);
+  });
+
+  it("rejects tampered ciphertext, another cookie name and unknown keys", async () => {
+    const sealed = await encryptCookieValue("x", "v", SECRET);
+    await expect(decryptCookieValue("x", tamper(sealed), SECRET)).resolves.toEqual({
+      ok: false,
+      reason: "decrypt_failed",
+    });
+    await expect(decryptCookieValue("y", sealed, SECRET)).resolves.toEqual({ ok: false, reason: "decrypt_failed" });
+    await expect(decryptCookieValue("x", sealed, NEW_SECRET)).resolves.toEqual({ ok: false, reason: "decrypt_failed" });
+    await expect(decryptCookieValue("x", "!!", SECRET)).resolves.toEqual({ ok: false, reason: "malformed" });
+  });
+
+  it("decrypts with a rotated-out secret and enforces expiry", async () => {
+    const now = Date.now();
+    const sealed = await encryptCookieValue("x", "v", SECRET, { maxAge: 1, now });
+    await expect(decryptCookieValue("x", sealed, [NEW_SECRET, SECRET], now)).resolves.toEqual({ ok: true, value: "v" });
+    await expect(decryptCookieValue("x", sealed, [NEW_SECRET, SECRET], now + 1000)).resolves.toEqual({
+      ok: false,
+      reason: "expired",
+    });
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Signed (HMAC-SHA256) and encrypted (AES-256-GCM) cookie values via Web Crypto.
+ *
+ * Used by setSignedCookie / setEncryptedCookie in ./cookies; importable on its own from
+ * middleware because it has no `next/headers` or Node-only imports (Edge-safe).
+ *
+ * - Key rotation: pass a list of secrets; the first one signs / encrypts, every one is tried
+ *   when verifying / decrypting. Append the old secret after a new one, drop it once every
+ *   cookie it sealed has expired.
+ * - Expiry: `maxAge` is stored inside the payload, so an expired value is rejected even when the
+ *   browser (or an attacker) keeps sending it.
+ * - The cookie name is bound into the signature / associated data: a value sealed for one cookie
+ *   is rejected under another name.
+ *
+ * Secrets must be at least 32 characters; per-purpose keys are derived with HKDF-SHA256.
+ */
+
+export type CookieSecrets = string | readonly string[]
+
+/** Why a cookie value was rejected (logged; never the value itself). */
+export type CookieRejectReason = 'malformed' | 'invalid_signature' | 'decrypt_failed' | 'expired'
+
+export type OpenCookieResult = { ok: true; value: string } | { ok: false; reason: CookieRejectReason }
+
+export type SealCookieOptions = {
+  /** Lifetime in seconds, enforced on read from the payload. */
+  maxAge?: number
+  /** Clock override (epoch ms), for testing. */
+  now?: number
+}
+
+type Purpose = 'sign' | 'encrypt'
+
+const MIN_SECRET_LENGTH = 32
+const IV_BYTES = 12
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+const keyCache = new Map<string, Promise<CryptoKey>>()
+
+function toSecretList(secrets: CookieSecrets): readonly string[] {
+  const list = typeof secrets === 'string' ? [secrets] : secrets
+  if (list.length === 0) {
+    throw new Error('Cookie secrets: at least one secret is required')
+  }
+  if (list.some((secret) => secret.length < MIN_SECRET_LENGTH)) {
+    throw new Error(`Cookie secrets must be at least ${MIN_SECRET_LENGTH} characters`)
+  }
+  return list
+}
+
+function deriveKey(secret: string, purpose: Purpose): Promise<CryptoKey> {
+  const cacheKey = `${purpose}:${secret}`
+  let key = keyCache.get(cacheKey)
+  if (!key) {
+    key = crypto.subtle
+      .importKey('raw', encoder.encode(secret), 'HKDF', false, ['deriveKey'])
+      .then((material) =>
+        crypto.subtle.deriveKey(
+          { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: encoder.encode(`cookie-${purpose}`) },
+          material,
+          purpose === 'sign' ? { name: 'HMAC', hash: 'SHA-256', length: 256 } : { name: 'AES-GCM', length: 256 },
+          false,
+          purpose === 'sign' ? ['sign', 'verify'] : ['encrypt', 'decrypt'],
+        ),
+      )
+    keyCache.set(cacheKey, key)
+  }
+  return key
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> | null {
+  if (!/^[A-Za-z0-9_-]*$/.test(value)) return null
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+    const bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+    return bytes
+  } catch {
+    return null
+  }
+}
+
+function encodePayload(value: string, options: SealCookieOptions): Uint8Array {
+  const now = options.now ?? Date.now()
+  const payload: { v: string; exp?: number } = { v: value }
+  if (options.maxAge !== undefined) payload.exp = now + options.maxAge * 1000
+  return encoder.encode(JSON.stringify(payload))
+}
+
+function decodePayload(bytes: Uint8Array, now: number): OpenCookieResult {
+  let payload: unknown
+  try {
+    payload = JSON.parse(decoder.decode(bytes))
+  } catch {
+    return { ok: false, reason: 'malformed' }
+  }
+  const { v, exp } = (payload ?? {}) as { v?: unknown; exp?: unknown }
+  if (typeof v !== 'string' || (exp !== undefined && typeof exp !== 'number')) {
+    return { ok: false, reason: 'malformed' }
+  }
+  if (typeof exp === 'number' && exp <= now) return { ok: false, reason: 'expired' }
+  return { ok: true, value: v }
+}
+
+/** `<payload>.<signature>` (base64url); the payload is readable, not secret. */
+export async function signCookieValue(
+  name: string,
+  value: string,
+  secrets: CookieSecrets,
+  options: SealCookieOptions = {},
+): Promise<string> {
+  const [secret] = toSecretList(secrets)
+  const payload = toBase64Url(encodePayload(value, options))
+  const key = await deriveKey(secret, 'sign')
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${name}.${payload}`))
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+export async function verifySignedCookieValue(
+  name: string,
+  signed: string,
+  secrets: CookieSecrets,
+  now: number = Date.now(),
+): Promise<OpenCookieResult> {
+  const list = toSecretList(secrets)
+  const [payload, signatureText, extra] = signed.split('.')
+  const signature = signatureText === undefined ? null : fromBase64Url(signatureText)
+  const payloadBytes = fromBase64Url(payload)
+  if (extra !== undefined || !signature || !payloadBytes) return { ok: false, reason: 'malformed' }
+
+  const data = encoder.encode(`${name}.${payload}`)
+  for (const secret of list) {
+    const key = await deriveKey(secret, 'sign')
+    if (await crypto.subtle.verify('HMAC', key, signature, data)) {
+      return decodePayload(payloadBytes, now)
+    }
+  }
+  return { ok: false, reason: 'invalid_signature' }
+}
+
+/** base64url(`iv || ciphertext`); the cookie name is the AES-GCM associated data. */
+export async function encryptCookieValue(
+  name: string,
+  value: string,
+  secrets: CookieSecrets,
+  options: SealCookieOptions = {},
+): Promise<string> {
+  const [secret] = toSecretList(secrets)
+  const key = await deriveKey(secret, 'encrypt')
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(name) },
+    key,
+    encodePayload(value, options) as Uint8Array<ArrayBuffer>,
+  )
+  const sealed = new Uint8Array(IV_BYTES + ciphertext.byteLength)
+  sealed.set(iv)
+  sealed.set(new Uint8Array(ciphertext), IV_BYTES)
+  return toBase64Url(sealed)
+}
+
+export async function decryptCookieValue(
+  name: string,
+  sealed: string,
+  secrets: CookieSecrets,
+  now: number = Date.now(),
+): Promise<OpenCookieResult> {
+  const list = toSecretList(secrets)
+  const bytes = fromBase64Url(sealed)
+  if (!bytes || bytes.length <= IV_BYTES) return { ok: false, reason: 'malformed' }
+
+  const iv = bytes.slice(0, IV_BYTES)
+  const ciphertext = bytes.slice(IV_BYTES)
+  for (const secret of list) {
+    const key = await deriveKey(secret, 'encrypt')
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv, additionalData: encoder.encode(name) },
+        key,
+        ciphertext,
+      )
+      return decodePayload(new Uint8Array(plaintext), now)
+    } catch {
+      // Wrong key or tampered ciphertext: try the next secret.
+    }
+  }
+  return { ok: false, reason: 'decrypt_failed' }
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const jar = new Map<string, string>();
+const cookieStore = {
+  get: (name: string) => (jar.has(name) ? { name, value: jar.get(name) as string } : undefined),
+  getAll: () => [...jar].map(([name, value]) => ({ name, value })),
+  has: (name: string) => jar.has(name),
+  set: vi.fn((name: string, value: string) => {
+    jar.set(name, value);
+  }),
+  delete: vi.fn((name: string) => {
+    jar.delete(name);
+  }),
+};
+
+vi.mock("next/headers", () => ({ cookies: async () => cookieStore }));
+
+const warn = vi.fn();
+// Apply the logger's real redaction, so a redacted field shows up here as in production.
+vi.mock("../utils/logger", async () => {
+  const { redactLogContext } = await import("../utils/log-redaction");
+  return {
+    default: {
+      warn: (message: string, context: Record<string, unknown>) => warn(message, redactLogContext(context)),
+    },
+  };
+});
+
+import {
+  deleteCookie,
+  getEncryptedCookie,
+  getSignedCookie,
+  MAX_COOKIE_CHUNK_SIZE,
+  setEncryptedCookie,
+  setSignedCookie,
+} from "./cookies";
+
+const SECRET = "s".repeat(32);
+
+describe("signed and encrypted cookies", () => {
+  beforeEach(() => {
+    jar.clear();
+    cookieStore.set.mockClear();
+    cookieStore.delete.mockClear();
+    warn.mockReset();
+  });
+
+  it("sets and reads a signed cookie with the default options", async () => {
+    await setSignedCookie("last_tenant", "t-1", { secrets: SECRET, maxAge: 3600 });
+    expect(cookieStore.set).toHaveBeenCalledWith(
+      "last_tenant",
+      expect.stringMatching(/\./),
+      expect.objectContaining({ httpOnly: true, sameSite: "lax", path: "/", maxAge: 3600 }),
+    );
+    await expect(getSignedCookie("last_tenant", SECRET)).resolves.toBe("t-1");
+  });
+
+  it("returns null without logging when the cookie is missing", async () => {
+    await expect(getSignedCookie("missing", SECRET)).resolves.toBeNull();
+    await expect(getEncryptedCookie("missing", SECRET)).resolves.toBeNull();
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it("returns null and logs (without the value) when a signed cookie is tampered with", async () => {
+    jar.set("last_tenant", "eyJ2IjoidC0yIn0.forged");
+    await expect(getSignedCookie("last_tenant", SECRET)).resolves.toBeNull();
+    expect(warn).toHaveBeenCalledWith("Rejected cookie", {
+      cookie_name: "last_tenant",
+      cookie_kind: "signed",
+      reason: "invalid_signature",
+    });
+    expect(JSON.stringify(warn.mock.calls)).not.toContain("eyJ2IjoidC0yIn0");
+  });
+
+  it("round-trips encrypted cookies and rejects them under a different key", async () => {
+    await setEncryptedCookie("return_to", "/settings?tab=profile", { secrets: SECRET });
+    expect(jar.get("return_to")).not.toContain("settings");
+    await expect(getEncryptedCookie("return_to", SECRET)).resolves.toBe("/settings?tab=profile");
+
+    await expect(getEncryptedCookie("return_to", "x".repeat(32))).resolves.toBeNull();
+    expect(warn).toHaveBeenCalledWith(
+      "Rejected cookie",
+      expect.objectContaining({ cookie_name: "return_to", cookie_kind: "encrypted", reason: "decrypt_failed" }),
+    );
+  });
+
+  it("splits large values into chunks and joins them on read", async () => {
+    const large = "x".repeat(MAX_COOKIE_CHUNK_SIZE * 2);
+    await setEncryptedCookie("state", large, { secrets: SECRET });
+    expect(jar.has("state")).toBe(false);
+    expect([...jar.keys()].sort()).toEqual(["state.0", "state.1", "state.2"]);
+    for (const value of jar.values()) expect(value.length).toBeLessThanOrEqual(MAX_COOKIE_CHUNK_SIZE);
+    await expect(getEncryptedCookie("state", SECRET)).resolves.toBe(large);
+
+    // Shrinking back to one cookie removes the stale chunks.
+    await setEncryptedCookie("state", "small", { secrets: SECRET });
+    expect([...jar.keys()]).toEqual(["state"]);
+    await expect(getEncryptedCookie("state", SECRET)).resolves.toBe("small");
+  });
+
+  it("removes chunks beyond the new count and on delete", async () => {
+    await setSignedCookie("big", "y".repeat(MAX_COOKIE_CHUNK_SIZE * 3), { secrets: SECRET });
+    expect(jar.size).toBeGreaterThan(2);
+    await setSignedCookie("big", "y".repeat(MAX_COOKIE_CHUNK_SIZE + 10), { secrets: SECRET });
+    expect([...jar.keys()].sort()).toEqual(["big.0", "big.1"]);
+    await expect(getSignedCookie("big", SECRET)).resolves.toBe("y".repeat(MAX_COOKIE_CHUNK_SIZE + 10));
+
+    await deleteCookie("big");
+    expect(jar.size).toBe(0);
+  });
+});
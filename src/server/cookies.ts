@@ -1,8 +1,24 @@
 import { cookies } from 'next/headers'
+import logger from '../utils/logger'
+import {
+  decryptCookieValue,
+  encryptCookieValue,
+  signCookieValue,
+  verifySignedCookieValue,
+  type CookieSecrets,
+  type OpenCookieResult,
+} from './cookie-crypto'
 
 /**
  * Cookie helper utilities.
  * Server-only - must not be imported in client components.
+ *
+ * Signed / encrypted cookies (small BFF state: return URLs, CSRF state, last tenant):
+ *   await setEncryptedCookie('return_to', url, { secrets: [SECRET, OLD_SECRET], maxAge: 600 })
+ *   const url = await getEncryptedCookie('return_to', [SECRET, OLD_SECRET]) // null if tampered / expired
+ *
+ * Values longer than MAX_COOKIE_CHUNK_SIZE are split into `<name>.0`, `<name>.1`, … and joined
+ * again on read. See ./cookie-crypto for the formats and key rotation.
  * 
  * @requires next/headers - Next.js 13+ App Router
  */
@@ -16,6 +32,14 @@ export interface CookieOptions {
   domain?: string
 }
 
+export interface SecureCookieOptions extends CookieOptions {
+  /** Secret, or secrets newest first: the first seals, all are tried on read (key rotation). */
+  secrets: CookieSecrets
+}
+
+/** Longest value stored in a single cookie; larger values are split into chunks. */
+export const MAX_COOKIE_CHUNK_SIZE = 3800
+
 const DEFAULT_OPTIONS: CookieOptions = {
   httpOnly: true,
   secure: process.env.NODE_ENV === 'production',
@@ -23,6 +47,59 @@ const DEFAULT_OPTIONS: CookieOptions = {
   path: '/',
 }
 
+type CookieStore = Awaited<ReturnType<typeof cookies>>
+
+/** Names of the `<name>.<n>` chunk cookies currently sent with the request. */
+function chunkCookieNames(cookieStore: CookieStore, name: string): string[] {
+  const prefix = `${name}.`
+  return cookieStore
+    .getAll()
+    .map((cookie) => cookie.name)
+    .filter((cookieName) => cookieName.startsWith(prefix) && /^\d+$/.test(cookieName.slice(prefix.length)))
+}
+
+async function setChunkedCookie(name: string, value: string, options: CookieOptions): Promise<void> {
+  const cookieStore = await cookies()
+  const stale = chunkCookieNames(cookieStore, name)
+  const cookieOptions = { ...DEFAULT_OPTIONS, ...options }
+
+  if (value.length <= MAX_COOKIE_CHUNK_SIZE) {
+    cookieStore.set(name, value, cookieOptions)
+    stale.forEach((chunkName) => cookieStore.delete(chunkName))
+    return
+  }
+
+  const count = Math.ceil(value.length / MAX_COOKIE_CHUNK_SIZE)
+  for (let i = 0; i < count; i++) {
+    const chunk = value.slice(i * MAX_COOKIE_CHUNK_SIZE, (i + 1) * MAX_COOKIE_CHUNK_SIZE)
+    cookieStore.set(`${name}.${i}`, chunk, cookieOptions)
+  }
+  if (cookieStore.has(name)) cookieStore.delete(name)
+  stale
+    .filter((chunkName) => Number(chunkName.slice(name.length + 1)) >= count)
+    .forEach((chunkName) => cookieStore.delete(chunkName))
+}
+
+async function getChunkedCookie(name: string): Promise<string | null> {
+  const cookieStore = await cookies()
+  const single = cookieStore.get(name)?.value
+  if (single) return single
+  let value = ''
+  for (let i = 0; ; i++) {
+    const chunk = cookieStore.get(`${name}.${i}`)?.value
+    if (chunk === undefined) break
+    value += chunk
+  }
+  return value || null
+}
+
+function acceptOpened(name: string, kind: 'signed' | 'encrypted', result: OpenCookieResult): string | null {
+  if (result.ok) return result.value
+  // Never log the value: it may be attacker-controlled or hold the sealed state.
+  logger.warn('Rejected cookie', { cookie_name: name, cookie_kind: kind, reason: result.reason })
+  return null
+}
+
 /**
  * Set a cookie value.
  */
@@ -47,13 +124,14 @@ export async function getCookie(name: string): Promise<string | null> {
 }
 
 /**
- * Delete a cookie.
+ * Delete a cookie (and its `<name>.<n>` chunks, if it was split).
  * Note: Next.js cookies().delete() only accepts the cookie name.
  * The path/samesite/secure settings are determined by how the cookie was originally set.
  */
 export async function deleteCookie(name: string): Promise<void> {
   const cookieStore = await cookies()
   cookieStore.delete(name)
+  chunkCookieNames(cookieStore, name).forEach((chunkName) => cookieStore.delete(chunkName))
 }
 
 /**
@@ -69,3 +147,43 @@ export async function getCookies(names: string[]): Promise<Record<string, string
   
   return result
 }
+
+/**
+ * Set an HMAC-signed cookie. The value stays readable but cannot be changed without the secret.
+ * `maxAge` is also enforced from inside the payload.
+ */
+export async function setSignedCookie(name: string, value: string, options: SecureCookieOptions): Promise<void> {
+  const { secrets, ...cookieOptions } = options
+  const signed = await signCookieValue(name, value, secrets, { maxAge: cookieOptions.maxAge })
+  await setChunkedCookie(name, signed, cookieOptions)
+}
+
+/**
+ * Get a signed cookie's value. Returns null when missing; tampered, malformed or expired
+ * values are logged and also return null.
+ */
+export async function getSignedCookie(name: string, secrets: CookieSecrets): Promise<string | null> {
+  const signed = await getChunkedCookie(name)
+  if (signed === null) return null
+  return acceptOpened(name, 'signed', await verifySignedCookieValue(name, signed, secrets))
+}
+
+/**
+ * Set an AES-GCM encrypted cookie: confidential and tamper-proof.
+ * `maxAge` is also enforced from inside the payload.
+ */
+export async function setEncryptedCookie(name: string, value: string, options: SecureCookieOptions): Promise<void> {
+  const { secrets, ...cookieOptions } = options
+  const sealed = await encryptCookieValue(name, value, secrets, { maxAge: cookieOptions.maxAge })
+  await setChunkedCookie(name, sealed, cookieOptions)
+}
+
+/**
+ * Get an encrypted cookie's value. Returns null when missing; values that fail to decrypt
+ * (tampered, wrong key) or are expired are logged and also return null.
+ */
+export async function getEncryptedCookie(name: string, secrets: CookieSecrets): Promise<string | null> {
+  const sealed = await getChunkedCookie(name)
+  if (sealed === null) return null
+  return acceptOpened(name, 'encrypted', await decryptCookieValue(name, sealed, secrets))
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from "vitest";
+
+import { createCspReportHandler } from "./csp-report";
+
+function post(body: string, contentType = "application/csp-report", ip = "203.0.113.1"): Request {
+  return new Request("http://app.example/api/csp-report", {
+    method: "POST",
+    headers: { "content-type": contentType, "user-agent": "test-agent", "x-forwarded-for": ip },
+    body,
+  });
+}
+
+describe("createCspReportHandler", () => {
+  it("logs a legacy csp-report payload without query strings", async () => {
+    const logger = { warn: vi.fn() };
+    const POST = createCspReportHandler({ logger });
+    const res = await POST(
+      post(
+        JSON.stringify({
+          "csp-report": {
+            "document-uri": "https://app.example/settings?token=secret#x",
+            "blocked-uri": "https://evil.example/x.js?id=1",
+            "violated-directive": "script-src-elem",
+            "effective-directive": "script-src-elem",
+            "original-policy": "default-src 'self'",
+            disposition: "enforce",
+            "line-number": 12,
+            "script-sample": "a".repeat(300),
+          },
+        }),
+      ),
+    );
+    expect(res.status).toBe(204);
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    const [message, fields] = logger.warn.mock.calls[0];
+    expect(message).toBe("CSP violation");
+    expect(fields).toEqual({
+      event: "csp_violation",
+      document_uri: "https://app.example/settings",
+      blocked_uri: "https://evil.example/x.js",
+      violated_directive: "script-src-elem",
+      effective_directive: "script-src-elem",
+      disposition: "enforce",
+      line_number: 12,
+      sample: "a".repeat(100),
+    });
+  });
+
+  it("logs Reporting API csp-violation entries and ignores other report types", async () => {
+    const logger = { warn: vi.fn() };
+    const POST = createCspReportHandler({ logger });
+    const res = await POST(
+      post(
+        JSON.stringify([
+          {
+            type: "csp-violation",
+            body: { documentURL: "https://app.example/", blockedURL: "inline", effectiveDirective: "style-src-attr", disposition: "report" },
+          },
+          { type: "deprecation", body: { id: "x" } },
+        ]),
+        "application/reports+json",
+      ),
+    );
+    expect(res.status).toBe(204);
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(logger.warn.mock.calls[0][1]).toMatchObject({
+      document_uri: "https://app.example/",
+      blocked_uri: "inline",
+      effective_directive: "style-src-attr",
+      disposition: "report",
+    });
+  });
+
+  it("caps the number of reports logged per request", async () => {
+    const logger = { warn: vi.fn() };
+    const POST = createCspReportHandler({ logger, maxReportsPerRequest: 2 });
+    const entries = Array.from({ length: 5 }, () => ({ type: "csp-violation", body: { blockedURL: "eval" } }));
+    await POST(post(JSON.stringify(entries), "application/reports+json"));
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+  });
+
+  it("rejects invalid and oversized bodies", async () => {
+    const logger = { warn: vi.fn() };
+    const POST = createCspReportHandler({ logger, maxBodyBytes: 64 });
+    const invalid = await POST(post("not json"));
+    expect(invalid.status).toBe(400);
+    await expect(invalid.json()).resolves.toEqual({ success: false, error: "invalid_body" });
+
+    expect((await POST(post(JSON.stringify({ other: 1 })))).status).toBe(400);
+    expect((await POST(post(JSON.stringify({ "csp-report": { "blocked-uri": "x".repeat(100) } })))).status).toBe(413);
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+
+  it("rate limits per client IP", async () => {
+    const logger = { warn: vi.fn() };
+    const POST = createCspReportHandler({ logger, rateLimit: { maxRequests: 1, windowMs: 60_000 } });
+    const body = JSON.stringify({ "csp-report": { "blocked-uri": "eval" } });
+    expect((await POST(post(body))).status).toBe(204);
+    const limited = await POST(post(body));
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("Retry-After")).toBe("60");
+    await expect(limited.json()).resolves.toEqual({ success: false, error: "rate_limited" });
+    expect((await POST(post(body, undefined, "203.0.113.2"))).status).toBe(204);
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+  });
+
+  it("keys the rate limit on getClientKey when supplied", async () => {
+    const logger = { warn: vi.fn() };
+    const POST = createCspReportHandler({
+      logger,
+      rateLimit: { maxRequests: 1, windowMs: 60_000 },
+      getClientKey: () => "peer-1",
+    });
+    const body = JSON.stringify({ "csp-report": { "blocked-uri": "eval" } });
+    expect((await POST(post(body))).status).toBe(204);
+    expect((await POST(post(body, undefined, "203.0.113.2"))).status).toBe(429);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Route handler that receives Content-Security-Policy violation reports and logs them through
+ * the structured logger, so policy drift and injection attempts show up in Grafana.
+ *
+ * Usage (app/api/csp-report/route.ts):
+ *   import { createCspReportHandler } from '@exbrain/common-react/server/csp-report';
+ *   export const POST = createCspReportHandler();
+ *
+ * and point the policy at it: `applySecurityHeaders(request, response, { directives: { 'report-uri': '/api/csp-report' } })`.
+ *
+ * Accepts both report formats:
+ * - legacy `report-uri`: `application/csp-report` body `{ "csp-report": { "document-uri": ... } }`
+ * - Reporting API `report-to`: `application/reports+json` array of `{ type: "csp-violation", body }`
+ *
+ * Each violation is one `CSP violation` warn entry (`event: "csp_violation"`). URLs are logged
+ * without query string or fragment; the user agent is not logged (golden §7). Responds 204;
+ * 400 `invalid_body`, 413 `payload_too_large`, 429 `rate_limited` (per client IP, in memory —
+ * the endpoint is unauthenticated).
+ * Uses standard `Request` / `Response` only (no `next` imports). Node route handlers only.
+ */
+
+import { readBodyWithLimit } from "./client-logs-ingest";
+import { createRateLimiter, getClientIp, type RateLimitOptions } from "./rate-limiter";
+import { createServerLogger } from "./server-logger";
+
+export type CspReportLogger = {
+  warn: (message: string, context?: Record<string, unknown>) => void;
+};
+
+export type CspReportHandlerOptions = {
+  /** Maximum request body size in bytes. Default 64 KiB. */
+  maxBodyBytes?: number;
+  /** Reports logged per request (the rest are dropped). Default 20. */
+  maxReportsPerRequest?: number;
+  /** Per-client-IP request limit (429 `rate_limited`). Default 60 per minute; `false` disables it. */
+  rateLimit?: RateLimitOptions | false;
+  /**
+   * Client key for `rateLimit`. Default `getClientIp`, which is only safe behind a proxy that
+   * appends to (or overwrites) `x-forwarded-for`.
+   */
+  getClientKey?: (request: Request) => string;
+  /** Logger override (for testing). Defaults to the server logger (service `csp-report`). */
+  logger?: CspReportLogger;
+};
+
+/** Machine-readable reasons in error responses (`error`). */
+export type CspReportRejectionReason = "invalid_body" | "payload_too_large" | "rate_limited";
+
+const MAX_SAMPLE_LENGTH = 100;
+
+function fail(status: number, error: CspReportRejectionReason, headers?: Record<string, string>): Response {
+  return Response.json({ success: false, error }, { status, headers });
+}
+
+/** Drops query string and fragment (may carry tokens or PII); keeps keywords like `inline`. */
+function stripUrl(value: unknown): string | undefined {
+  if (typeof value !== "string" || !value) return undefined;
+  return value.split(/[?#]/)[0];
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function asString(value: unknown, maxLength?: number): string | undefined {
+  if (typeof value !== "string" || !value) return undefined;
+  return maxLength !== undefined && value.length > maxLength ? value.slice(0, maxLength) : value;
+}
+
+/** Log fields for one legacy (`csp-report`, kebab-case) or Reporting API (camelCase) report body. */
+function toLogFields(report: Record<string, unknown>): Record<string, unknown> {
+  const pick = (kebab: string, camel: string) => report[kebab] ?? report[camel];
+  const fields: Record<string, unknown> = {
+    event: "csp_violation",
+    document_uri: stripUrl(pick("document-uri", "documentURL")),
+    blocked_uri: stripUrl(pick("blocked-uri", "blockedURL")),
+    violated_directive: asString(report["violated-directive"]),
+    effective_directive: asString(pick("effective-directive", "effectiveDirective")),
+    disposition: asString(report.disposition),
+    source_file: stripUrl(pick("source-file", "sourceFile")),
+    line_number: asNumber(pick("line-number", "lineNumber")),
+    column_number: asNumber(pick("column-number", "columnNumber")),
+    status_code: asNumber(pick("status-code", "statusCode")),
+    sample: asString(pick("script-sample", "sample"), MAX_SAMPLE_LENGTH),
+  };
+  for (const key of Object.keys(fields)) {
+    if (fields[key] === undefined) delete fields[key];
+  }
+  return fields;
+}
+
+function extractReports(payload: unknown): Record<string, unknown>[] | null {
+  if (Array.isArray(payload)) {
+    return payload
+      .filter((entry): entry is { type: string; body: Record<string, unknown> } =>
+        Boolean(entry) && typeof entry === "object" && entry.type === "csp-violation" && typeof entry.body === "object" && entry.body !== null,
+      )
+      .map((entry) => entry.body);
+  }
+  if (payload && typeof payload === "object") {
+    const report = (payload as Record<string, unknown>)["csp-report"];
+    if (report && typeof report === "object") return [report as Record<string, unknown>];
+  }
+  return null;
+}
+
+export function createCspReportHandler(options: CspReportHandlerOptions = {}) {
+  const maxBodyBytes = options.maxBodyBytes ?? 64 * 1024;
+  const maxReports = options.maxReportsPerRequest ?? 20;
+  const log = options.logger ?? createServerLogger("csp-report");
+  const limiter =
+    options.rateLimit === false ? null : createRateLimiter(options.rateLimit ?? { maxRequests: 60, windowMs: 60_000 });
+  const getClientKey = options.getClientKey ?? getClientIp;
+
+  return async function POST(request: Request): Promise<Response> {
+    if (limiter) {
+      const limit = limiter.check(getClientKey(request));
+      if (!limit.allowed) {
+        return fail(429, "rate_limited", { "Retry-After": String(limit.retryAfterSeconds) });
+      }
+    }
+
+    const text = await readBodyWithLimit(request, maxBodyBytes);
+    if (text === null) return fail(413, "payload_too_large");
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(text);
+    } catch {
+      return fail(400, "invalid_body");
+    }
+    const reports = extractReports(payload);
+    if (reports === null) return fail(400, "invalid_body");
+
+    for (const report of reports.slice(0, maxReports)) {
+      log.warn("CSP violation", toLogFields(report));
+    }
+    return new Response(null, { status: 204 });
+  };
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from "vitest";
+
+import { signCookieValue } from "./cookie-crypto";
+import { csrfErrorResponse, csrfStep, issueCsrfToken, verifyCsrf } from "./csrf";
+import { createMiddlewarePipeline } from "./middleware-pipeline";
+
+const SECRET = "c".repeat(32);
+
+function response() {
+  return { headers: new Headers(), cookies: { set: vi.fn() } };
+}
+
+function request(method: string, headers: Record<string, string> = {}): Request {
+  return new Request("http://app.example/api/greetings", { method, headers });
+}
+
+describe("issueCsrfToken", () => {
+  it("sets a readable signed cookie and returns the token", async () => {
+    const res = response();
+    const token = await issueCsrfToken(request("GET"), res, { secrets: SECRET, secure: true });
+    expect(token).toMatch(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+    expect(res.cookies.set).toHaveBeenCalledWith("csrf_token", token, {
+      httpOnly: false,
+      secure: true,
+      sameSite: "lax",
+      maxAge: 86_400,
+      path: "/",
+    });
+  });
+
+  it("keeps a valid existing token and replaces an invalid one", async () => {
+    const first = await issueCsrfToken(request("GET"), response(), { secrets: SECRET });
+
+    const res = response();
+    const kept = await issueCsrfToken(request("GET", { cookie: `csrf_token=${first}` }), res, { secrets: SECRET });
+    expect(kept).toBe(first);
+    expect(res.cookies.set).not.toHaveBeenCalled();
+
+    const replaced = response();
+    const fresh = await issueCsrfToken(request("GET", { cookie: "csrf_token=forged.value" }), replaced, {
+      secrets: SECRET,
+    });
+    expect(fresh).not.toBe("forged.value");
+    expect(replaced.cookies.set).toHaveBeenCalledWith("csrf_token", fresh, expect.any(Object));
+  });
+
+  it("runs as a middleware pipeline step", async () => {
+    const res = response();
+    let seen: unknown;
+    const middleware = createMiddlewarePipeline<Request, ReturnType<typeof response>>(
+      [
+        csrfStep({ secrets: SECRET }),
+        ({ state }) => {
+          seen = state.csrfToken;
+        },
+      ],
+      { service: "test", createResponse: () => res, logRequests: false },
+    );
+    await middleware(request("GET"));
+    expect(seen).toEqual(res.cookies.set.mock.calls[0][1]);
+  });
+});
+
+describe("verifyCsrf", () => {
+  async function token(): Promise<string> {
+    return issueCsrfToken(request("GET"), response(), { secrets: SECRET });
+  }
+
+  it("skips safe methods", async () => {
+    await expect(verifyCsrf(request("GET"), { secrets: SECRET })).resolves.toEqual({ ok: true });
+    await expect(verifyCsrf(request("HEAD"), { secrets: SECRET })).resolves.toEqual({ ok: true });
+  });
+
+  it("accepts a matching header and cookie", async () => {
+    const t = await token();
+    const req = request("POST", { cookie: `other=1; csrf_token=${t}`, "X-CSRF-Token": t });
+    await expect(verifyCsrf(req, { secrets: SECRET })).resolves.toEqual({ ok: true });
+  });
+
+  it("returns csrf_token_missing without the header or the cookie", async () => {
+    const t = await token();
+    await expect(verifyCsrf(request("POST", { cookie: `csrf_token=${t}` }), { secrets: SECRET })).resolves.toEqual({
+      ok: false,
+      code: "csrf_token_missing",
+    });
+    await expect(verifyCsrf(request("DELETE", { "X-CSRF-Token": t }), { secrets: SECRET })).resolves.toEqual({
+      ok: false,
+      code: "csrf_token_missing",
+    });
+  });
+
+  it("returns csrf_token_invalid on mismatch or a forged token", async () => {
+    const a = await token();
+    const b = await token();
+    await expect(
+      verifyCsrf(request("POST", { cookie: `csrf_token=${a}`, "X-CSRF-Token": b }), { secrets: SECRET }),
+    ).resolves.toEqual({ ok: false, code: "csrf_token_invalid" });
+
+    const forged = "Zm9yZ2Vk.c2lnbmF0dXJl";
+    await expect(
+      verifyCsrf(request("PUT", { cookie: `csrf_token=${forged}`, "X-CSRF-Token": forged }), { secrets: SECRET }),
+    ).resolves.toEqual({ ok: false, code: "csrf_token_invalid" });
+  });
+
+  it("returns csrf_token_expired for an expired signed token", async () => {
+    const expired = await signCookieValue("csrf_token", "abc", SECRET, { maxAge: 60, now: Date.now() - 120_000 });
+    await expect(
+      verifyCsrf(request("PATCH", { cookie: `csrf_token=${expired}`, "X-CSRF-Token": expired }), { secrets: SECRET }),
+    ).resolves.toEqual({ ok: false, code: "csrf_token_expired" });
+  });
+
+  it("binds the token to the session cookie when sessionCookieName is set", async () => {
+    const options = { secrets: SECRET, sessionCookieName: "session" };
+    const t = await issueCsrfToken(request("GET", { cookie: "session=victim" }), response(), options);
+    const post = (session: string) =>
+      verifyCsrf(request("POST", { cookie: `session=${session}; csrf_token=${t}`, "X-CSRF-Token": t }), options);
+
+    await expect(post("victim")).resolves.toEqual({ ok: true });
+    // A token tossed from a sibling subdomain was issued for the attacker's session.
+    await expect(post("other")).resolves.toEqual({ ok: false, code: "csrf_token_invalid" });
+
+    const res = response();
+    const reissued = await issueCsrfToken(request("GET", { cookie: `session=other; csrf_token=${t}` }), res, options);
+    expect(reissued).not.toBe(t);
+    expect(res.cookies.set).toHaveBeenCalledWith("csrf_token", reissued, expect.any(Object));
+  });
+
+  it("honours custom cookie and header names", async () => {
+    const t = await issueCsrfToken(request("GET"), response(), { secrets: SECRET, cookieName: "xsrf" });
+    const req = request("POST", { cookie: `xsrf=${t}`, "X-XSRF-Token": t });
+    await expect(verifyCsrf(req, { secrets: SECRET, cookieName: "xsrf", headerName: "X-XSRF-Token" })).resolves.toEqual({
+      ok: true,
+    });
+  });
+});
+
+describe("csrfErrorResponse", () => {
+  it("returns 403 in the IAM error shape", async () => {
+    const res = csrfErrorResponse("csrf_token_expired");
+    expect(res.status).toBe(403);
+    await expect(res.json()).resolves.toEqual({
+      success: false,
+      error: {
+        code: "csrf_token_expired",
+        message: "Security token expired. Please refresh the page and try again.",
+      },
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * CSRF protection (signed double-submit cookie) for Next.js middleware and route handlers.
+ *
+ * - Issue: `csrfStep()` in the middleware pipeline (or `issueCsrfToken()` anywhere with a
+ *   request / response pair) sets a readable `csrf_token` cookie. The token is HMAC-signed
+ *   (./cookie-crypto) with an expiry, and is reused while it is still valid.
+ * - Send: the browser echoes the cookie in `X-CSRF-Token` (fetchWithCsrf / useCsrfFetch).
+ * - Verify: `verifyCsrf(request)` in route handlers returns the AUTH_ERROR_MESSAGES codes
+ *   `csrf_token_missing` / `csrf_token_invalid` / `csrf_token_expired`:
+ *
+ *     const csrf = await verifyCsrf(request, { secrets });
+ *     if (!csrf.ok) return csrfErrorResponse(csrf.code);
+ *
+ * Set `sessionCookieName` to bind the token to the session: the signature then covers a SHA-256
+ * hash of the session cookie, so a token planted from a sibling subdomain (cookie tossing) or
+ * left over from another session is rejected as `csrf_token_invalid`, and re-issued.
+ *
+ * GET / HEAD / OPTIONS are never checked. Edge-safe (Web Crypto only, no `next` imports).
+ */
+
+import { AUTH_ERROR_MESSAGES } from "../lib/messages";
+import { CSRF_COOKIE_NAME, CSRF_HEADER, CSRF_SAFE_METHODS } from "../utils/csrf";
+import { signCookieValue, verifySignedCookieValue, type CookieSecrets } from "./cookie-crypto";
+import type { MiddlewareStep } from "./middleware-pipeline";
+import { parseCookieValue, type RequestIdSource, type ResponseWithRequestIdCookie } from "./middleware-request-id";
+
+export { CSRF_COOKIE_NAME, CSRF_HEADER };
+
+export type CsrfErrorCode = "csrf_token_missing" | "csrf_token_invalid" | "csrf_token_expired";
+
+export type CsrfVerification = { ok: true } | { ok: false; code: CsrfErrorCode };
+
+export type CsrfOptions = {
+  /** Signing secret(s), newest first (see ./cookie-crypto for rotation). */
+  secrets: CookieSecrets;
+  /** Defaults to {@link CSRF_COOKIE_NAME}. */
+  cookieName?: string;
+  /** Defaults to {@link CSRF_HEADER}. */
+  headerName?: string;
+  /**
+   * Session cookie the token is bound to (its hashed value is part of the signed input).
+   * Use the same value when issuing and verifying. Without it the token is not session-bound.
+   */
+  sessionCookieName?: string;
+};
+
+export type IssueCsrfTokenOptions = CsrfOptions & {
+  /** Token lifetime (cookie `Max-Age` and signed expiry). Default 86400 (one day). */
+  maxAgeSeconds?: number;
+  path?: string;
+  sameSite?: "lax" | "strict" | "none";
+  /** Cookie `Secure` flag; pass explicitly for your app (see applyRequestIdToNextResponse). */
+  secure?: boolean;
+};
+
+function randomToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/** Compares without an early exit, so timing does not reveal how much of the token matched. */
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+function readTokenCookie(request: RequestIdSource, cookieName: string): string {
+  const raw = parseCookieValue(request.headers.get("cookie") ?? "", cookieName);
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Signing context for the token: the cookie name, plus the hashed session cookie when the token
+ * is session-bound (the raw session value never enters the token).
+ */
+async function signingName(request: RequestIdSource, cookieName: string, options: CsrfOptions): Promise<string> {
+  if (!options.sessionCookieName) return cookieName;
+  const session = parseCookieValue(request.headers.get("cookie") ?? "", options.sessionCookieName);
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(session)));
+  let binary = "";
+  for (const byte of digest) binary += String.fromCharCode(byte);
+  return `${cookieName}|${btoa(binary)}`;
+}
+
+/**
+ * Ensures the response carries a valid CSRF cookie: keeps the request's token while it verifies,
+ * otherwise issues a new one (`httpOnly: false` so the browser can echo it).
+ * @returns The token the browser should send in the CSRF header.
+ */
+export async function issueCsrfToken(
+  request: RequestIdSource,
+  response: ResponseWithRequestIdCookie,
+  options: IssueCsrfTokenOptions,
+): Promise<string> {
+  const cookieName = options.cookieName ?? CSRF_COOKIE_NAME;
+  const name = await signingName(request, cookieName, options);
+  const existing = readTokenCookie(request, cookieName);
+  if (existing && (await verifySignedCookieValue(name, existing, options.secrets)).ok) {
+    return existing;
+  }
+  const maxAge = options.maxAgeSeconds ?? 86_400;
+  const token = await signCookieValue(name, randomToken(), options.secrets, { maxAge });
+  response.cookies.set(cookieName, token, {
+    httpOnly: false,
+    secure: options.secure ?? false,
+    sameSite: options.sameSite ?? "lax",
+    maxAge,
+    path: options.path ?? "/",
+  });
+  return token;
+}
+
+/** Middleware step: {@link issueCsrfToken}; the token is available as `state.csrfToken`. */
+export function csrfStep<Req extends RequestIdSource, Res extends ResponseWithRequestIdCookie>(
+  options: IssueCsrfTokenOptions,
+): MiddlewareStep<Req, Res> {
+  return async function csrf(context) {
+    context.state.csrfToken = await issueCsrfToken(context.request, context.response, options);
+  };
+}
+
+/**
+ * Checks the double-submit token on state-changing requests: the header must equal the cookie,
+ * and the cookie must carry a valid, unexpired signature (for the request's session when
+ * `sessionCookieName` is set).
+ */
+export async function verifyCsrf(
+  request: RequestIdSource & { method?: string },
+  options: CsrfOptions,
+): Promise<CsrfVerification> {
+  const method = (request.method ?? "GET").toUpperCase();
+  if (CSRF_SAFE_METHODS.includes(method)) return { ok: true };
+
+  const cookieName = options.cookieName ?? CSRF_COOKIE_NAME;
+  const cookieToken = readTokenCookie(request, cookieName);
+  const headerToken = request.headers.get(options.headerName ?? CSRF_HEADER)?.trim() ?? "";
+  if (!cookieToken || !headerToken) return { ok: false, code: "csrf_token_missing" };
+  if (!constantTimeEqual(cookieToken, headerToken)) return { ok: false, code: "csrf_token_invalid" };
+
+  const name = await signingName(request, cookieName, options);
+  const result = await verifySignedCookieValue(name, cookieToken, options.secrets);
+  if (result.ok) return { ok: true };
+  return { ok: false, code: result.reason === "expired" ? "csrf_token_expired" : "csrf_token_invalid" };
+}
+
+/**
+ * 403 JSON response in the IAM error shape (`{ success: false, error: { code, message } }`), so
+ * clients handle it with extractAuthError / parseApiResponse like any IAM error.
+ */
+export function csrfErrorResponse(code: CsrfErrorCode): Response {
+  return Response.json({ success: false, error: { code, message: AUTH_ERROR_MESSAGES[code] } }, { status: 403 });
+}
@@ -1,3 +1,6 @@
+import { getRequestContext } from './request-context'
+import { createChildSpan, getTraceHeaders, startTrace, TRACEPARENT_HEADER } from '../utils/trace-context'
+
 /** Header name for request ID (must match gateway and backends). */
 export const REQUEST_ID_HEADER = 'X-Request-ID'
 
@@ -12,8 +15,14 @@ export interface FetchWithTimeoutOptions extends RequestInit {
  *
  * - If options.requestId is provided, forwards it (e.g. from incoming request).
  * - Else if X-Request-ID is already in options.headers, keeps it.
+ * - Else inside runWithRequestContext, forwards the current request's ID.
  * - Otherwise generates a new UUID.
  * Use getOrCreateRequestId(request.headers) and pass as requestId when proxying to IAM/engine.
+ *
+ * Aborts after `timeoutMs` or when `options.signal` aborts.
+ *
+ * Also sends W3C `traceparent` (+ `tracestate`) for a new child span of the current request's
+ * span (runWithRequestContext), or a new trace — unless options.headers already has one.
  */
 export async function fetchWithTimeout(
   url: string,
@@ -22,6 +31,10 @@ export async function fetchWithTimeout(
 ): Promise<Response> {
   const controller = new AbortController()
   const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
+  // Honour the caller's signal too (the timeout controller replaces it on the request).
+  const abortFromCaller = () => controller.abort(options.signal?.reason)
+  if (options.signal?.aborted) abortFromCaller()
+  else options.signal?.addEventListener('abort', abortFromCaller, { once: true })
 
   try {
     const headers = new Headers(options.headers)
@@ -30,7 +43,13 @@ export async function fetchWithTimeout(
     if (requestId) {
       headers.set(REQUEST_ID_HEADER, requestId)
     } else if (!headers.has(REQUEST_ID_HEADER)) {
-      headers.set(REQUEST_ID_HEADER, crypto.randomUUID())
+      headers.set(REQUEST_ID_HEADER, getRequestContext()?.requestId ?? crypto.randomUUID())
+    }
+
+    if (!headers.has(TRACEPARENT_HEADER)) {
+      const parent = getRequestContext()?.trace
+      const span = parent ? createChildSpan(parent) : startTrace()
+      for (const [name, value] of Object.entries(getTraceHeaders(span))) headers.set(name, value)
     }
 
     const response = await fetch(url, {
@@ -42,5 +61,6 @@ export async function fetchWithTimeout(
     return response
   } finally {
     clearTimeout(timeoutId)
+    options.signal?.removeEventListener('abort', abortFromCaller)
   }
 }
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+import { configHealthCheck, createHealthRouteHandlers, httpHealthCheck, type HealthCheck } from "./health-routes";
+
+function logger() {
+  return { warn: vi.fn() };
+}
+
+describe("createHealthRouteHandlers", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("liveness reports ok with version and build info without running checks", async () => {
+    const check = vi.fn();
+    const { liveness } = createHealthRouteHandlers({
+      service: "hello-ui",
+      version: "1.4.2",
+      build: { commit: "abc123", time: undefined },
+      checks: [{ name: "iam", check }],
+      logger: logger(),
+    });
+    const res = liveness();
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Cache-Control")).toBe("no-store");
+    const body = await res.json();
+    expect(body).toMatchObject({ status: "ok", service: "hello-ui", version: "1.4.2", build: { commit: "abc123" } });
+    expect(body.build).not.toHaveProperty("time");
+    expect(body.uptime_seconds).toEqual(expect.any(Number));
+    expect(check).not.toHaveBeenCalled();
+  });
+
+  it("readiness runs checks in parallel and reports per-check status and latency", async () => {
+    const order: string[] = [];
+    const slow = (name: string): HealthCheck => ({
+      name,
+      check: async () => {
+        order.push(`start:${name}`);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        order.push(`end:${name}`);
+      },
+    });
+    const { readiness } = createHealthRouteHandlers({
+      checks: [slow("iam"), slow("engine"), { name: "config", check: () => ({ details: { keys: 3 } }) }],
+      logger: logger(),
+    });
+    const res = await readiness();
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(order.slice(0, 2)).toEqual(["start:iam", "start:engine"]);
+    expect(body.status).toBe("ok");
+    expect(body.version).toBe("unknown");
+    expect(body.checks.iam).toEqual({ status: "ok", latency_ms: expect.any(Number) });
+    expect(body.checks.config).toEqual({ status: "ok", latency_ms: expect.any(Number), details: { keys: 3 } });
+  });
+
+  it("returns 503 when a critical check fails and logs it", async () => {
+    const log = logger();
+    const { readiness } = createHealthRouteHandlers({
+      checks: [
+        {
+          name: "iam",
+          check: () => Promise.reject(Object.assign(new Error("connect ECONNREFUSED 10.0.0.5:8080"), { code: "ECONNREFUSED" })),
+        },
+        { name: "engine", check: () => true },
+        { name: "config", check: () => Promise.reject(new Error("missing environment variables: IAM_URL")) },
+      ],
+      logger: log,
+    });
+    const res = await readiness();
+    expect(res.status).toBe(503);
+    const body = await res.json();
+    expect(body.status).toBe("fail");
+    expect(body.checks.iam).toMatchObject({ status: "fail", error: "unreachable" });
+    expect(body.checks.config).toMatchObject({ status: "fail", error: "unhealthy" });
+    expect(JSON.stringify(body)).not.toContain("10.0.0.5");
+    expect(JSON.stringify(body)).not.toContain("IAM_URL");
+    expect(log.warn).toHaveBeenCalledWith(
+      "Health check failed",
+      expect.objectContaining({ check: "iam", error_code: "unreachable", error_message: "connect ECONNREFUSED 10.0.0.5:8080" }),
+    );
+  });
+
+  it("reports degraded (200) when only a non-critical check fails", async () => {
+    const { readiness } = createHealthRouteHandlers({
+      checks: [
+        { name: "iam", check: () => undefined },
+        { name: "engine", check: () => false, critical: false },
+      ],
+      logger: logger(),
+    });
+    const res = await readiness();
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.status).toBe("degraded");
+    expect(body.checks.engine).toMatchObject({ status: "fail", error: "unhealthy" });
+  });
+
+  it("times out slow checks and aborts their signal", async () => {
+    const log = logger();
+    let signal: AbortSignal | undefined;
+    const { readiness } = createHealthRouteHandlers({
+      checks: [
+        {
+          name: "engine",
+          timeoutMs: 20,
+          check: (s) => {
+            signal = s;
+            return new Promise(() => {});
+          },
+        },
+      ],
+      logger: log,
+    });
+    const body = await (await readiness()).json();
+    expect(body.checks.engine).toMatchObject({ status: "fail", error: "timeout" });
+    expect(log.warn).toHaveBeenCalledWith("Health check failed", expect.objectContaining({ error_message: "timed out after 20ms" }));
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it("caches the readiness report and shares in-flight runs", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const check = vi.fn(async () => undefined);
+    const { readiness } = createHealthRouteHandlers({ checks: [{ name: "iam", check }], cacheTtlMs: 1000, logger: logger() });
+    await Promise.all([readiness(), readiness()]);
+    await readiness();
+    expect(check).toHaveBeenCalledTimes(1);
+    vi.setSystemTime(Date.now() + 1000);
+    await readiness();
+    expect(check).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("built-in checks", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("httpHealthCheck passes on 2xx and fails on other statuses", async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(new Response("ok")).mockResolvedValueOnce(new Response("", { status: 502 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const check = httpHealthCheck("iam", "http://iam.internal/health");
+    const signal = new AbortController().signal;
+    await expect(check.check(signal)).resolves.toEqual({ details: { http_status: 200 } });
+    await expect(check.check(signal)).rejects.toThrow("unexpected status 502");
+    expect(fetchMock).toHaveBeenCalledWith("http://iam.internal/health", expect.objectContaining({ signal }));
+  });
+
+  it("configHealthCheck lists missing variable names only", () => {
+    const check = configHealthCheck("config", ["IAM_URL", "AUTH0_DOMAIN", "SECRET"], { IAM_URL: "x", SECRET: "" });
+    expect(() => check.check(new AbortController().signal)).toThrow("missing environment variables: AUTH0_DOMAIN, SECRET");
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Liveness / readiness route handlers with dependency checks.
+ *
+ * Usage:
+ *   // app/lib/health.ts
+ *   import { createHealthRouteHandlers, httpHealthCheck, configHealthCheck } from '@exbrain/common-react/server/health-routes';
+ *   export const health = createHealthRouteHandlers({
+ *     service: 'hello-ui',
+ *     version: process.env.APP_VERSION,
+ *     build: { commit: process.env.GIT_COMMIT, time: process.env.BUILD_TIME },
+ *     checks: [
+ *       httpHealthCheck('iam', `${process.env.IAM_URL}/health`),
+ *       httpHealthCheck('engine', `${process.env.ENGINE_URL}/health`, { critical: false }),
+ *       configHealthCheck('config', ['IAM_URL', 'AUTH0_DOMAIN']),
+ *     ],
+ *   });
+ *   // app/health/live/route.ts:  export const GET = health.liveness;
+ *   // app/health/route.ts:       export const GET = health.readiness;
+ *
+ * - Liveness never runs checks: 200 while the process can serve requests.
+ * - Readiness runs every check in parallel, each with its own timeout, and caches the report for
+ *   `cacheTtlMs` (concurrent requests share one run). Status is `ok`, `degraded` (a non-critical
+ *   check failed; still 200) or `fail` (a critical check failed; 503).
+ * - Failed checks are logged at warn with check name, latency and error message. The report only
+ *   says `timeout`, `unreachable` (connection failure) or `unhealthy`: exception messages can
+ *   name internal hosts and ports, and readiness is often public.
+ *
+ * Report: `{ status, service, version, build, timestamp, uptime_seconds, checks: { <name>:
+ * { status, latency_ms, error?, details? } } }` — the shape EnvironmentBanner's `healthUrl` reads.
+ * Uses standard `Request` / `Response` only (no `next` imports). Node route handlers only.
+ */
+
+import { createServerLogger } from "./server-logger";
+
+export type HealthStatus = "ok" | "degraded" | "fail";
+
+/** What a check may return: nothing / `true` for healthy, `false` for failed, or a detailed result. */
+export type HealthCheckResult =
+  | void
+  | boolean
+  | { status?: HealthStatus; details?: Record<string, unknown> };
+
+export type HealthCheck = {
+  /** Key in the report's `checks` object. */
+  name: string;
+  /** Throw or return false when unhealthy; `signal` aborts when the check times out. */
+  check: (signal: AbortSignal) => HealthCheckResult | Promise<HealthCheckResult>;
+  /** Per-check timeout. Defaults to the handler's `timeoutMs`. */
+  timeoutMs?: number;
+  /** A failing non-critical check makes the report `degraded` instead of `fail`. Default true. */
+  critical?: boolean;
+};
+
+/** Generic failure reason in the report; the detailed message goes to the log only. */
+export type HealthCheckError = "timeout" | "unreachable" | "unhealthy";
+
+export type HealthCheckReport = {
+  status: HealthStatus;
+  latency_ms: number;
+  error?: HealthCheckError;
+  details?: Record<string, unknown>;
+};
+
+export type HealthReport = {
+  status: HealthStatus;
+  service?: string;
+  version: string;
+  build?: Record<string, string>;
+  timestamp: string;
+  uptime_seconds: number;
+  checks?: Record<string, HealthCheckReport>;
+};
+
+export type HealthLogger = {
+  warn: (message: string, context?: Record<string, unknown>) => void;
+};
+
+export type HealthRouteOptions = {
+  checks: readonly HealthCheck[];
+  /** Value for `service` in the report. */
+  service?: string;
+  /** Application version in the report. Default `"unknown"`. */
+  version?: string;
+  /** Build info (commit, time, ...); empty values are omitted. */
+  build?: Record<string, string | null | undefined>;
+  /** Default per-check timeout. Default 2000. */
+  timeoutMs?: number;
+  /** How long a readiness report is reused. Default 5000; 0 disables caching. */
+  cacheTtlMs?: number;
+  /** Logger override (for testing). Defaults to the server logger (service `health`). */
+  logger?: HealthLogger;
+};
+
+export type HealthRouteHandlers = {
+  liveness: (request?: Request) => Response;
+  readiness: (request?: Request) => Promise<Response>;
+};
+
+const startedAt = Date.now();
+
+function now(): number {
+  return typeof performance !== "undefined" ? performance.now() : Date.now();
+}
+
+function respond(report: HealthReport): Response {
+  return Response.json(report, {
+    status: report.status === "fail" ? 503 : 200,
+    headers: { "Cache-Control": "no-store" },
+  });
+}
+
+/** A check's report plus the detailed failure message, which is logged but never returned. */
+type CheckOutcome = { report: HealthCheckReport; message?: string };
+
+/** fetch rejects with a TypeError when it cannot connect; Node socket errors carry a `code`. */
+function isConnectionError(error: unknown): boolean {
+  if (error instanceof TypeError) return true;
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === "string" && /^E[A-Z]+$/.test(code);
+}
+
+async function runCheck(check: HealthCheck, defaultTimeoutMs: number): Promise<CheckOutcome> {
+  const timeoutMs = check.timeoutMs ?? defaultTimeoutMs;
+  const controller = new AbortController();
+  const started = now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let timedOut = false;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+      reject(new Error(`timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+  try {
+    const result = await Promise.race([Promise.resolve().then(() => check.check(controller.signal)), timeout]);
+    const latency_ms = Math.round(now() - started);
+    if (result === false) {
+      return { report: { status: "fail", latency_ms, error: "unhealthy" }, message: "check returned false" };
+    }
+    if (result && typeof result === "object") {
+      return { report: { status: result.status ?? "ok", latency_ms, ...(result.details && { details: result.details }) } };
+    }
+    return { report: { status: "ok", latency_ms } };
+  } catch (error) {
+    return {
+      report: { status: "fail", latency_ms: Math.round(now() - started), error: timedOut ? "timeout" : isConnectionError(error) ? "unreachable" : "unhealthy" },
+      message: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export function createHealthRouteHandlers(options: HealthRouteOptions): HealthRouteHandlers {
+  const timeoutMs = options.timeoutMs ?? 2000;
+  const cacheTtlMs = options.cacheTtlMs ?? 5000;
+  const log = options.logger ?? createServerLogger("health");
+  const build = Object.fromEntries(
+    Object.entries(options.build ?? {}).filter((entry): entry is [string, string] => Boolean(entry[1])),
+  );
+
+  function baseReport(status: HealthStatus): HealthReport {
+    return {
+      status,
+      ...(options.service && { service: options.service }),
+      version: options.version || "unknown",
+      ...(Object.keys(build).length > 0 && { build }),
+      timestamp: new Date().toISOString(),
+      uptime_seconds: Math.floor((Date.now() - startedAt) / 1000),
+    };
+  }
+
+  async function runChecks(): Promise<HealthReport> {
+    const results = await Promise.all(options.checks.map((check) => runCheck(check, timeoutMs)));
+    const checks: Record<string, HealthCheckReport> = {};
+    let status: HealthStatus = "ok";
+    options.checks.forEach((check, index) => {
+      const { report: result, message } = results[index];
+      checks[check.name] = result;
+      if (result.status === "ok") return;
+      if (result.status === "fail") {
+        log.warn("Health check failed", {
+          check: check.name,
+          latency_ms: result.latency_ms,
+          ...(result.error && { error_code: result.error }),
+          ...(message && { error_message: message }),
+        });
+      }
+      const critical = check.critical ?? true;
+      if (result.status === "fail" && critical) status = "fail";
+      else if (status === "ok") status = "degraded";
+    });
+    return { ...baseReport(status), checks };
+  }
+
+  let cached: { report: Promise<HealthReport>; at: number } | null = null;
+
+  return {
+    liveness: () => respond(baseReport("ok")),
+    readiness: async () => {
+      const at = Date.now();
+      if (!cached || at - cached.at >= cacheTtlMs) {
+        cached = { report: runChecks(), at };
+      }
+      return respond(await cached.report);
+    },
+  };
+}
+
+export type HttpHealthCheckOptions = {
+  timeoutMs?: number;
+  critical?: boolean;
+  /** Healthy when true for the response. Default `response.ok`. */
+  isHealthy?: (response: Response) => boolean;
+  headers?: HeadersInit;
+};
+
+/** Dependency check: GET `url` and expect a healthy status. */
+export function httpHealthCheck(name: string, url: string, options: HttpHealthCheckOptions = {}): HealthCheck {
+  return {
+    name,
+    timeoutMs: options.timeoutMs,
+    critical: options.critical,
+    async check(signal) {
+      const response = await fetch(url, { method: "GET", headers: options.headers, signal, cache: "no-store" });
+      await response.body?.cancel().catch(() => {});
+      const healthy = options.isHealthy ? options.isHealthy(response) : response.ok;
+      if (!healthy) throw new Error(`unexpected status ${response.status}`);
+      return { details: { http_status: response.status } };
+    },
+  };
+}
+
+/** Config check: fails listing the names (never values) of missing environment variables. */
+export function configHealthCheck(
+  name: string,
+  requiredEnv: readonly string[],
+  env: Record<string, string | undefined> = process.env,
+): HealthCheck {
+  return {
+    name,
+    check() {
+      const missing = requiredEnv.filter((key) => !env[key]);
+      if (missing.length > 0) throw new Error(`missing environment variables: ${missing.join(", ")}`);
+    },
+  };
+}
@@ -9,15 +9,142 @@
 
 export { getOrCreateRequestId } from './requestId'
 export { fetchWithTimeout, REQUEST_ID_HEADER, type FetchWithTimeoutOptions } from './fetcher'
-export { setCookie, getCookie, deleteCookie, getCookies } from './cookies'
-export type { CookieOptions } from './cookies'
+export {
+  setCookie,
+  getCookie,
+  deleteCookie,
+  getCookies,
+  setSignedCookie,
+  getSignedCookie,
+  setEncryptedCookie,
+  getEncryptedCookie,
+  MAX_COOKIE_CHUNK_SIZE,
+} from './cookies'
+export type { CookieOptions, SecureCookieOptions } from './cookies'
 
 export {
   applyRequestIdToNextResponse,
   resolveRequestIdFromRequest,
+  resolveTraceContextFromRequest,
+  applyTraceContextToNextResponse,
   DEFAULT_REQUEST_ID_COOKIE_NAME,
   type ApplyRequestIdToNextResponseOptions,
   type RequestIdSource,
   type ResponseWithRequestIdCookie,
 } from './middleware-request-id'
-export { createClientLogsPostHandler, type ClientLogsIngestOptions } from './client-logs-ingest'
+export {
+  createClientLogsPostHandler,
+  type ClientLogsIngestOptions,
+  type ClientLogsRejectionReason,
+} from './client-logs-ingest'
+export { createRateLimiter, getClientIp, type RateLimiter, type RateLimitOptions, type RateLimitResult } from './rate-limiter'
+export {
+  createStdoutSink,
+  createRotatingFileSink,
+  createMemorySink,
+  createOtlpHttpSink,
+  toOtlpLogsRequest,
+  type ClientLogLine,
+  type ClientLogSink,
+  type MemorySink,
+  type RotatingFileSinkOptions,
+  type OtlpHttpSinkOptions,
+} from './log-sinks'
+export {
+  createLogLevelRouteHandlers,
+  type LogLevelAuditLogger,
+  type LogLevelRouteError,
+  type LogLevelRouteOptions,
+} from './log-level-routes'
+export {
+  runWithRequestContext,
+  getRequestContext,
+  getRemainingTimeMs,
+  DEADLINE_HEADER,
+  type RequestContext,
+  type RunWithRequestContextOptions,
+} from './request-context'
+export {
+  createMiddlewarePipeline,
+  requestIdStep,
+  browserIdStep,
+  type EdgePipelineLogger,
+  type MiddlewareContext,
+  type MiddlewarePipelineOptions,
+  type MiddlewareStep,
+} from './middleware-pipeline'
+export {
+  createCircuitBreaker,
+  type CircuitBreaker,
+  type CircuitBreakerOptions,
+  type CircuitState,
+} from './circuit-breaker'
+export {
+  createUpstreamFetch,
+  UpstreamError,
+  type UpstreamErrorCode,
+  type UpstreamFetch,
+  type UpstreamFetchOptions,
+  type UpstreamLogger,
+  type UpstreamRequestInit,
+  type UpstreamRetryOptions,
+} from './upstream-fetch'
+export {
+  signCookieValue,
+  verifySignedCookieValue,
+  encryptCookieValue,
+  decryptCookieValue,
+  type CookieRejectReason,
+  type CookieSecrets,
+  type OpenCookieResult,
+  type SealCookieOptions,
+} from './cookie-crypto'
+export {
+  issueCsrfToken,
+  csrfStep,
+  verifyCsrf,
+  csrfErrorResponse,
+  CSRF_COOKIE_NAME,
+  CSRF_HEADER,
+  type CsrfErrorCode,
+  type CsrfOptions,
+  type CsrfVerification,
+  type IssueCsrfTokenOptions,
+} from './csrf'
+export {
+  applySecurityHeaders,
+  securityHeadersStep,
+  buildContentSecurityPolicy,
+  createCspNonce,
+  withCspNonce,
+  getCspNonce,
+  CSP_NONCE_HEADER,
+  CSP_NONCE_SOURCE,
+  DEFAULT_CSP_DIRECTIVES,
+  type CspDirectives,
+  type CspSourceListDirective,
+  type HstsOptions,
+  type SecurityHeadersOptions,
+  type SecurityHeadersResult,
+} from './security-headers'
+export {
+  createCspReportHandler,
+  type CspReportHandlerOptions,
+  type CspReportLogger,
+  type CspReportRejectionReason,
+} from './csp-report'
+export {
+  createHealthRouteHandlers,
+  httpHealthCheck,
+  configHealthCheck,
+  type HealthCheck,
+  type HealthCheckError,
+  type HealthCheckReport,
+  type HealthCheckResult,
+  type HealthLogger,
+  type HealthReport,
+  type HealthRouteHandlers,
+  type HealthRouteOptions,
+  type HealthStatus,
+  type HttpHealthCheckOptions,
+} from './health-routes'
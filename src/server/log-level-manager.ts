@@ -8,11 +8,24 @@
  * For multi-instance deployments, extend setLogLevel to write to Redis and add a
  * polling/pub-sub mechanism so all pods pick up the change.
  *
+ * Per-service overrides (keyed by the `service` passed to createServerLogger/createContextLogger)
+ * sit on top of the process level: `setServiceLogLevel('auth0Service', 'debug')`, or at startup
+ * `LOG_LEVELS=auth0Service:debug,AuthProvider:warn`. The override table itself lives in
+ * utils/log-level-overrides so the logger can consult it without importing this module.
+ *
  * NOTE: Uses a local LogLevel type (not re-exported from the main index) to avoid
  * circular imports — server-logger imports log-level-manager, and the main index
  * imports the logger. Breaking the cycle requires local types here.
  */
 
+import {
+  getServiceLogLevels as getOverrides,
+  parseLogLevelOverrides,
+  resolveServiceLogLevel,
+  setServiceLogLevel as setOverride,
+  setServiceLogLevels as setOverrides,
+} from '../utils/log-level-overrides';
+
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
 const VALID_LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error'];
@@ -25,6 +38,11 @@ function resolveDefaultLevel(): LogLevel {
 
 let currentLogLevel: LogLevel = resolveDefaultLevel();
 
+// Merge (not replace): the logger module may already have applied NEXT_PUBLIC_LOG_LEVELS.
+for (const [service, level] of Object.entries(parseLogLevelOverrides(process.env.LOG_LEVELS))) {
+  setOverride(service, level);
+}
+
 const loggerInstances: Array<{ setLevel: (level: LogLevel) => void }> = [];
 
 /**
@@ -58,3 +76,35 @@ export function setLogLevel(level: LogLevel): LogLevel {
   }
   return previousLevel;
 }
+
+/** Effective level for a service: its (or a `.`-parent's) override, else the process level. */
+export function getEffectiveLogLevel(service: string): LogLevel {
+  return resolveServiceLogLevel(service) ?? currentLogLevel;
+}
+
+/** Current per-service overrides, e.g. `{ auth0Service: 'debug' }`. */
+export function getServiceLogLevels(): Record<string, LogLevel> {
+  return getOverrides();
+}
+
+/**
+ * Sets (or with `null`, removes) the override for one service.
+ * Returns the previous override, or null if there was none (useful for admin audit logging).
+ */
+export function setServiceLogLevel(service: string, level: LogLevel | null): LogLevel | null {
+  const previous = getOverrides()[service] ?? null;
+  setOverride(service, level);
+  return previous;
+}
+
+/** Replaces all overrides, e.g. with `parseLogLevelOverrides('auth0Service:debug,AuthProvider:warn')`. */
+export function setServiceLogLevels(levels: Record<string, LogLevel>): void {
+  setOverrides(levels);
+}
+
+/** Removes all per-service overrides; every service follows the process level again. */
+export function clearServiceLogLevels(): void {
+  setOverrides({});
+}
+
+export { parseLogLevelOverrides };
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+import { createLogLevelRouteHandlers } from "./log-level-routes";
+import { getLogLevel, setLogLevel } from "./log-level-manager";
+
+describe("createLogLevelRouteHandlers", () => {
+  const audit = { warn: vi.fn(), error: vi.fn() };
+
+  function put(body: unknown, headers: Record<string, string> = {}) {
+    return new Request("http://localhost/api/admin/log-level", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    });
+  }
+
+  function handlers(authorized = true) {
+    return createLogLevelRouteHandlers({
+      authorize: () => authorized,
+      getIdentity: () => "auth0|admin-1",
+      auditLogger: audit,
+    });
+  }
+
+  beforeEach(() => {
+    setLogLevel("info");
+    audit.warn.mockReset();
+    audit.error.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns 403 forbidden when the predicate denies the caller", async () => {
+    const { GET, PUT } = handlers(false);
+    expect((await GET(new Request("http://localhost/"))).status).toBe(403);
+    const res = await PUT(put({ level: "debug" }));
+    expect(await res.json()).toEqual({ success: false, error: "forbidden" });
+    expect(getLogLevel()).toBe("info");
+    expect(audit.warn).not.toHaveBeenCalled();
+  });
+
+  it("GET reports the current level", async () => {
+    const res = await handlers().GET(new Request("http://localhost/"));
+    expect(await res.json()).toEqual({ success: true, level: "info", revertAt: null });
+  });
+
+  it("validates the level, TTL and body", async () => {
+    const { PUT } = handlers();
+    expect(await (await PUT(put({ level: "verbose" }))).json()).toMatchObject({ error: "invalid_level" });
+    expect(await (await PUT(put({ level: "debug", ttlSeconds: -1 }))).json()).toMatchObject({ error: "invalid_ttl" });
+    expect(await (await PUT(put({ level: "debug", ttlSeconds: 90_000 }))).json()).toMatchObject({ error: "invalid_ttl" });
+    expect(await (await PUT(put("not json"))).json()).toMatchObject({ error: "invalid_body" });
+    expect(getLogLevel()).toBe("info");
+  });
+
+  it("changes the level and writes an audit event with old/new level and identity", async () => {
+    const res = await handlers().PUT(put({ level: "warn" }, { "X-Request-ID": "req-1" }));
+    expect(await res.json()).toEqual({ success: true, previousLevel: "info", level: "warn", revertAt: null });
+    expect(getLogLevel()).toBe("warn");
+    expect(audit.warn).toHaveBeenCalledWith("Log level changed", {
+      event: "log_level_changed",
+      previous_level: "info",
+      new_level: "warn",
+      identity: "auth0|admin-1",
+      request_id: "req-1",
+    });
+  });
+
+  it("keeps the audit entry when switching to and reverting from error", async () => {
+    vi.useFakeTimers();
+    // Drop entries the way the real logger does while the level is `error`.
+    const written: string[] = [];
+    audit.warn.mockImplementation((message: string) => {
+      if (getLogLevel() !== "error") written.push(message);
+    });
+    await handlers().PUT(put({ level: "error", ttlSeconds: 60 }));
+    expect(getLogLevel()).toBe("error");
+    expect(written).toEqual(["Log level changed"]);
+
+    vi.advanceTimersByTime(60_000);
+    expect(getLogLevel()).toBe("info");
+    expect(written).toEqual(["Log level changed", "Log level reverted"]);
+  });
+
+  it("audits a change from error to error (e.g. a new TTL) at error", async () => {
+    setLogLevel("error");
+    await handlers().PUT(put({ level: "error", ttlSeconds: 60 }));
+    expect(getLogLevel()).toBe("error");
+    expect(audit.warn).not.toHaveBeenCalled();
+    expect(audit.error).toHaveBeenCalledWith("Log level changed", expect.objectContaining({
+      previous_level: "error",
+      new_level: "error",
+      ttl_seconds: 60,
+    }));
+  });
+
+  it("reverts to the original level after the TTL, even when the TTL is extended", async () => {
+    vi.useFakeTimers();
+    const { PUT } = handlers();
+    await PUT(put({ level: "debug", ttlSeconds: 60 }));
+    await PUT(put({ level: "warn", ttlSeconds: 120 }));
+    expect(getLogLevel()).toBe("warn");
+
+    vi.advanceTimersByTime(60_000);
+    expect(getLogLevel()).toBe("warn");
+    vi.advanceTimersByTime(60_000);
+    expect(getLogLevel()).toBe("info");
+    expect(audit.warn).toHaveBeenLastCalledWith("Log level reverted", expect.objectContaining({
+      previous_level: "warn",
+      new_level: "info",
+      reason: "ttl_expired",
+    }));
+  });
+});
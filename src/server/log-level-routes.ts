@@ -0,0 +1,155 @@
+/**
+ * Admin route handlers for runtime log level control (wraps ./log-level-manager).
+ *
+ * Usage (app/api/admin/log-level/route.ts):
+ *   import { createLogLevelRouteHandlers } from '@exbrain/common-react/server/log-level-routes';
+ *   export const { GET, PUT } = createLogLevelRouteHandlers({
+ *     authorize: async (request) => isPlatformAdmin(await getSession(request)),
+ *     getIdentity: async (request) => (await getSession(request))?.user.sub,
+ *   });
+ *
+ * `PUT { "level": "debug", "ttlSeconds": 900 }` turns on debug for 15 minutes, then reverts to the
+ * level that was active before the first temporary change. Every change (and every automatic
+ * revert) is written as a `log_level_changed` audit event with old/new level and identity.
+ *
+ * Audit events are logged at `warn` so they survive the common `warn` production level, and are
+ * written while `warn` is still (or already) enabled: before a change to `error`, after a change
+ * away from it. Otherwise switching to or reverting from `error` would drop its own audit record.
+ * A change from `error` to `error` (e.g. to set or extend a TTL) is audited at `error`.
+ * The TTL timer lives in this process only — same scope as the manager itself.
+ *
+ * Uses standard `Request` / `Response` only (no `next` imports). Node route handlers only.
+ */
+
+import { createServerLogger } from "./server-logger";
+import { getLogLevel, setLogLevel, type LogLevel } from "./log-level-manager";
+import { getOrCreateRequestId } from "./requestId";
+
+export type LogLevelAuditLogger = {
+  warn: (message: string, context?: Record<string, unknown>) => void;
+  error: (message: string, context?: Record<string, unknown>) => void;
+};
+
+export type LogLevelRouteOptions = {
+  /** Return true when the caller may read/change the level; otherwise 403 `forbidden`. */
+  authorize: (request: Request) => boolean | Promise<boolean>;
+  /**
+   * Identity recorded in the audit event (user id, service account, ...). Default `"unknown"`.
+   * Return an internal id such as the Auth0 `sub`: emails are scrubbed by log redaction.
+   */
+  getIdentity?: (request: Request) => string | null | undefined | Promise<string | null | undefined>;
+  /** Upper bound for `ttlSeconds` (400 `invalid_ttl` above it). Default 24 hours. */
+  maxTtlSeconds?: number;
+  /** Audit logger override (for testing). Defaults to the server logger (service `log-level-admin`). */
+  auditLogger?: LogLevelAuditLogger;
+};
+
+/** Machine-readable reasons in error responses (`error`). */
+export type LogLevelRouteError = "forbidden" | "invalid_body" | "invalid_level" | "invalid_ttl";
+
+const VALID_LEVELS: readonly string[] = ["debug", "info", "warn", "error"];
+
+function fail(status: number, error: LogLevelRouteError): Response {
+  return Response.json({ success: false, error }, { status });
+}
+
+export function createLogLevelRouteHandlers(options: LogLevelRouteOptions) {
+  const maxTtlSeconds = options.maxTtlSeconds ?? 24 * 60 * 60;
+  const audit = options.auditLogger ?? createServerLogger("log-level-admin");
+
+  // Pending automatic revert: the level to restore and when.
+  let revert: { timer: ReturnType<typeof setTimeout>; level: LogLevel; at: number } | null = null;
+
+  function clearRevert(): LogLevel | null {
+    if (!revert) return null;
+    clearTimeout(revert.timer);
+    const { level } = revert;
+    revert = null;
+    return level;
+  }
+
+  /** Apply `level` and write the audit entry at a moment (and level) where it is not filtered. */
+  function changeLevel(
+    level: LogLevel,
+    message: string,
+    context: (previousLevel: LogLevel) => Record<string, unknown>,
+  ): LogLevel {
+    const previousLevel = getLogLevel();
+    if (previousLevel === "error" && level === "error") {
+      audit.error(message, context(previousLevel));
+    } else if (previousLevel === "error") {
+      setLogLevel(level);
+      audit.warn(message, context(previousLevel));
+    } else {
+      audit.warn(message, context(previousLevel));
+      setLogLevel(level);
+    }
+    return previousLevel;
+  }
+
+  function state() {
+    return { level: getLogLevel(), revertAt: revert ? new Date(revert.at).toISOString() : null };
+  }
+
+  async function GET(request: Request): Promise<Response> {
+    if (!(await options.authorize(request))) return fail(403, "forbidden");
+    return Response.json({ success: true, ...state() }, { status: 200 });
+  }
+
+  async function PUT(request: Request): Promise<Response> {
+    if (!(await options.authorize(request))) return fail(403, "forbidden");
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return fail(400, "invalid_body");
+    }
+    if (body === null || typeof body !== "object" || Array.isArray(body)) {
+      return fail(400, "invalid_body");
+    }
+    const { level, ttlSeconds } = body;
+    if (typeof level !== "string" || !VALID_LEVELS.includes(level)) {
+      return fail(400, "invalid_level");
+    }
+    if (
+      ttlSeconds !== undefined &&
+      (typeof ttlSeconds !== "number" || !Number.isFinite(ttlSeconds) || ttlSeconds <= 0 || ttlSeconds > maxTtlSeconds)
+    ) {
+      return fail(400, "invalid_ttl");
+    }
+
+    const identity = (await options.getIdentity?.(request)) || "unknown";
+    // A new change supersedes a pending revert; a new TTL still restores the original baseline.
+    const baseline = clearRevert();
+    const requestId = getOrCreateRequestId(request.headers);
+    const previousLevel = changeLevel(level as LogLevel, "Log level changed", (from) => ({
+      event: "log_level_changed",
+      previous_level: from,
+      new_level: level,
+      identity,
+      request_id: requestId,
+      ...(ttlSeconds !== undefined && { ttl_seconds: ttlSeconds }),
+    }));
+    if (ttlSeconds !== undefined) {
+      const revertLevel = baseline ?? previousLevel;
+      const timer = setTimeout(() => {
+        revert = null;
+        changeLevel(revertLevel, "Log level reverted", (from) => ({
+          event: "log_level_changed",
+          previous_level: from,
+          new_level: revertLevel,
+          identity,
+          reason: "ttl_expired",
+        }));
+      }, ttlSeconds * 1000);
+      // Never keep the process alive just to revert the level.
+      (timer as { unref?: () => void }).unref?.();
+      revert = { timer, level: revertLevel, at: Date.now() + ttlSeconds * 1000 };
+    }
+
+    return Response.json({ success: true, previousLevel, ...state() }, { status: 200 });
+  }
+
+  return { GET, PUT };
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+  createMemorySink,
+  createOtlpHttpSink,
+  createRotatingFileSink,
+  createStdoutSink,
+  toOtlpLogsRequest,
+  type ClientLogLine,
+} from "./log-sinks";
+
+function line(overrides: Partial<ClientLogLine> = {}): ClientLogLine {
+  return {
+    level: "info",
+    message: "hello",
+    timestamp: "2024-01-01T00:00:00.000Z",
+    service: "test-ui",
+    browser_id: "b-1",
+    source: "browser",
+    url: "/",
+    ...overrides,
+  };
+}
+
+describe("createStdoutSink", () => {
+  it("writes one NDJSON line per entry", () => {
+    const writeSpy = vi.spyOn(process.stdout, "write").mockImplementation(() => true);
+    createStdoutSink().write([line(), line({ message: "second" })]);
+    expect(writeSpy).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(String(writeSpy.mock.calls[1][0]))).toMatchObject({ message: "second" });
+    writeSpy.mockRestore();
+  });
+});
+
+describe("createMemorySink", () => {
+  it("keeps only the last `capacity` lines", () => {
+    const sink = createMemorySink({ capacity: 2 });
+    sink.write([line({ message: "1" }), line({ message: "2" })]);
+    sink.write([line({ message: "3" })]);
+    expect(sink.entries().map((l) => l.message)).toEqual(["2", "3"]);
+    sink.clear();
+    expect(sink.entries()).toEqual([]);
+  });
+});
+
+describe("createRotatingFileSink", () => {
+  let dir: string;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  it("appends NDJSON and rotates when the file would exceed maxBytes", async () => {
+    dir = await mkdtemp(join(tmpdir(), "log-sinks-"));
+    const path = join(dir, "browser.ndjson");
+    const sink = createRotatingFileSink({ path, maxBytes: 300, maxFiles: 2 });
+    await sink.write([line({ message: "a" })]);
+    await sink.write([line({ message: "b" })]);
+    await sink.write([line({ message: "c" })]);
+
+    const current = (await readFile(path, "utf8")).trim().split("\n").map((l) => JSON.parse(l).message);
+    const rotated = (await readFile(`${path}.1`, "utf8")).trim().split("\n").map((l) => JSON.parse(l).message);
+    expect(current).toEqual(["c"]);
+    expect(rotated).toEqual(["a", "b"]);
+  });
+});
+
+describe("createOtlpHttpSink", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("maps lines to OTLP log records grouped by service", () => {
+    const body = toOtlpLogsRequest([line({ level: "error", request_id: "r-1", count: 3 })], { "deployment.environment": "dev" });
+    type Attribute = { key: string; value: Record<string, unknown> };
+    const resourceLogs = body.resourceLogs as Array<{
+      resource: { attributes: Attribute[] };
+      scopeLogs: Array<{ logRecords: Array<Record<string, unknown> & { attributes: Attribute[] }> }>;
+    }>;
+    expect(resourceLogs[0].resource.attributes).toEqual([
+      { key: "service.name", value: { stringValue: "test-ui" } },
+      { key: "deployment.environment", value: { stringValue: "dev" } },
+    ]);
+    const record = resourceLogs[0].scopeLogs[0].logRecords[0];
+    expect(record).toMatchObject({
+      timeUnixNano: "1704067200000000000",
+      severityNumber: 17,
+      severityText: "ERROR",
+      body: { stringValue: "hello" },
+    });
+    expect(record.attributes).toContainEqual({ key: "request_id", value: { stringValue: "r-1" } });
+    expect(record.attributes).toContainEqual({ key: "count", value: { intValue: "3" } });
+  });
+
+  it("POSTs one JSON export per batch and throws on non-2xx", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const sink = createOtlpHttpSink({ endpoint: "http://collector/v1/logs", headers: { "x-api-key": "k" } });
+    await sink.write([line(), line()]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.headers).toMatchObject({ "Content-Type": "application/json", "x-api-key": "k" });
+    expect(JSON.parse(init.body).resourceLogs[0].scopeLogs[0].logRecords).toHaveLength(2);
+
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 503 }));
+    await expect(sink.write([line()])).rejects.toThrow("503");
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Destinations for browser log lines accepted by `createClientLogsPostHandler`.
+ *
+ * Every sink receives the same normalized line shape ({@link ClientLogLine}: `level`, `message`,
+ * `timestamp`, `service`, `browser_id`, `source: "browser"`, `url`, optional `request_id`, plus
+ * the redacted entry context), one call per accepted batch. Adding a destination means adding a
+ * sink, not forking the handler.
+ *
+ * Built-ins:
+ * - {@link createStdoutSink} — NDJSON to stdout for `ob logs` / Promtail / Loki (the default)
+ * - {@link createRotatingFileSink} — NDJSON file with size-based rotation (Node only)
+ * - {@link createMemorySink} — ring buffer for tests and debug UIs
+ * - {@link createOtlpHttpSink} — OTLP/HTTP JSON logs exporter (e.g. a local OpenTelemetry collector)
+ *
+ * No top-level Node imports: the file sink loads `node:fs/promises` lazily.
+ */
+
+/** Normalized browser log line — the NDJSON shape written by the ingest handler. */
+export type ClientLogLine = {
+  level: string;
+  message: string;
+  timestamp: string;
+  service: string;
+  browser_id: string;
+  source: "browser";
+  url: string;
+  request_id?: string;
+  [key: string]: unknown;
+};
+
+export type ClientLogSink = {
+  /** Short name used when reporting sink failures. */
+  name: string;
+  /** Receives every accepted line of one batch. Failures are reported and isolated per sink. */
+  write(lines: readonly ClientLogLine[]): void | Promise<void>;
+};
+
+/** NDJSON to stdout (one JSON object per line). */
+export function createStdoutSink(): ClientLogSink {
+  return {
+    name: "stdout",
+    write(lines) {
+      if (typeof process === "undefined" || !process.stdout?.writable) return;
+      for (const line of lines) {
+        process.stdout.write(JSON.stringify(line) + "\n");
+      }
+    },
+  };
+}
+
+export type RotatingFileSinkOptions = {
+  /** File path, e.g. `/var/log/app/browser.ndjson`. Rotated files get `.1`, `.2`, ... suffixes. */
+  path: string;
+  /** Rotate when the current file would exceed this size. Default 10 MiB. */
+  maxBytes?: number;
+  /** Rotated files kept (oldest deleted). Default 5. */
+  maxFiles?: number;
+};
+
+/** NDJSON file sink with size-based rotation. Writes are serialized; Node runtime only. */
+export function createRotatingFileSink(options: RotatingFileSinkOptions): ClientLogSink {
+  const maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+  const maxFiles = options.maxFiles ?? 5;
+  let currentSize: number | null = null;
+  let chain: Promise<void> = Promise.resolve();
+
+  async function rotate(fs: typeof import("node:fs/promises")): Promise<void> {
+    await fs.rm(`${options.path}.${maxFiles}`, { force: true });
+    for (let i = maxFiles - 1; i >= 1; i--) {
+      await fs.rename(`${options.path}.${i}`, `${options.path}.${i + 1}`).catch(() => {});
+    }
+    await fs.rename(options.path, `${options.path}.1`).catch(() => {});
+    currentSize = 0;
+  }
+
+  return {
+    name: "file",
+    write(lines) {
+      if (lines.length === 0) return chain;
+      const chunk = lines.map((line) => JSON.stringify(line)).join("\n") + "\n";
+      const chunkBytes = new TextEncoder().encode(chunk).byteLength;
+      const run = chain.then(async () => {
+        const fs = await import("node:fs/promises");
+        if (currentSize === null) {
+          currentSize = await fs.stat(options.path).then((s) => s.size, () => 0);
+        }
+        if (currentSize > 0 && currentSize + chunkBytes > maxBytes) {
+          await rotate(fs);
+        }
+        await fs.appendFile(options.path, chunk, "utf8");
+        currentSize += chunkBytes;
+      });
+      // Keep the chain alive after a failure; the caller still sees this write's error.
+      chain = run.catch(() => {});
+      return run;
+    },
+  };
+}
+
+export type MemorySink = ClientLogSink & {
+  /** Buffered lines, oldest first. */
+  entries(): ClientLogLine[];
+  clear(): void;
+};
+
+/** In-memory ring buffer keeping the last `capacity` lines (default 1000). */
+export function createMemorySink(options: { capacity?: number } = {}): MemorySink {
+  const capacity = options.capacity ?? 1000;
+  let buffer: ClientLogLine[] = [];
+  return {
+    name: "memory",
+    write(lines) {
+      buffer.push(...lines);
+      if (buffer.length > capacity) {
+        buffer = buffer.slice(buffer.length - capacity);
+      }
+    },
+    entries: () => [...buffer],
+    clear() {
+      buffer = [];
+    },
+  };
+}
+
+export type OtlpHttpSinkOptions = {
+  /** Full OTLP/HTTP logs URL, e.g. `${OTEL_EXPORTER_OTLP_ENDPOINT}/v1/logs`. */
+  endpoint: string;
+  /** Extra request headers (e.g. collector auth). */
+  headers?: Record<string, string>;
+  /** Extra resource attributes (`service.name` comes from each line's `service`). */
+  resourceAttributes?: Record<string, string>;
+  /** Request timeout. Default 5000. */
+  timeoutMs?: number;
+};
+
+/** OTLP severity numbers (opentelemetry-proto logs.proto SeverityNumber). */
+const OTLP_SEVERITY: Record<string, number> = { debug: 5, info: 9, warn: 13, error: 17 };
+
+type OtlpAnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { doubleValue: number }
+  | { intValue: string };
+
+function toOtlpValue(value: unknown): OtlpAnyValue {
+  if (typeof value === "string") return { stringValue: value };
+  if (typeof value === "boolean") return { boolValue: value };
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  return { stringValue: JSON.stringify(value) ?? "" };
+}
+
+function toOtlpAttributes(record: Record<string, unknown>) {
+  return Object.entries(record)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => ({ key, value: toOtlpValue(value) }));
+}
+
+function toUnixNano(timestamp: string): string {
+  const ms = Date.parse(timestamp);
+  return `${Number.isNaN(ms) ? Date.now() : ms}000000`;
+}
+
+/** Builds an OTLP/HTTP JSON `ExportLogsServiceRequest` body (one resource per service). */
+export function toOtlpLogsRequest(
+  lines: readonly ClientLogLine[],
+  resourceAttributes: Record<string, string> = {},
+): Record<string, unknown> {
+  const byService = new Map<string, ClientLogLine[]>();
+  for (const line of lines) {
+    const group = byService.get(line.service) ?? [];
+    group.push(line);
+    byService.set(line.service, group);
+  }
+  const observed = `${Date.now()}000000`;
+  return {
+    resourceLogs: Array.from(byService, ([service, group]) => ({
+      resource: { attributes: toOtlpAttributes({ "service.name": service, ...resourceAttributes }) },
+      scopeLogs: [
+        {
+          scope: { name: "@exbrain/common-react/client-logs-ingest" },
+          logRecords: group.map(({ level, message, timestamp, service: _s, ...attributes }) => ({
+            timeUnixNano: toUnixNano(timestamp),
+            observedTimeUnixNano: observed,
+            severityNumber: OTLP_SEVERITY[level] ?? OTLP_SEVERITY.info,
+            severityText: level.toUpperCase(),
+            body: { stringValue: message },
+            attributes: toOtlpAttributes(attributes),
+          })),
+        },
+      ],
+    })),
+  };
+}
+
+/** OTLP/HTTP (JSON encoding) logs exporter — one POST per batch. */
+export function createOtlpHttpSink(options: OtlpHttpSinkOptions): ClientLogSink {
+  const timeoutMs = options.timeoutMs ?? 5000;
+  return {
+    name: "otlp",
+    async write(lines) {
+      if (lines.length === 0) return;
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        const response = await fetch(options.endpoint, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...options.headers },
+          body: JSON.stringify(toOtlpLogsRequest(lines, options.resourceAttributes)),
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          throw new Error(`OTLP export failed with status ${response.status}`);
+        }
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    },
+  };
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from "vitest";
+
+import { browserIdStep, createMiddlewarePipeline, requestIdStep, type MiddlewareStep } from "./middleware-pipeline";
+
+type FakeResponse = {
+  kind: string;
+  headers: Headers;
+  cookies: { set: ReturnType<typeof vi.fn> };
+};
+
+function response(kind = "next"): FakeResponse {
+  return { kind, headers: new Headers(), cookies: { set: vi.fn() } };
+}
+
+function logger() {
+  return { edgeLogRequest: vi.fn(), edgeLogError: vi.fn() };
+}
+
+const REQUEST_ID = "550e8400-e29b-41d4-a716-446655440000";
+
+describe("createMiddlewarePipeline", () => {
+  it("runs steps in order on one response and logs duration with the request ID", async () => {
+    const log = logger();
+    const order: string[] = [];
+    const middleware = createMiddlewarePipeline<Request, FakeResponse>(
+      [
+        requestIdStep(),
+        browserIdStep(),
+        function locale({ state }) {
+          order.push("locale");
+          state.locale = "de";
+        },
+        function readsState({ state }) {
+          order.push(`readsState:${state.locale}`);
+        },
+      ],
+      { service: "test-ui", createResponse: () => response(), logger: log },
+    );
+
+    const res = await middleware(new Request("http://localhost/things?x=1", { headers: { "X-Request-ID": REQUEST_ID } }));
+
+    expect(res.kind).toBe("next");
+    expect(res.headers.get("X-Request-ID")).toBe(REQUEST_ID);
+    expect(res.headers.get("X-Browser-ID")).toMatch(/^[0-9a-f-]{36}$/);
+    expect(order).toEqual(["locale", "readsState:de"]);
+    expect(log.edgeLogRequest).toHaveBeenCalledWith(
+      REQUEST_ID,
+      "Middleware completed",
+      expect.objectContaining({
+        method: "GET",
+        path: "/things",
+        duration_ms: expect.any(Number),
+        browser_id: res.headers.get("X-Browser-ID"),
+      }),
+    );
+  });
+
+  it("stops at the first step that returns a response", async () => {
+    const log = logger();
+    const later = vi.fn();
+    const redirect = response("redirect");
+    const middleware = createMiddlewarePipeline<Request, FakeResponse>(
+      [requestIdStep(), function authRedirect() { return redirect; }, later],
+      { service: "test-ui", createResponse: () => response(), logger: log },
+    );
+
+    expect(await middleware(new Request("http://localhost/private"))).toBe(redirect);
+    expect(later).not.toHaveBeenCalled();
+    expect(log.edgeLogRequest).toHaveBeenCalledWith(
+      expect.any(String),
+      "Middleware completed",
+      expect.objectContaining({ ended_by: "authRedirect" }),
+    );
+  });
+
+  it("copies headers and cookies of the pass-through response onto an early-returned response", async () => {
+    // Minimal NextResponse-like cookie jar with read access.
+    const withJar = (kind: string) => {
+      const jar = new Map<string, { name: string; value: string; path?: string }>();
+      return {
+        kind,
+        headers: new Headers(),
+        cookies: {
+          set: vi.fn((name: string, value: string, options?: { path?: string }) => {
+            jar.set(name, { name, value, ...options });
+          }),
+          getAll: () => [...jar.values()],
+        },
+      };
+    };
+    const passThrough = withJar("next");
+    passThrough.headers.set("x-middleware-next", "1");
+    const redirect = withJar("redirect");
+    redirect.headers.set("Location", "/login");
+    const middleware = createMiddlewarePipeline<Request, ReturnType<typeof withJar>>(
+      [
+        requestIdStep(),
+        function session({ response }) {
+          response.cookies.set("session", "stale", { path: "/" });
+          response.headers.set("Location", "/ignored");
+        },
+        function authRedirect() {
+          redirect.cookies.set("session", "", { path: "/" });
+          return redirect;
+        },
+      ],
+      { service: "test-ui", createResponse: () => passThrough, logger: logger() },
+    );
+
+    await middleware(new Request("http://localhost/private", { headers: { "X-Request-ID": REQUEST_ID } }));
+    expect(redirect.headers.get("X-Request-ID")).toBe(REQUEST_ID);
+    expect(redirect.headers.get("Location")).toBe("/login");
+    expect(redirect.headers.has("x-middleware-next")).toBe(false);
+    expect(redirect.cookies.getAll()).toEqual([
+      { name: "session", value: "", path: "/" },
+      expect.objectContaining({ name: "x-request-id", value: REQUEST_ID }),
+    ]);
+  });
+
+  it("logs and rethrows a failing step", async () => {
+    const log = logger();
+    const failing: MiddlewareStep<Request, FakeResponse> = async function negotiate() {
+      throw new Error("boom");
+    };
+    const middleware = createMiddlewarePipeline<Request, FakeResponse>([failing], {
+      service: "test-ui",
+      createResponse: () => response(),
+      logger: log,
+    });
+
+    await expect(middleware(new Request("http://localhost/", { headers: { "X-Request-ID": REQUEST_ID } }))).rejects.toThrow("boom");
+    expect(log.edgeLogError).toHaveBeenCalledWith(
+      REQUEST_ID,
+      "Middleware step failed",
+      expect.objectContaining({ step: "negotiate", error_message: "boom" }),
+    );
+    expect(log.edgeLogRequest).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Composable Next.js middleware (Edge-safe): run steps in order over one request/response pair.
+ *
+ * Replaces hand-chained `applyRequestIdToNextResponse` / `applyBrowserIdToNextResponse` / edge
+ * logging / locale / auth code in each app's `middleware.ts`:
+ *
+ *   import { NextResponse, type NextRequest } from 'next/server';
+ *   import {
+ *     createMiddlewarePipeline,
+ *     requestIdStep,
+ *     browserIdStep,
+ *   } from '@exbrain/common-react/server/middleware-pipeline';
+ *
+ *   export const middleware = createMiddlewarePipeline<NextRequest, NextResponse>(
+ *     [
+ *       requestIdStep({ secure: true }),
+ *       browserIdStep({ secure: true }),
+ *       function authRedirect({ request }) {
+ *         if (!request.cookies.has('session')) return NextResponse.redirect(new URL('/login', request.url));
+ *       },
+ *     ],
+ *     { service: 'hello-ui', createResponse: () => NextResponse.next() },
+ *   );
+ *
+ * A step that returns a response ends the pipeline early (redirect / rewrite). Headers and cookies
+ * already set on the pass-through response (request id, browser id, security headers, earlier
+ * steps' cookies) are copied onto it unless it sets them itself; Next.js' internal
+ * `x-middleware-*` headers are not. Every run logs one `Middleware completed` entry with total duration via
+ * createEdgeLogger. Uses the same duck-typed shapes as ./middleware-request-id (no `next` imports).
+ *
+ * Import from `@exbrain/common-react/server/middleware-pipeline` (no Node-only modules).
+ */
+
+import { createEdgeLogger } from "./edge-logger";
+import {
+  applyBrowserIdToNextResponse,
+  applyRequestIdToNextResponse,
+  type ApplyRequestIdToNextResponseOptions,
+  type RequestIdSource,
+  type ResponseWithRequestIdCookie,
+} from "./middleware-request-id";
+
+/** State shared by the steps of one pipeline run. */
+export type MiddlewareContext<Req, Res> = {
+  request: Req;
+  /** Response being built (from `createResponse`); steps mutate its headers / cookies. */
+  response: Res;
+  /** Set by {@link requestIdStep}; `""` until then. */
+  requestId: string;
+  /** Set by {@link browserIdStep}; `""` until then. */
+  browserId: string;
+  /** Free-form values passed between app steps (e.g. negotiated locale). */
+  state: Record<string, unknown>;
+};
+
+/**
+ * One middleware step. Return a response to stop the pipeline (redirect / rewrite / block);
+ * return nothing to continue. Named functions show up as `ended_by` in the completion log.
+ */
+export type MiddlewareStep<Req, Res> = (
+  context: MiddlewareContext<Req, Res>,
+) => Res | void | undefined | Promise<Res | void | undefined>;
+
+export type EdgePipelineLogger = Pick<ReturnType<typeof createEdgeLogger>, "edgeLogRequest" | "edgeLogError">;
+
+export type MiddlewarePipelineOptions<Req, Res> = {
+  /** Value for the `service` log field. */
+  service: string;
+  /**
+   * Creates the pass-through response for a run, e.g. `() => NextResponse.next()`. Receives the
+   * run's `state`, so values needed to build forwarded request headers (e.g. the CSP nonce) can
+   * be shared with later steps.
+   */
+  createResponse: (request: Req, state: Record<string, unknown>) => Res;
+  /** Set false to skip the per-request completion log. Default true. */
+  logRequests?: boolean;
+  /** Logger override (for testing). Defaults to `createEdgeLogger(service)`. */
+  logger?: EdgePipelineLogger;
+};
+
+/** Read access `NextResponse` offers beyond the write-only shape the steps rely on. */
+type CarriedResponse = {
+  headers: { forEach?(callback: (value: string, name: string) => void): void; has?(name: string): boolean };
+  cookies: { getAll?(): Array<{ name: string; value: string }> };
+};
+
+/** Copies headers and cookies of the pass-through response onto an early-returned one. */
+function carryOver<Res extends ResponseWithRequestIdCookie>(from: Res, to: Res): void {
+  if (from === to) return;
+  const source = from as Res & CarriedResponse;
+  const target = to as Res & CarriedResponse;
+  source.headers.forEach?.((value, name) => {
+    const key = name.toLowerCase();
+    // Cookies are copied below, one by one; `x-middleware-next` would turn a redirect into a pass-through.
+    if (key === "set-cookie" || key.startsWith("x-middleware-") || target.headers.has?.(name)) return;
+    target.headers.set(name, value);
+  });
+  const own = new Set((target.cookies.getAll?.() ?? []).map((cookie) => cookie.name));
+  for (const { name, value, ...cookieOptions } of source.cookies.getAll?.() ?? []) {
+    if (!own.has(name)) {
+      target.cookies.set(name, value, cookieOptions as Parameters<Res["cookies"]["set"]>[2]);
+    }
+  }
+}
+
+function now(): number {
+  return typeof performance !== "undefined" ? performance.now() : Date.now();
+}
+
+function describeRequest(request: unknown): Record<string, unknown> {
+  const { method, url, nextUrl } = request as { method?: string; url?: string; nextUrl?: { pathname?: string } };
+  let path = nextUrl?.pathname;
+  if (!path && url) {
+    try {
+      path = new URL(url).pathname;
+    } catch {
+      path = undefined;
+    }
+  }
+  return { ...(method && { method }), ...(path && { path }) };
+}
+
+export function createMiddlewarePipeline<
+  Req extends RequestIdSource,
+  Res extends ResponseWithRequestIdCookie,
+>(
+  steps: ReadonlyArray<MiddlewareStep<Req, Res>>,
+  options: MiddlewarePipelineOptions<Req, Res>,
+): (request: Req) => Promise<Res> {
+  const logger = options.logger ?? createEdgeLogger(options.service);
+  const logRequests = options.logRequests ?? true;
+
+  return async function middleware(request: Req): Promise<Res> {
+    const startedAt = now();
+    const state: Record<string, unknown> = {};
+    const context: MiddlewareContext<Req, Res> = {
+      request,
+      response: options.createResponse(request, state),
+      requestId: "",
+      browserId: "",
+      state,
+    };
+    const correlationId = () => context.requestId || request.headers.get("x-request-id") || "";
+    let endedBy: string | undefined;
+    let result = context.response;
+
+    for (const step of steps) {
+      let returned: Res | void | undefined;
+      try {
+        returned = await step(context);
+      } catch (error) {
+        logger.edgeLogError(correlationId(), "Middleware step failed", {
+          step: step.name || "anonymous",
+          error_message: error instanceof Error ? error.message : String(error),
+          ...describeRequest(request),
+        });
+        throw error;
+      }
+      if (returned) {
+        endedBy = step.name || "anonymous";
+        carryOver(context.response, returned);
+        result = returned;
+        break;
+      }
+    }
+
+    if (logRequests) {
+      logger.edgeLogRequest(correlationId(), "Middleware completed", {
+        ...describeRequest(request),
+        duration_ms: Math.round((now() - startedAt) * 100) / 100,
+        ...(context.browserId && { browser_id: context.browserId }),
+        ...(endedBy && { ended_by: endedBy }),
+      });
+    }
+    return result;
+  };
+}
+
+/** Built-in step: `X-Request-ID` header + `x-request-id` cookie (see applyRequestIdToNextResponse). */
+export function requestIdStep<Req extends RequestIdSource, Res extends ResponseWithRequestIdCookie>(
+  options?: ApplyRequestIdToNextResponseOptions,
+): MiddlewareStep<Req, Res> {
+  return function requestId(context) {
+    context.requestId = applyRequestIdToNextResponse(context.request, context.response, options);
+  };
+}
+
+/** Built-in step: `X-Browser-ID` header + `x-browser-id` cookie (see applyBrowserIdToNextResponse). */
+export function browserIdStep<Req extends RequestIdSource, Res extends ResponseWithRequestIdCookie>(
+  options?: ApplyRequestIdToNextResponseOptions,
+): MiddlewareStep<Req, Res> {
+  return function browserId(context) {
+    context.browserId = applyBrowserIdToNextResponse(context.request, context.response, options);
+  };
+}
@@ -4,6 +4,8 @@ import {
   applyRequestIdToNextResponse,
   applyBrowserIdToNextResponse,
   resolveRequestIdFromRequest,
+  resolveTraceContextFromRequest,
+  applyTraceContextToNextResponse,
   DEFAULT_REQUEST_ID_COOKIE_NAME,
   DEFAULT_BROWSER_ID_COOKIE_NAME,
 } from "./middleware-request-id";
@@ -106,4 +108,40 @@ describe("middleware-request-id", () => {
       }),
     );
   });
+
+  it("resolveTraceContextFromRequest continues a valid trace with a new span", () => {
+    const req = new Request("http://localhost/", {
+      headers: {
+        traceparent: "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-00",
+        tracestate: "rojo=00f067aa0ba902b7",
+      },
+    });
+    const trace = resolveTraceContextFromRequest(req);
+    expect(trace).toMatchObject({
+      traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+      sampled: false,
+      traceState: "rojo=00f067aa0ba902b7",
+    });
+    expect(trace.spanId).not.toBe("00f067aa0ba902b7");
+  });
+
+  it("resolveTraceContextFromRequest starts a new trace when traceparent is invalid", () => {
+    const req = new Request("http://localhost/", {
+      headers: { traceparent: "00-00000000000000000000000000000000-00f067aa0ba902b7-01" },
+    });
+    const trace = resolveTraceContextFromRequest(req);
+    expect(trace.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(trace.traceId).not.toBe("0".repeat(32));
+    expect(trace.traceState).toBeUndefined();
+  });
+
+  it("applyTraceContextToNextResponse sets traceparent and tracestate headers", () => {
+    const headers = new Headers();
+    applyTraceContextToNextResponse(
+      { headers },
+      { traceId: "4bf92f3577b34da6a3ce929d0e0e4736", spanId: "b7ad6b7169203331", sampled: true, traceState: "a=1" },
+    );
+    expect(headers.get("traceparent")).toBe("00-4bf92f3577b34da6a3ce929d0e0e4736-b7ad6b7169203331-01");
+    expect(headers.get("tracestate")).toBe("a=1");
+  });
 });
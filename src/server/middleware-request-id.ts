@@ -1,5 +1,6 @@
 /**
- * Next.js middleware helpers (Edge-safe): `X-Request-ID` response header + `x-request-id` cookie.
+ * Next.js middleware helpers (Edge-safe): `X-Request-ID` response header + `x-request-id` cookie,
+ * and W3C `traceparent` / `tracestate` (continue the incoming trace or start one).
  * Matches hello-ui / exbrain-ui contract with `@exbrain/common-react/request-id` in the browser.
  *
  * Uses duck-typed request/response shapes (no `next` imports) so apps typecheck against their
@@ -10,6 +11,17 @@
  * does not pull in Node-only modules (e.g. client log ingest).
  */
 
+import {
+  continueTrace,
+  getTraceHeaders,
+  TRACEPARENT_HEADER,
+  TRACESTATE_HEADER,
+  type TraceContext,
+} from "../utils/trace-context";
+
+// Re-exported so middleware can forward trace headers without importing the package barrel.
+export { getTraceHeaders, type TraceContext };
+
 /** Incoming request with Headers (`NextRequest` satisfies this). */
 export type RequestIdSource = {
   headers: {
@@ -79,7 +91,8 @@ export type ApplyRequestIdToNextResponseOptions = {
   secure?: boolean;
 };
 
-function parseCookieValue(cookieHeader: string, name: string): string {
+/** Value of cookie `name` in a `Cookie` request header, or `""` when absent. */
+export function parseCookieValue(cookieHeader: string, name: string): string {
   const parts = cookieHeader.split(";");
   for (const part of parts) {
     const trimmed = part.trim();
@@ -150,3 +163,34 @@ export function applyBrowserIdToNextResponse(
   });
   return browserId;
 }
+
+/**
+ * Continues the incoming trace (`traceparent` / `tracestate`) as a new middleware span, or starts
+ * a new trace when the header is missing or invalid.
+ */
+export function resolveTraceContextFromRequest(request: RequestIdSource): TraceContext {
+  return continueTrace(request.headers.get(TRACEPARENT_HEADER), request.headers.get(TRACESTATE_HEADER));
+}
+
+/**
+ * Sets `traceparent` (and `tracestate`) on the response for the middleware span.
+ * Forward the same headers on the rewritten request so route handlers (runWithRequestContext,
+ * fetchWithTimeout) join the trace:
+ *
+ *   const requestHeaders = new Headers(request.headers);
+ *   const trace = resolveTraceContextFromRequest(request);
+ *   Object.entries(getTraceHeaders(trace)).forEach(([k, v]) => requestHeaders.set(k, v));
+ *   const response = NextResponse.next({ request: { headers: requestHeaders } });
+ *   applyTraceContextToNextResponse(response, trace);
+ *
+ * @returns The trace context applied (for edge logging: `trace_id` / `span_id`).
+ */
+export function applyTraceContextToNextResponse(
+  response: { headers: { set(name: string, value: string): void } },
+  trace: TraceContext,
+): TraceContext {
+  for (const [name, value] of Object.entries(getTraceHeaders(trace))) {
+    response.headers.set(name, value);
+  }
+  return trace;
+}
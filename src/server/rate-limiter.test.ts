@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+
+import { createRateLimiter, getClientIp } from "./rate-limiter";
+
+describe("createRateLimiter", () => {
+  it("allows maxRequests per window, then reports retryAfterSeconds", () => {
+    const limiter = createRateLimiter({ maxRequests: 2, windowMs: 10_000 });
+    expect(limiter.check("a", 0)).toEqual({ allowed: true, remaining: 1 });
+    expect(limiter.check("a", 1000)).toEqual({ allowed: true, remaining: 0 });
+    expect(limiter.check("a", 2500)).toEqual({ allowed: false, retryAfterSeconds: 8 });
+  });
+
+  it("starts a fresh window after windowMs", () => {
+    const limiter = createRateLimiter({ maxRequests: 1, windowMs: 1000 });
+    expect(limiter.check("a", 0).allowed).toBe(true);
+    expect(limiter.check("a", 500).allowed).toBe(false);
+    expect(limiter.check("a", 1000).allowed).toBe(true);
+  });
+
+  it("tracks keys independently and bounds memory", () => {
+    const limiter = createRateLimiter({ maxRequests: 1, windowMs: 60_000, maxKeys: 2 });
+    expect(limiter.check("a", 0).allowed).toBe(true);
+    expect(limiter.check("b", 0).allowed).toBe(true);
+    // Adding a third key evicts the oldest ("a"), which then starts over
+    expect(limiter.check("c", 0).allowed).toBe(true);
+    expect(limiter.check("a", 0).allowed).toBe(true);
+  });
+});
+
+describe("getClientIp", () => {
+  const request = (headers: Record<string, string>) => new Request("http://app.example/", { headers });
+
+  it("uses the hop appended by the trusted proxy, not client-supplied entries", () => {
+    const forged = request({ "x-forwarded-for": "198.51.100.7, 203.0.113.1", "x-real-ip": "10.0.0.2" });
+    expect(getClientIp(forged)).toBe("203.0.113.1");
+    expect(getClientIp(forged, 2)).toBe("198.51.100.7");
+  });
+
+  it("falls back to x-real-ip, then unknown", () => {
+    expect(getClientIp(request({ "x-real-ip": "10.0.0.2" }))).toBe("10.0.0.2");
+    expect(getClientIp(request({ "x-forwarded-for": "203.0.113.1" }), 2)).toBe("unknown");
+    expect(getClientIp(request({}))).toBe("unknown");
+  });
+});
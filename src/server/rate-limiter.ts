@@ -0,0 +1,83 @@
+/**
+ * In-memory fixed-window rate limiter for route handlers.
+ *
+ * State is module/closure-level (one instance per process), like log-level-manager: fine for
+ * protecting a single Next.js process from floods, not a distributed quota. Keys are whatever
+ * the caller chooses (browser_id, client IP, ...); they are held in memory only and never logged.
+ *
+ * Edge-safe: no Node APIs.
+ */
+
+export type RateLimitOptions = {
+  /** Requests allowed per key per window. */
+  maxRequests: number;
+  /** Window length in milliseconds. */
+  windowMs: number;
+  /** Upper bound on tracked keys; expired windows are pruned first. Default 10000. */
+  maxKeys?: number;
+};
+
+export type RateLimitResult =
+  | { allowed: true; remaining: number }
+  | { allowed: false; retryAfterSeconds: number };
+
+export type RateLimiter = {
+  /** Counts one request for `key` and reports whether it is within the limit. */
+  check(key: string, now?: number): RateLimitResult;
+};
+
+export function createRateLimiter(options: RateLimitOptions): RateLimiter {
+  const { maxRequests, windowMs } = options;
+  const maxKeys = options.maxKeys ?? 10000;
+  const windows = new Map<string, { start: number; count: number }>();
+
+  function prune(now: number): void {
+    for (const [key, window] of windows) {
+      if (now - window.start >= windowMs) windows.delete(key);
+    }
+    // Still full (many distinct active keys): drop the oldest to bound memory.
+    while (windows.size >= maxKeys) {
+      const oldest = windows.keys().next().value;
+      if (oldest === undefined) break;
+      windows.delete(oldest);
+    }
+  }
+
+  return {
+    check(key, now = Date.now()) {
+      let window = windows.get(key);
+      if (!window || now - window.start >= windowMs) {
+        if (!window && windows.size >= maxKeys) prune(now);
+        window = { start: now, count: 0 };
+        windows.set(key, window);
+      }
+      window.count++;
+      if (window.count > maxRequests) {
+        return { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil((window.start + windowMs - now) / 1000)) };
+      }
+      return { allowed: true, remaining: maxRequests - window.count };
+    },
+  };
+}
+
+/**
+ * Client IP as seen by the trusted proxy in front of the app: the `x-forwarded-for` entry
+ * `trustedProxyHops` from the end (each trusted proxy appends the address it received the
+ * request from), else `x-real-ip`, else `"unknown"`. Entries further left are client-supplied
+ * and never used.
+ *
+ * Only safe behind a proxy that appends to (or overwrites) `x-forwarded-for` and `x-real-ip`;
+ * an app reachable directly gets forgeable keys. Pass a `getClientKey` to the handlers for
+ * other setups. Rate-limit key material only: golden §7 forbids logging it.
+ */
+export function getClientIp(request: Request, trustedProxyHops = 1): string {
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return (
+    (trustedProxyHops > 0 ? hops[hops.length - trustedProxyHops] : undefined) ||
+    request.headers.get("x-real-ip")?.trim() ||
+    "unknown"
+  );
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+import { getRequestContext, runWithRequestContext } from "./request-context";
+import { fetchWithTimeout } from "./fetcher";
+import { getAmbientLogContext } from "../utils/log-context";
+import { createContextLogger } from "../utils/context-logger";
+import type { Logger } from "../utils/logger";
+
+function request(headers: Record<string, string> = {}) {
+  return new Request("http://localhost/api/things", { headers });
+}
+
+describe("runWithRequestContext", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("exposes request_id, tenant_id and service across awaits", async () => {
+    const fields = await runWithRequestContext(
+      request({ "X-Request-ID": "req-1" }),
+      async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return getAmbientLogContext();
+      },
+      { service: "hello-ui", tenantId: "t-1" },
+    );
+    expect(fields).toEqual({
+      request_id: "req-1",
+      tenant_id: "t-1",
+      service: "hello-ui",
+      trace_id: expect.stringMatching(/^[0-9a-f]{32}$/),
+      span_id: expect.stringMatching(/^[0-9a-f]{16}$/),
+    });
+    expect(getRequestContext()).toBeUndefined();
+    expect(getAmbientLogContext()).toBeUndefined();
+  });
+
+  it("generates a request ID when the request has none", () => {
+    const context = runWithRequestContext(request(), () => getRequestContext());
+    expect(context?.requestId).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it("forwards the current request ID from fetchWithTimeout", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null));
+    vi.stubGlobal("fetch", fetchMock);
+    await runWithRequestContext(request({ "X-Request-ID": "req-2" }), () => fetchWithTimeout("http://upstream/"));
+    expect((fetchMock.mock.calls[0][1].headers as Headers).get("X-Request-ID")).toBe("req-2");
+  });
+
+  it("continues the incoming trace and sends a child span from fetchWithTimeout", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null));
+    vi.stubGlobal("fetch", fetchMock);
+    const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+    const incoming = request({ traceparent: `00-${traceId}-00f067aa0ba902b7-01`, tracestate: "congo=t61rcWkgMzE" });
+    const handlerSpan = await runWithRequestContext(incoming, async () => {
+      await fetchWithTimeout("http://upstream/");
+      return getRequestContext()?.trace;
+    });
+    expect(handlerSpan).toMatchObject({ traceId, sampled: true, traceState: "congo=t61rcWkgMzE" });
+    const headers = fetchMock.mock.calls[0][1].headers as Headers;
+    const [, sentTraceId, sentSpanId] = headers.get("traceparent")!.split("-");
+    expect(sentTraceId).toBe(traceId);
+    expect(sentSpanId).not.toBe(handlerSpan?.spanId);
+    expect(headers.get("tracestate")).toBe("congo=t61rcWkgMzE");
+  });
+
+  it("gives createContextLogger the current request_id when there is no cookie", () => {
+    const baseLogger = {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      setLevel: vi.fn(),
+      getLevel: vi.fn(() => "info" as const),
+    } satisfies Logger;
+    runWithRequestContext(request({ "X-Request-ID": "req-3" }), () => {
+      createContextLogger("Things", baseLogger).info("loaded");
+    });
+    expect(baseLogger.info).toHaveBeenCalledWith("loaded", expect.objectContaining({ service: "Things", request_id: "req-3" }));
+  });
+});
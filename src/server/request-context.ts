@@ -0,0 +1,99 @@
+/**
+ * Per-request context for server logging, built on Node `AsyncLocalStorage`.
+ *
+ * Inside `runWithRequestContext(request, fn)` every server log entry (logger, createServerLogger,
+ * createContextLogger, patched `console.*`) carries the request's `request_id`, `tenant_id`,
+ * `service` and W3C `trace_id` / `span_id`, and `fetchWithTimeout` forwards the same X-Request-ID
+ * plus a child `traceparent` — no manual threading.
+ *
+ * Deadlines: the caller's remaining time budget arrives in {@link DEADLINE_HEADER} (milliseconds);
+ * `createUpstreamFetch` forwards what is left of it and shortens its timeouts accordingly.
+ *
+ * Usage (route handler):
+ *   import { runWithRequestContext } from '@exbrain/common-react/server/request-context';
+ *   export function GET(request: Request) {
+ *     return runWithRequestContext(request, () => handle(request), { service: 'hello-ui', tenantId });
+ *   }
+ *
+ * Importing this module registers the ambient provider with the shared logger
+ * (utils/log-context). Node runtime only.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { LOG_SCHEMA_FIELDS } from '../utils/log-schema';
+import { registerLogContextProvider } from '../utils/log-context';
+import { continueTrace, TRACEPARENT_HEADER, TRACESTATE_HEADER, type TraceContext } from '../utils/trace-context';
+import { getOrCreateRequestId } from './requestId';
+
+/** Remaining time budget in milliseconds, sent upstream and read from incoming requests. */
+export const DEADLINE_HEADER = 'X-Request-Timeout-Ms';
+
+export type RequestContext = {
+  requestId: string;
+  tenantId?: string;
+  service?: string;
+  /** This request's span: continues the incoming `traceparent`, or a new trace. */
+  trace: TraceContext;
+  /** Epoch ms by which the response is due (from DEADLINE_HEADER and/or `timeoutMs`). */
+  deadline?: number;
+};
+
+export type RunWithRequestContextOptions = {
+  /** Value for the `service` log field while the request runs. */
+  service?: string;
+  /** Active tenant ID (multi-tenant apps). */
+  tenantId?: string | null;
+  /** Time budget for this handler in ms; the incoming DEADLINE_HEADER can only shorten it. */
+  timeoutMs?: number;
+};
+
+function resolveDeadline(headerValue: string | null, timeoutMs: number | undefined, now: number): number | undefined {
+  const fromHeader = headerValue && /^\d+$/.test(headerValue.trim()) ? Number(headerValue.trim()) : undefined;
+  const budgets = [fromHeader, timeoutMs].filter((value): value is number => value !== undefined && value >= 0);
+  return budgets.length > 0 ? now + Math.min(...budgets) : undefined;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+registerLogContextProvider(() => {
+  const context = storage.getStore();
+  if (!context) return undefined;
+  const fields: Record<string, unknown> = { [LOG_SCHEMA_FIELDS.request_id]: context.requestId };
+  if (context.tenantId) fields[LOG_SCHEMA_FIELDS.tenant_id] = context.tenantId;
+  if (context.service) fields[LOG_SCHEMA_FIELDS.service] = context.service;
+  fields[LOG_SCHEMA_FIELDS.trace_id] = context.trace.traceId;
+  fields[LOG_SCHEMA_FIELDS.span_id] = context.trace.spanId;
+  return fields;
+});
+
+/**
+ * Runs `fn` with the request's context available to every log call and outgoing
+ * `fetchWithTimeout` made from it, including across `await`s. request_id comes from X-Request-ID
+ * (or a new UUID); the span continues the incoming `traceparent` (or starts a new trace).
+ */
+export function runWithRequestContext<T>(
+  request: { headers: Headers | { get: (name: string) => string | null } },
+  fn: () => T,
+  options: RunWithRequestContextOptions = {},
+): T {
+  const context: RequestContext = {
+    requestId: getOrCreateRequestId(request.headers),
+    trace: continueTrace(request.headers.get(TRACEPARENT_HEADER), request.headers.get(TRACESTATE_HEADER)),
+  };
+  if (options.tenantId) context.tenantId = options.tenantId;
+  if (options.service) context.service = options.service;
+  const deadline = resolveDeadline(request.headers.get(DEADLINE_HEADER), options.timeoutMs, Date.now());
+  if (deadline !== undefined) context.deadline = deadline;
+  return storage.run(context, fn);
+}
+
+/** The current request context, or undefined outside `runWithRequestContext`. */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/** Milliseconds left before the current request's deadline, or undefined without one. */
+export function getRemainingTimeMs(now: number = Date.now()): number | undefined {
+  const deadline = storage.getStore()?.deadline;
+  return deadline === undefined ? undefined : Math.max(0, deadline - now);
+}
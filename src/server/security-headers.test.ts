@@ -0,0 +1,146 @@
+import { describe, it, expect, vi } from "vitest";
+
+import { createMiddlewarePipeline } from "./middleware-pipeline";
+import {
+  applySecurityHeaders,
+  buildContentSecurityPolicy,
+  createCspNonce,
+  CSP_NONCE_SOURCE,
+  getCspNonce,
+  securityHeadersStep,
+  withCspNonce,
+} from "./security-headers";
+
+function response() {
+  return { headers: new Headers(), cookies: { set: vi.fn() } };
+}
+
+const request = new Request("https://app.example/dashboard");
+
+describe("buildContentSecurityPolicy", () => {
+  it("serializes the defaults with the nonce", () => {
+    expect(buildContentSecurityPolicy(undefined, "abc")).toBe(
+      [
+        "default-src 'self'",
+        "script-src 'self' 'nonce-abc' 'strict-dynamic'",
+        "style-src 'self' 'unsafe-inline'",
+        "img-src 'self' data: blob:",
+        "font-src 'self' data:",
+        "connect-src 'self'",
+        "object-src 'none'",
+        "base-uri 'self'",
+        "form-action 'self'",
+        "frame-ancestors 'none'",
+        "upgrade-insecure-requests",
+      ].join("; "),
+    );
+  });
+
+  it("merges directives per key, drops empty lists and adds reporting", () => {
+    const policy = buildContentSecurityPolicy(
+      {
+        "connect-src": ["'self'", "wss://events.example"],
+        "img-src": [],
+        "upgrade-insecure-requests": false,
+        "report-uri": "/api/csp-report",
+      },
+      "n1",
+    );
+    expect(policy).toContain("connect-src 'self' wss://events.example");
+    expect(policy).not.toContain("img-src");
+    expect(policy).not.toContain("upgrade-insecure-requests");
+    expect(policy).toContain("report-uri /api/csp-report");
+  });
+
+  it("omits the nonce placeholder without a nonce", () => {
+    expect(buildContentSecurityPolicy({ "script-src": ["'self'", CSP_NONCE_SOURCE] })).toContain("script-src 'self';");
+  });
+});
+
+describe("applySecurityHeaders", () => {
+  it("sets CSP, HSTS, Referrer-Policy, Permissions-Policy and nosniff", () => {
+    const res = response();
+    const { nonce, policy } = applySecurityHeaders(request, res);
+    expect(nonce).toMatch(/^[A-Za-z0-9+/]{22}==$/);
+    expect(res.headers.get("Content-Security-Policy")).toBe(policy);
+    expect(policy).toContain(`'nonce-${nonce}'`);
+    expect(res.headers.get("Strict-Transport-Security")).toBe("max-age=63072000; includeSubDomains");
+    expect(res.headers.get("Referrer-Policy")).toBe("strict-origin-when-cross-origin");
+    expect(res.headers.get("Permissions-Policy")).toBe("camera=(), microphone=(), geolocation=(), payment=()");
+    expect(res.headers.get("X-Content-Type-Options")).toBe("nosniff");
+  });
+
+  it("supports report-only mode and custom options", () => {
+    const res = response();
+    applySecurityHeaders(request, res, {
+      nonce: "fixed",
+      reportOnly: true,
+      hsts: { maxAgeSeconds: 300, includeSubDomains: false, preload: true },
+      referrerPolicy: "no-referrer",
+      permissionsPolicy: { camera: ["self", "https://meet.example"], geolocation: ["*"] },
+    });
+    expect(res.headers.get("Content-Security-Policy")).toBeNull();
+    expect(res.headers.get("Content-Security-Policy-Report-Only")).toContain("'nonce-fixed'");
+    expect(res.headers.get("Strict-Transport-Security")).toBe("max-age=300; preload");
+    expect(res.headers.get("Referrer-Policy")).toBe("no-referrer");
+    expect(res.headers.get("Permissions-Policy")).toBe(
+      'camera=(self "https://meet.example"), microphone=(), geolocation=(*), payment=()',
+    );
+  });
+
+  it("can disable CSP, HSTS and Permissions-Policy", () => {
+    const res = response();
+    const result = applySecurityHeaders(request, res, { directives: false, hsts: false, permissionsPolicy: false });
+    expect(result.policy).toBe("");
+    expect(res.headers.has("Content-Security-Policy")).toBe(false);
+    expect(res.headers.has("Strict-Transport-Security")).toBe(false);
+    expect(res.headers.has("Permissions-Policy")).toBe(false);
+    expect(res.headers.get("X-Content-Type-Options")).toBe("nosniff");
+  });
+});
+
+describe("nonce forwarding", () => {
+  it("creates distinct nonces", () => {
+    expect(createCspNonce()).not.toBe(createCspNonce());
+  });
+
+  it("forwards the nonce and policy on the request headers for server components", () => {
+    const headers = withCspNonce(new Request("https://app.example/", { headers: { cookie: "a=1" } }), "n2");
+    expect(getCspNonce(headers)).toBe("n2");
+    expect(headers.get("Content-Security-Policy")).toContain("'nonce-n2'");
+    expect(headers.get("cookie")).toBe("a=1");
+    expect(getCspNonce(new Headers())).toBeUndefined();
+  });
+
+  it("securityHeadersStep uses the nonce created in createResponse", async () => {
+    const res = response();
+    let forwarded: Headers | undefined;
+    const middleware = createMiddlewarePipeline<Request, ReturnType<typeof response>>([securityHeadersStep()], {
+      service: "test",
+      logRequests: false,
+      createResponse: (req, state) => {
+        const nonce = createCspNonce();
+        state.cspNonce = nonce;
+        forwarded = withCspNonce(req, nonce);
+        return res;
+      },
+    });
+    await middleware(request);
+    const nonce = forwarded?.get("x-nonce");
+    expect(nonce).toBeTruthy();
+    expect(res.headers.get("Content-Security-Policy")).toContain(`'nonce-${nonce}'`);
+  });
+
+  it("securityHeadersStep fails instead of generating a nonce the request never sees", async () => {
+    const res = response();
+    const logger = { edgeLogRequest: vi.fn(), edgeLogError: vi.fn() };
+    const middleware = createMiddlewarePipeline<Request, ReturnType<typeof response>>([securityHeadersStep()], {
+      service: "test",
+      logger,
+      createResponse: () => res,
+    });
+    await expect(middleware(request)).rejects.toThrow("state.cspNonce is missing");
+    expect(logger.edgeLogError).toHaveBeenCalledWith("", "Middleware step failed", expect.objectContaining({ step: "securityHeaders" }));
+    expect(res.headers.has("Content-Security-Policy")).toBe(false);
+  });
+});
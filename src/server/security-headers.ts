@@ -0,0 +1,241 @@
+/**
+ * Security response headers for Next.js middleware (Edge-safe): Content-Security-Policy with a
+ * per-request nonce, Strict-Transport-Security, Referrer-Policy, Permissions-Policy and
+ * X-Content-Type-Options — one shared, typed policy instead of per-app header lists.
+ *
+ * Next.js only puts the nonce on its own scripts when the *request* carries the policy, so the
+ * nonce is created before the response and forwarded with {@link withCspNonce}:
+ *
+ *   const security: SecurityHeadersOptions = { directives: { 'connect-src': ["'self'", IAM_ORIGIN] } };
+ *
+ *   export function middleware(request: NextRequest) {
+ *     const nonce = createCspNonce();
+ *     const response = NextResponse.next({ request: { headers: withCspNonce(request, nonce, security) } });
+ *     applySecurityHeaders(request, response, { ...security, nonce });
+ *     return response;
+ *   }
+ *
+ * With createMiddlewarePipeline, create the nonce in `createResponse` (stored in `state.cspNonce`)
+ * and add {@link securityHeadersStep}. Server components read it with `getCspNonce(await headers())`.
+ *
+ * Uses the same duck-typed shapes as ./middleware-request-id (no `next` imports).
+ */
+
+import type { MiddlewareStep } from "./middleware-pipeline";
+import type { RequestIdSource } from "./middleware-request-id";
+
+/** Request header carrying the nonce to server components. */
+export const CSP_NONCE_HEADER = "x-nonce";
+
+/** Placeholder in directive sources, replaced by `'nonce-<value>'` for each request. */
+export const CSP_NONCE_SOURCE = "'nonce'";
+
+export type CspSourceListDirective =
+  | "default-src"
+  | "script-src"
+  | "script-src-elem"
+  | "script-src-attr"
+  | "style-src"
+  | "style-src-elem"
+  | "style-src-attr"
+  | "img-src"
+  | "font-src"
+  | "connect-src"
+  | "media-src"
+  | "object-src"
+  | "frame-src"
+  | "child-src"
+  | "worker-src"
+  | "manifest-src"
+  | "frame-ancestors"
+  | "form-action"
+  | "base-uri";
+
+/**
+ * CSP as a typed object. Source lists are arrays (an empty array drops the directive);
+ * `CSP_NONCE_SOURCE` inside a list becomes the request nonce.
+ */
+export type CspDirectives = Partial<Record<CspSourceListDirective, readonly string[]>> & {
+  "upgrade-insecure-requests"?: boolean;
+  sandbox?: boolean | readonly string[];
+  /** Legacy reporting endpoint (path or URL), e.g. the createCspReportHandler route. */
+  "report-uri"?: string;
+  /** Reporting API endpoint group name (requires a `Reporting-Endpoints` header). */
+  "report-to"?: string;
+};
+
+/** Baseline policy: nonce-based scripts, no plugins, no framing, same-origin everything else. */
+export const DEFAULT_CSP_DIRECTIVES: CspDirectives = {
+  "default-src": ["'self'"],
+  "script-src": ["'self'", CSP_NONCE_SOURCE, "'strict-dynamic'"],
+  // Component libraries set inline `style` attributes, which nonces do not cover.
+  "style-src": ["'self'", "'unsafe-inline'"],
+  "img-src": ["'self'", "data:", "blob:"],
+  "font-src": ["'self'", "data:"],
+  "connect-src": ["'self'"],
+  "object-src": ["'none'"],
+  "base-uri": ["'self'"],
+  "form-action": ["'self'"],
+  "frame-ancestors": ["'none'"],
+  "upgrade-insecure-requests": true,
+};
+
+export type HstsOptions = {
+  /** Default two years. */
+  maxAgeSeconds?: number;
+  /** Default true. */
+  includeSubDomains?: boolean;
+  /** Default false; only enable once the domain is submitted to the preload list. */
+  preload?: boolean;
+};
+
+export type SecurityHeadersOptions = {
+  /** Merged over {@link DEFAULT_CSP_DIRECTIVES} per directive; `false` disables CSP entirely. */
+  directives?: CspDirectives | false;
+  /** Send `Content-Security-Policy-Report-Only` instead of enforcing (rollout / tuning). */
+  reportOnly?: boolean;
+  /** Nonce for this request; generated when omitted. */
+  nonce?: string;
+  /** `false` omits Strict-Transport-Security (e.g. plain-HTTP local development). */
+  hsts?: HstsOptions | false;
+  /** Default `strict-origin-when-cross-origin`. */
+  referrerPolicy?: string;
+  /**
+   * Feature → allowlist (`[]` disables, `"self"`, `"*"` or origins), merged over the defaults
+   * (camera, microphone, geolocation, payment disabled); `false` omits the header.
+   */
+  permissionsPolicy?: Record<string, readonly string[]> | false;
+};
+
+export type SecurityHeadersResult = {
+  nonce: string;
+  /** The serialized policy ("" when CSP is disabled). */
+  policy: string;
+};
+
+const DEFAULT_PERMISSIONS_POLICY: Record<string, readonly string[]> = {
+  camera: [],
+  microphone: [],
+  geolocation: [],
+  payment: [],
+};
+
+/** 128-bit random nonce, base64 encoded. */
+export function createCspNonce(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function resolveDirectives(directives: CspDirectives | undefined): CspDirectives {
+  return { ...DEFAULT_CSP_DIRECTIVES, ...directives };
+}
+
+/** Serializes directives (merged over the defaults) into a policy string. */
+export function buildContentSecurityPolicy(directives?: CspDirectives, nonce?: string): string {
+  const parts: string[] = [];
+  for (const [name, value] of Object.entries(resolveDirectives(directives))) {
+    if (value === undefined || value === false) continue;
+    if (value === true) {
+      parts.push(name);
+    } else if (typeof value === "string") {
+      if (value) parts.push(`${name} ${value}`);
+    } else {
+      const sources = (value as readonly string[])
+        .map((source) => (source === CSP_NONCE_SOURCE ? (nonce ? `'nonce-${nonce}'` : "") : source))
+        .filter(Boolean);
+      if (name === "sandbox") parts.push(sources.length > 0 ? `${name} ${sources.join(" ")}` : name);
+      else if (sources.length > 0) parts.push(`${name} ${sources.join(" ")}`);
+    }
+  }
+  return parts.join("; ");
+}
+
+function formatPermissionsPolicy(policy: Record<string, readonly string[]>): string {
+  return Object.entries(policy)
+    .map(([feature, allowlist]) => {
+      const items = allowlist.map((item) => (item === "self" || item === "*" ? item : `"${item}"`));
+      return `${feature}=(${items.join(" ")})`;
+    })
+    .join(", ");
+}
+
+function formatHsts(options: HstsOptions): string {
+  const parts = [`max-age=${options.maxAgeSeconds ?? 63_072_000}`];
+  if (options.includeSubDomains ?? true) parts.push("includeSubDomains");
+  if (options.preload) parts.push("preload");
+  return parts.join("; ");
+}
+
+/**
+ * Copy of the request headers with the nonce (CSP_NONCE_HEADER) and the policy, for
+ * `NextResponse.next({ request: { headers } })`: server components and Next.js itself read them.
+ */
+export function withCspNonce(
+  request: { headers: Headers },
+  nonce: string,
+  options: Pick<SecurityHeadersOptions, "directives"> = {},
+): Headers {
+  const headers = new Headers(request.headers);
+  headers.set(CSP_NONCE_HEADER, nonce);
+  if (options.directives !== false) {
+    headers.set("Content-Security-Policy", buildContentSecurityPolicy(options.directives, nonce));
+  }
+  return headers;
+}
+
+/** The request's CSP nonce in server components: `getCspNonce(await headers())`. */
+export function getCspNonce(headers: { get(name: string): string | null }): string | undefined {
+  return headers.get(CSP_NONCE_HEADER) ?? undefined;
+}
+
+/**
+ * Sets Content-Security-Policy (or -Report-Only), Strict-Transport-Security, Referrer-Policy,
+ * Permissions-Policy and `X-Content-Type-Options: nosniff` on the response. The request is
+ * unused today; the signature matches applyRequestIdToNextResponse.
+ * @returns The nonce and policy applied.
+ */
+export function applySecurityHeaders(
+  _request: RequestIdSource,
+  response: { headers: { set(name: string, value: string): void } },
+  options: SecurityHeadersOptions = {},
+): SecurityHeadersResult {
+  const nonce = options.nonce ?? createCspNonce();
+  let policy = "";
+  if (options.directives !== false) {
+    policy = buildContentSecurityPolicy(options.directives, nonce);
+    response.headers.set(options.reportOnly ? "Content-Security-Policy-Report-Only" : "Content-Security-Policy", policy);
+  }
+  if (options.hsts !== false) {
+    response.headers.set("Strict-Transport-Security", formatHsts(options.hsts ?? {}));
+  }
+  response.headers.set("Referrer-Policy", options.referrerPolicy ?? "strict-origin-when-cross-origin");
+  if (options.permissionsPolicy !== false) {
+    response.headers.set(
+      "Permissions-Policy",
+      formatPermissionsPolicy({ ...DEFAULT_PERMISSIONS_POLICY, ...options.permissionsPolicy }),
+    );
+  }
+  response.headers.set("X-Content-Type-Options", "nosniff");
+  return { nonce, policy };
+}
+
+/**
+ * Pipeline step: {@link applySecurityHeaders} with the nonce from `state.cspNonce` (set it in
+ * `createResponse` together with {@link withCspNonce}). Throws when the nonce is missing and a
+ * policy is configured: a nonce made here would never reach the request headers, so Next.js
+ * scripts would be blocked without any error.
+ */
+export function securityHeadersStep<
+  Req extends RequestIdSource,
+  Res extends { headers: { set(name: string, value: string): void } },
+>(options: Omit<SecurityHeadersOptions, "nonce"> = {}): MiddlewareStep<Req, Res> {
+  return function securityHeaders(context) {
+    const nonce = typeof context.state.cspNonce === "string" ? context.state.cspNonce : undefined;
+    if (!nonce && options.directives !== false) {
+      throw new Error("securityHeadersStep: state.cspNonce is missing; create it in createResponse with withCspNonce");
+    }
+    applySecurityHeaders(context.request, context.response, { ...options, nonce });
+  };
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+const mockPino = vi.hoisted(() => ({
+  level: 'info',
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+}));
+
+vi.mock('pino', () => {
+  const pinoFn = vi.fn(() => mockPino);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (pinoFn as any).levels = { labels: { 10: 'trace', 20: 'debug', 30: 'info', 40: 'warn', 50: 'error' } };
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (pinoFn as any).stdTimeFunctions = { isoTime: vi.fn() };
+  return { default: pinoFn };
+});
+
+import { createServerLogger } from './server-logger';
+import { clearServiceLogLevels, setLogLevel, setServiceLogLevel } from './log-level-manager';
+
+describe('createServerLogger', () => {
+  afterEach(() => {
+    clearServiceLogLevels();
+    setLogLevel('info');
+    vi.clearAllMocks();
+  });
+
+  it('applies per-service overrides to the base methods, not only withRequestContext', () => {
+    setLogLevel('info');
+    setServiceLogLevel('auth0Service', 'debug');
+    const log = createServerLogger('auth0Service');
+
+    log.debug('token refresh', { attempt: 1 });
+    createServerLogger('other').debug('hidden');
+
+    expect(mockPino.debug).toHaveBeenCalledTimes(1);
+    expect(mockPino.debug).toHaveBeenCalledWith({ service: 'auth0Service', attempt: 1 }, 'token refresh');
+  });
+
+  it('lets an explicit service field win', () => {
+    createServerLogger('auth0Service').info('handled', { service: 'explicit' });
+    expect(mockPino.info).toHaveBeenCalledWith({ service: 'explicit' }, 'handled');
+  });
+});
@@ -30,10 +30,12 @@ export function createServerLogger(service: string) {
    * @param requestId - X-Request-ID from the incoming request
    *                    (use getOrCreateRequestId(request.headers) from @exbrain/common-react/server)
    * @param tenantId  - Active tenant ID (multi-tenant apps); omit for single-tenant apps
+   * @param trace     - W3C trace context of the request span; adds trace_id / span_id
    */
   function withRequestContext(
     requestId: string | null | undefined,
     tenantId?: string | null | undefined,
+    trace?: { traceId: string; spanId: string } | null,
   ) {
     const rid = requestId ?? '';
     const baseContext: Record<string, unknown> = {
@@ -43,6 +45,10 @@ export function createServerLogger(service: string) {
     if (tenantId) {
       baseContext[LOG_SCHEMA_FIELDS.tenant_id] = tenantId;
     }
+    if (trace) {
+      baseContext[LOG_SCHEMA_FIELDS.trace_id] = trace.traceId;
+      baseContext[LOG_SCHEMA_FIELDS.span_id] = trace.spanId;
+    }
     return {
       debug: (message: string, context?: Record<string, unknown>) =>
         logger.debug(message, { ...context, ...baseContext }),
@@ -57,13 +63,16 @@ export function createServerLogger(service: string) {
     };
   }
 
+  // `service` keys per-service level overrides; explicit context fields still win.
+  const withService = (context?: Record<string, unknown>) => ({ [LOG_SCHEMA_FIELDS.service]: service, ...context });
+
   return {
     withRequestContext,
     // Expose base logger for startup logs and other non-request-scoped use.
-    debug: (message: string, context?: Record<string, unknown>) => logger.debug(message, context),
-    info: (message: string, context?: Record<string, unknown>) => logger.info(message, context),
-    warn: (message: string, context?: Record<string, unknown>) => logger.warn(message, context),
-    error: (message: string, context?: Record<string, unknown>) => logger.error(message, context),
+    debug: (message: string, context?: Record<string, unknown>) => logger.debug(message, withService(context)),
+    info: (message: string, context?: Record<string, unknown>) => logger.info(message, withService(context)),
+    warn: (message: string, context?: Record<string, unknown>) => logger.warn(message, withService(context)),
+    error: (message: string, context?: Record<string, unknown>) => logger.error(message, withService(context)),
     setLevel: logger.setLevel.bind(logger),
     getLevel: logger.getLevel.bind(logger),
   };
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+import { createUpstreamFetch, UpstreamError, type UpstreamFetchOptions } from "./upstream-fetch";
+import { runWithRequestContext } from "./request-context";
+
+describe("createUpstreamFetch", () => {
+  const log = { info: vi.fn(), warn: vi.fn() };
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    log.info.mockReset();
+    log.warn.mockReset();
+    fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function client(overrides: Partial<UpstreamFetchOptions> = {}) {
+    return createUpstreamFetch({
+      upstream: "iam",
+      baseUrl: "http://iam.internal/",
+      retry: { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 1 },
+      logger: log,
+      ...overrides,
+    });
+  }
+
+  it("retries idempotent requests on retryable statuses and logs every attempt", async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response(null, { status: 503 }))
+      .mockResolvedValueOnce(new Response("ok", { status: 200 }));
+
+    const res = await client().fetch("/v1/me?token=secret");
+
+    expect(res.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[0][0]).toBe("http://iam.internal/v1/me?token=secret");
+    expect(log.warn).toHaveBeenCalledWith(
+      "Upstream request",
+      expect.objectContaining({ upstream: "iam", method: "GET", path: "/v1/me", attempt: 1, status: 503, outcome: "retry" }),
+    );
+    expect(log.info).toHaveBeenCalledWith(
+      "Upstream request",
+      expect.objectContaining({ attempt: 2, status: 200, outcome: "completed", latency_ms: expect.any(Number) }),
+    );
+  });
+
+  it("does not retry non-idempotent requests unless they carry an Idempotency-Key", async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 502 }));
+    const upstream = client({ circuitBreaker: false });
+
+    expect((await upstream.fetch("/v1/things", { method: "POST" })).status).toBe(502);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await upstream.fetch("/v1/things", { method: "POST", headers: { "Idempotency-Key": "k-1" } });
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("throws UpstreamError('network') after exhausting retries on network errors", async () => {
+    fetchMock.mockRejectedValue(new TypeError("fetch failed"));
+    await expect(client({ circuitBreaker: false }).fetch("/v1/me")).rejects.toMatchObject({
+      name: "UpstreamError",
+      code: "network",
+      upstream: "iam",
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("opens the circuit after repeated failures and then fails fast", async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 500 }));
+    const upstream = client({ retry: false, circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60_000 } });
+
+    await upstream.fetch("/v1/me");
+    await upstream.fetch("/v1/me");
+    expect(upstream.getCircuitState()).toBe("open");
+
+    const error = await upstream.fetch("/v1/me").catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(UpstreamError);
+    expect(error).toMatchObject({ code: "circuit_open", retryAfterSeconds: 60 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("forwards the remaining deadline and shortens the timeout", async () => {
+    fetchMock.mockResolvedValue(new Response("ok"));
+    const incoming = new Request("http://localhost/api/me", { headers: { "X-Request-Timeout-Ms": "1500" } });
+
+    await runWithRequestContext(incoming, () => client({ timeoutMs: 10_000 }).fetch("/v1/me"));
+
+    const sent = Number((fetchMock.mock.calls[0][1].headers as Headers).get("X-Request-Timeout-Ms"));
+    expect(sent).toBeGreaterThan(0);
+    expect(sent).toBeLessThanOrEqual(1500);
+  });
+
+  it("fails with deadline_exceeded when the budget is already spent", async () => {
+    const incoming = new Request("http://localhost/api/me", { headers: { "X-Request-Timeout-Ms": "0" } });
+    await expect(runWithRequestContext(incoming, () => client().fetch("/v1/me"))).rejects.toMatchObject({
+      code: "deadline_exceeded",
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Resilient fetch for BFF routes that proxy to IAM / engine: retries, circuit breaker, deadlines.
+ *
+ * Usage (one client per upstream, module level):
+ *   import { createUpstreamFetch } from '@exbrain/common-react/server/upstream-fetch';
+ *   const iam = createUpstreamFetch({ upstream: 'iam', baseUrl: IAM_URL });
+ *   const res = await iam.fetch('/v1/me', { headers: { Authorization: auth } });
+ *
+ * - Retries: only idempotent requests (GET/HEAD/OPTIONS/PUT/DELETE, an `Idempotency-Key` header,
+ *   or `idempotent: true`) on network errors, timeouts and retryable statuses (retry-backoff.ts),
+ *   with full-jitter backoff and `Retry-After` on 429/503.
+ * - Circuit breaker: consecutive upstream failures (network, timeout, 5xx) open the circuit and
+ *   calls fail fast with `UpstreamError('circuit_open')` until a probe succeeds.
+ * - Deadlines: inside runWithRequestContext the remaining budget caps each attempt's timeout and
+ *   is forwarded as DEADLINE_HEADER; an exhausted budget fails with `deadline_exceeded`.
+ * - Each attempt is logged with upstream, method, path, attempt, status and latency_ms.
+ *
+ * Builds on fetchWithTimeout, so X-Request-ID and `traceparent` are forwarded as usual.
+ * Node route handlers only.
+ */
+
+import defaultLogger from '../utils/logger';
+import { computeBackoffDelay, honoursRetryAfter, isRetryableStatus, parseRetryAfter } from '../utils/retry-backoff';
+import { createCircuitBreaker, type CircuitBreakerOptions, type CircuitState } from './circuit-breaker';
+import { fetchWithTimeout, type FetchWithTimeoutOptions } from './fetcher';
+import { DEADLINE_HEADER, getRemainingTimeMs } from './request-context';
+
+export type UpstreamRetryOptions = {
+  /** Total attempts including the first. Default 3. */
+  maxAttempts?: number;
+  /** Backoff cap for the first retry, doubled per attempt. Default 200. */
+  baseDelayMs?: number;
+  /** Upper bound for any retry delay (also caps `Retry-After`). Default 2000. */
+  maxDelayMs?: number;
+};
+
+export type UpstreamLogger = {
+  info: (message: string, context?: Record<string, unknown>) => void;
+  warn: (message: string, context?: Record<string, unknown>) => void;
+};
+
+export type UpstreamFetchOptions = {
+  /** Upstream name for logs and errors (e.g. `iam`, `engine`). */
+  upstream: string;
+  /** Prefix for relative paths passed to `fetch`. */
+  baseUrl?: string;
+  /** Per-attempt timeout (shortened by the request deadline). Default 10000. */
+  timeoutMs?: number;
+  /** Retry policy; `false` disables retries. */
+  retry?: UpstreamRetryOptions | false;
+  /** Circuit breaker settings; `false` disables it. */
+  circuitBreaker?: CircuitBreakerOptions | false;
+  /** Logger override (for testing). Defaults to the shared logger. */
+  logger?: UpstreamLogger;
+};
+
+export type UpstreamRequestInit = FetchWithTimeoutOptions & {
+  /** Force (or forbid) retries regardless of method. */
+  idempotent?: boolean;
+};
+
+export type UpstreamErrorCode = 'circuit_open' | 'deadline_exceeded' | 'timeout' | 'network';
+
+/** Thrown when no upstream response is available (fail fast, deadline, timeout, network). */
+export class UpstreamError extends Error {
+  readonly upstream: string;
+  readonly code: UpstreamErrorCode;
+  /** Suggested wait before retrying, in seconds (circuit_open only). */
+  readonly retryAfterSeconds?: number;
+
+  constructor(upstream: string, code: UpstreamErrorCode, message: string, retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'UpstreamError';
+    this.upstream = upstream;
+    this.code = code;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export type UpstreamFetch = {
+  fetch(path: string, init?: UpstreamRequestInit): Promise<Response>;
+  getCircuitState(): CircuitState;
+};
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+function isIdempotent(method: string, init: UpstreamRequestInit): boolean {
+  if (init.idempotent !== undefined) return init.idempotent;
+  return IDEMPOTENT_METHODS.has(method) || new Headers(init.headers).has('Idempotency-Key');
+}
+
+/** Path without query string — query params may carry tokens or PII. */
+function logPath(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url.split('?')[0];
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+export function createUpstreamFetch(options: UpstreamFetchOptions): UpstreamFetch {
+  const { upstream } = options;
+  const timeoutMs = options.timeoutMs ?? 10_000;
+  const retry = options.retry === false
+    ? { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 }
+    : { maxAttempts: 3, baseDelayMs: 200, maxDelayMs: 2000, ...options.retry };
+  const breaker = options.circuitBreaker === false ? null : createCircuitBreaker(options.circuitBreaker);
+  const log = options.logger ?? defaultLogger;
+
+  async function upstreamFetch(path: string, init: UpstreamRequestInit = {}): Promise<Response> {
+    const url = options.baseUrl && !/^[a-z][a-z0-9+.-]*:/i.test(path) ? `${options.baseUrl.replace(/\/$/, '')}${path}` : path;
+    const method = (init.method ?? 'GET').toUpperCase();
+    const fetchInit: FetchWithTimeoutOptions = { ...init };
+    delete (fetchInit as UpstreamRequestInit).idempotent;
+    const maxAttempts = isIdempotent(method, init) ? Math.max(1, retry.maxAttempts) : 1;
+    const baseLog = { upstream, method, path: logPath(url) };
+
+    for (let attempt = 1; ; attempt++) {
+      const remaining = getRemainingTimeMs();
+      if (remaining !== undefined && remaining <= 0) {
+        log.warn('Upstream deadline exceeded', { ...baseLog, attempt });
+        throw new UpstreamError(upstream, 'deadline_exceeded', `Deadline exceeded before calling ${upstream}`);
+      }
+      if (breaker && !breaker.tryAcquire()) {
+        const retryAfterSeconds = Math.max(1, Math.ceil(breaker.retryAfterMs() / 1000));
+        log.warn('Upstream circuit open', { ...baseLog, attempt, retry_after_seconds: retryAfterSeconds });
+        throw new UpstreamError(upstream, 'circuit_open', `Circuit open for ${upstream}`, retryAfterSeconds);
+      }
+
+      const attemptTimeout = remaining === undefined ? timeoutMs : Math.min(timeoutMs, remaining);
+      const headers = new Headers(fetchInit.headers);
+      if (remaining !== undefined) headers.set(DEADLINE_HEADER, String(attemptTimeout));
+
+      const startedAt = Date.now();
+      let response: Response | null = null;
+      let failure: UpstreamError | null = null;
+      try {
+        response = await fetchWithTimeout(url, { ...fetchInit, headers }, attemptTimeout);
+      } catch (error) {
+        if (init.signal?.aborted) {
+          breaker?.release(); // caller gave up; says nothing about the upstream
+          throw error;
+        }
+        const timedOut = error instanceof Error && error.name === 'AbortError';
+        failure = timedOut
+          ? new UpstreamError(upstream, 'timeout', `${upstream} timed out after ${attemptTimeout}ms`)
+          : new UpstreamError(upstream, 'network', `${upstream} request failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      const latencyMs = Date.now() - startedAt;
+
+      // 429 means "slow down", not "down": it is retried but does not trip the breaker.
+      const upstreamFailed = failure !== null || (response !== null && response.status >= 500);
+      if (upstreamFailed) breaker?.recordFailure();
+      else breaker?.recordSuccess();
+
+      const retryable = failure !== null || (response !== null && isRetryableStatus(response.status));
+      let delay = 0;
+      let willRetry = retryable && attempt < maxAttempts;
+      if (willRetry) {
+        delay = computeBackoffDelay(attempt, retry);
+        if (response && honoursRetryAfter(response.status)) {
+          const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+          if (retryAfter !== null) delay = Math.min(retryAfter, retry.maxDelayMs);
+        }
+        const left = getRemainingTimeMs();
+        if (left !== undefined && delay >= left) willRetry = false;
+      }
+
+      const attemptLog = {
+        ...baseLog,
+        attempt,
+        latency_ms: latencyMs,
+        ...(response && { status: response.status }),
+        ...(failure && { error_code: failure.code, error_message: failure.message }),
+        outcome: !retryable ? 'completed' : willRetry ? 'retry' : 'failed',
+      };
+      if (retryable) log.warn('Upstream request', attemptLog);
+      else log.info('Upstream request', attemptLog);
+
+      if (!willRetry) {
+        if (failure) throw failure;
+        return response as Response;
+      }
+      // Release the connection of a response we are not going to use.
+      await response?.body?.cancel().catch(() => {});
+      await sleep(delay, init.signal);
+      if (init.signal?.aborted) throw init.signal.reason ?? new DOMException('Aborted', 'AbortError');
+    }
+  }
+
+  return {
+    fetch: upstreamFetch,
+    getCircuitState: () => breaker?.getState() ?? 'closed',
+  };
+}
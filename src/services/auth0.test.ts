@@ -24,7 +24,25 @@ vi.mock('../utils/context-logger', () => ({
   createContextLogger: () => mockLog,
 }));
 
-import { getAccessToken } from './auth0';
+const mockAuth0 = vi.hoisted(() => ({
+  isAuthenticated: true,
+  isLoading: false,
+  user: { sub: 'auth0|1' },
+  logout: vi.fn(async () => {}),
+  getAccessTokenSilently: vi.fn(),
+}));
+
+vi.mock('@auth0/auth0-react', () => ({
+  useAuth0: () => mockAuth0,
+}));
+
+const mockPublish = vi.hoisted(() => vi.fn());
+
+vi.mock('../utils/auth-sync', () => ({
+  publishAuthSyncEvent: mockPublish,
+}));
+
+import { getAccessToken, noteAccessToken, useAuth0 } from './auth0';
 import { MSG_MISSING_REFRESH_TOKEN } from '../lib/messages';
 
 /** Serialize every argument passed to a mock call into one string for leak checks. */
@@ -101,3 +119,47 @@ describe('getAccessToken', () => {
     expect(logged).toContain('refresh failed');
   });
 });
+
+describe('useAuth0 cross-tab sync', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    noteAccessToken(null);
+  });
+
+  it('returns stable wrappers for the SDK functions', () => {
+    const first = useAuth0();
+    const second = useAuth0();
+    expect(first.logout).toBe(second.logout);
+    expect(first.getAccessTokenSilently).toBe(second.getAccessTokenSilently);
+  });
+
+  it('publishes logout before delegating to the SDK', async () => {
+    await useAuth0().logout({ logoutParams: { returnTo: 'https://app.example' } });
+    expect(mockPublish).toHaveBeenCalledWith('logout');
+    expect(mockAuth0.logout).toHaveBeenCalledWith({ logoutParams: { returnTo: 'https://app.example' } });
+  });
+
+  it('publishes token_refresh only when a different token replaces a known one', async () => {
+    const { getAccessTokenSilently } = useAuth0();
+    mockAuth0.getAccessTokenSilently
+      .mockResolvedValueOnce('header.payload.signature-one-aaaaaaaa')
+      .mockResolvedValueOnce('header.payload.signature-one-aaaaaaaa')
+      .mockResolvedValueOnce({ access_token: 'header.payload.signature-two-bbbbbbbb', id_token: 'x', expires_in: 60 });
+
+    await getAccessTokenSilently();
+    await getAccessTokenSilently();
+    expect(mockPublish).not.toHaveBeenCalled();
+
+    const detailed = await getAccessTokenSilently({ detailedResponse: true });
+    expect(detailed).toMatchObject({ access_token: 'header.payload.signature-two-bbbbbbbb' });
+    expect(mockPublish).toHaveBeenCalledWith('token_refresh');
+  });
+
+  it('SECURITY: never passes token material to the bus', async () => {
+    mockAuth0.getAccessTokenSilently.mockResolvedValueOnce('token-a-secret-signature').mockResolvedValueOnce('token-b-secret-signature');
+    const { getAccessTokenSilently } = useAuth0();
+    await getAccessTokenSilently();
+    await getAccessTokenSilently();
+    expect(JSON.stringify(mockPublish.mock.calls)).not.toContain('secret');
+  });
+});
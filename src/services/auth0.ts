@@ -4,7 +4,10 @@
  * Provides a clean wrapper around @auth0/auth0-react
  */
 
-import { useAuth0 as useAuth0Base } from '@auth0/auth0-react';
+import {
+  useAuth0 as useAuth0Base,
+  type GetTokenSilentlyOptions,
+} from '@auth0/auth0-react';
 import { ORIGIN_PREFIX_127, ORIGIN_PREFIX_LOCALHOST, URL_SCHEME_HTTPS } from '../lib/constants';
 import {
   MSG_AUTH0_NOT_AVAILABLE_HTTP,
@@ -12,6 +15,7 @@ import {
   MSG_MISSING_REFRESH_TOKEN,
 } from '../lib/messages';
 import type { Auth0User } from '../types/auth0';
+import { publishAuthSyncEvent } from '../utils/auth-sync';
 import { createContextLogger } from '../utils/context-logger';
 
 // Structured logger for this service. Mirrors common-go/logger.NewContextLogger.
@@ -36,6 +40,60 @@ function safeErrorMessage(error: unknown): string {
   return `non-error value of type ${typeof error}`;
 }
 
+type Auth0Logout = ReturnType<typeof useAuth0Base>['logout'];
+type Auth0GetAccessTokenSilently = ReturnType<typeof useAuth0Base>['getAccessTokenSilently'];
+
+// Last access token seen in this tab, as its signature tail only (never the token itself).
+let lastTokenFingerprint: string | null = null;
+
+/**
+ * Record the access token this tab now holds. Returns true when it replaced a different
+ * token, i.e. the token was refreshed. Pass null after logout.
+ */
+export function noteAccessToken(token: string | null): boolean {
+  const fingerprint = token ? token.slice(-16) : null;
+  const refreshed = lastTokenFingerprint !== null && fingerprint !== null && fingerprint !== lastTokenFingerprint;
+  lastTokenFingerprint = fingerprint;
+  return refreshed;
+}
+
+// One wrapper per SDK function: the SDK's functions are stable for the provider's lifetime,
+// so the wrappers are too (safe in effect dependency lists).
+const logoutWrappers = new WeakMap<Auth0Logout, Auth0Logout>();
+const tokenWrappers = new WeakMap<Auth0GetAccessTokenSilently, Auth0GetAccessTokenSilently>();
+
+/** Logout that is propagated to the other tabs (see utils/auth-sync.ts). */
+function withLogoutSync(logout: Auth0Logout): Auth0Logout {
+  let wrapped = logoutWrappers.get(logout);
+  if (!wrapped) {
+    wrapped = (options) => {
+      noteAccessToken(null);
+      publishAuthSyncEvent('logout');
+      return logout(options);
+    };
+    logoutWrappers.set(logout, wrapped);
+  }
+  return wrapped;
+}
+
+/** getAccessTokenSilently that tells the other tabs when it obtained a new token. */
+function withTokenRefreshSync(getToken: Auth0GetAccessTokenSilently): Auth0GetAccessTokenSilently {
+  let wrapped = tokenWrappers.get(getToken);
+  if (!wrapped) {
+    wrapped = (async (options?: GetTokenSilentlyOptions) => {
+      // `detailedResponse: true` resolves to the verbose response instead of the token string.
+      const result = (await getToken(options)) as string | { access_token: string };
+      const token = typeof result === 'string' ? result : result.access_token;
+      if (noteAccessToken(token)) {
+        publishAuthSyncEvent('token_refresh');
+      }
+      return result;
+    }) as Auth0GetAccessTokenSilently;
+    tokenWrappers.set(getToken, wrapped);
+  }
+  return wrapped;
+}
+
 /**
  * Check if the current origin is secure (HTTPS or localhost)
  */
@@ -54,6 +112,9 @@ function isSecureOrigin(): boolean {
 /**
  * useAuth0 hook wrapper
  * Returns Auth0 context if available, otherwise returns a mock context for HTTP (non-localhost)
+ *
+ * With the real Auth0 context, `logout` and token refreshes via `getAccessTokenSilently` are
+ * propagated to the other tabs through the auth sync bus started by AuthProvider.
  */
 export function useAuth0() {
   // If not on secure origin, return mock context
@@ -91,6 +152,8 @@ export function useAuth0() {
     return {
       ...auth0,
       user: auth0.user as Auth0User | undefined,
+      logout: withLogoutSync(auth0.logout),
+      getAccessTokenSilently: withTokenRefreshSync(auth0.getAccessTokenSilently),
     };
   } catch {
     // If Auth0Provider is not present on a secure origin, this is a genuine
@@ -142,6 +205,9 @@ export function useAuth0() {
  * SECURITY (§7): we never log the raw error object or the token. Auth0 SDK errors
  * can wrap credential material in non-standard fields, so only `safeErrorMessage`
  * (a redacted summary) is logged.
+ *
+ * For refresh ahead of expiry and one shared refresh per burst of calls, use the token
+ * manager (services/token-manager.ts), which keeps the same contract.
  */
 export async function getAccessToken(
   getAccessTokenSilently: () => Promise<string>
@@ -149,21 +215,29 @@ export async function getAccessToken(
   try {
     return await getAccessTokenSilently();
   } catch (error) {
-    const errorMessage = safeErrorMessage(error);
-    // Handle missing refresh token error specifically — actionable by the user.
-    if (errorMessage.includes('Missing Refresh Token')) {
-      log.error(
-        'Access token acquisition failed: missing refresh token. ' +
-        'User must clear browser storage and log in again (offline_access scope required).',
-        { reason: 'missing_refresh_token' }
-      );
-      // Suggest clearing storage and re-authenticating.
-      throw new Error(MSG_MISSING_REFRESH_TOKEN);
-    }
-    // Any other failure: make it observable (was a silent swallow), then preserve
-    // the null-return contract so existing callers behave unchanged.
-    log.error('Failed to get access token', { reason: errorMessage });
-    return null;
+    return handleAccessTokenError(error);
   }
 }
 
+/**
+ * Shared failure handling for getAccessToken and the token manager (services/token-manager.ts):
+ * throws the user-facing missing-refresh-token error, otherwise logs a redacted reason and
+ * returns null.
+ */
+export function handleAccessTokenError(error: unknown): null {
+  const errorMessage = safeErrorMessage(error);
+  // Handle missing refresh token error specifically — actionable by the user.
+  if (errorMessage.includes('Missing Refresh Token')) {
+    log.error(
+      'Access token acquisition failed: missing refresh token. ' +
+      'User must clear browser storage and log in again (offline_access scope required).',
+      { reason: 'missing_refresh_token' }
+    );
+    // Suggest clearing storage and re-authenticating.
+    throw new Error(MSG_MISSING_REFRESH_TOKEN);
+  }
+  // Any other failure: make it observable (was a silent swallow), then preserve
+  // the null-return contract so existing callers behave unchanged.
+  log.error('Failed to get access token', { reason: errorMessage });
+  return null;
+}
@@ -0,0 +1,226 @@
+/**
+ * Unit tests for services/token-manager.ts
+ *
+ * Focus: refresh ahead of `exp` with jitter, one shared refresh per burst of calls,
+ * onTokenRefreshFailed, and the getAccessToken contract (null on failure, thrown
+ * missing-refresh-token error, no token material in logs); useTokenManager under StrictMode.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const mockLog = vi.hoisted(() => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+}));
+
+vi.mock('../utils/context-logger', () => ({
+  createContextLogger: () => mockLog,
+}));
+
+const mockAuth = vi.hoisted(() => ({
+  isAuthenticated: true,
+  getAccessTokenSilently: vi.fn(),
+}));
+
+vi.mock('./auth0', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./auth0')>()),
+  useAuth0: () => mockAuth,
+}));
+
+import { StrictMode } from 'react';
+import { renderHook } from '@testing-library/react';
+import { createTokenManager, decodeTokenExpiry, useTokenManager } from './token-manager';
+import { MSG_MISSING_REFRESH_TOKEN } from '../lib/messages';
+
+function base64url(value: unknown): string {
+  return btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/** Unsigned JWT expiring `seconds` from now (fake Date). */
+function jwt(seconds: number, id = 'a'): string {
+  return `${base64url({ alg: 'none' })}.${base64url({ exp: Math.floor(Date.now() / 1000) + seconds, jti: id })}.sig-${id}`;
+}
+
+describe('decodeTokenExpiry', () => {
+  it('reads exp from a JWT and returns null for opaque or malformed tokens', () => {
+    const token = `${base64url({})}.${base64url({ exp: 1700000000 })}.sig`;
+    expect(decodeTokenExpiry(token)).toBe(1700000000 * 1000);
+    expect(decodeTokenExpiry('opaque-token')).toBeNull();
+    expect(decodeTokenExpiry('a.!!!.c')).toBeNull();
+    expect(decodeTokenExpiry(`${base64url({})}.${base64url({ sub: 'x' })}.sig`)).toBeNull();
+  });
+});
+
+describe('createTokenManager', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('shares one refresh between concurrent callers and serves the cached token', async () => {
+    const token = jwt(3600);
+    const getToken = vi.fn(async () => token);
+    const manager = createTokenManager({ getToken });
+    const tokens = await Promise.all([manager.getAccessToken(), manager.getAccessToken(), manager.getAccessToken()]);
+    expect(tokens).toEqual([token, token, token]);
+    expect(getToken).toHaveBeenCalledTimes(1);
+    expect(getToken).toHaveBeenCalledWith({ forceRefresh: false });
+
+    await manager.getAccessToken();
+    expect(getToken).toHaveBeenCalledTimes(1);
+    manager.dispose();
+  });
+
+  it('refreshes in the background ahead of expiry, including jitter', async () => {
+    const first = jwt(3600, 'first');
+    const second = jwt(7200, 'second');
+    const getToken = vi.fn().mockResolvedValueOnce(first).mockResolvedValueOnce(second);
+    const manager = createTokenManager({ getToken, refreshBeforeMs: 60_000, jitterMs: 30_000 });
+    await manager.getAccessToken();
+
+    // Lead = 60s + 0.5 * 30s = 75s before exp.
+    await vi.advanceTimersByTimeAsync(3600_000 - 75_000 - 1_000);
+    expect(getToken).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(getToken).toHaveBeenCalledTimes(2);
+    expect(getToken).toHaveBeenLastCalledWith({ forceRefresh: true });
+    await expect(manager.getAccessToken()).resolves.toBe(second);
+    manager.dispose();
+  });
+
+  it('refreshes on demand inside the refresh window and forces a refresh after a 401', async () => {
+    const getToken = vi.fn().mockResolvedValueOnce(jwt(90, 'short')).mockResolvedValueOnce(jwt(3600, 'next')).mockResolvedValueOnce(jwt(3600, 'forced'));
+    const manager = createTokenManager({ getToken, refreshBeforeMs: 60_000, jitterMs: 0 });
+    await manager.getAccessToken();
+    // Short-lived token: the lead is capped at half its lifetime (45s).
+    vi.setSystemTime(Date.now() + 46_000);
+    await expect(manager.getAccessToken()).resolves.toContain('sig-next');
+    expect(getToken).toHaveBeenLastCalledWith({ forceRefresh: true });
+
+    await expect(manager.getAccessToken({ forceRefresh: true })).resolves.toContain('sig-forced');
+    expect(getToken).toHaveBeenCalledTimes(3);
+    manager.dispose();
+  });
+
+  it('calls onTokenRefreshFailed once per failed refresh and keeps serving a still-valid token', async () => {
+    const onTokenRefreshFailed = vi.fn();
+    const token = jwt(120, 'valid');
+    const failure = new Error('login_required');
+    const getToken = vi.fn().mockResolvedValueOnce(token).mockRejectedValue(failure);
+    const manager = createTokenManager({ getToken, refreshBeforeMs: 60_000, jitterMs: 0, onTokenRefreshFailed });
+    await manager.getAccessToken();
+
+    vi.setSystemTime(Date.now() + 61_000);
+    const results = await Promise.all([manager.getAccessToken(), manager.getAccessToken()]);
+    expect(results).toEqual([token, token]);
+    expect(onTokenRefreshFailed).toHaveBeenCalledTimes(1);
+    expect(onTokenRefreshFailed).toHaveBeenCalledWith(failure);
+
+    vi.setSystemTime(Date.now() + 60_000);
+    await expect(manager.getAccessToken()).resolves.toBeNull();
+    expect(mockLog.error).toHaveBeenCalledWith('Failed to get access token', { reason: 'login_required' });
+    manager.dispose();
+  });
+
+  it('throws the user-facing error for a missing refresh token', async () => {
+    const manager = createTokenManager({
+      getToken: async () => {
+        throw new Error('Missing Refresh Token (audience: ..., scope: ...)');
+      },
+    });
+    await expect(manager.getAccessToken()).rejects.toThrow(MSG_MISSING_REFRESH_TOKEN);
+  });
+
+  it('does not cache opaque tokens and forgets the token on clear', async () => {
+    const getToken = vi.fn(async () => 'opaque');
+    const manager = createTokenManager({ getToken });
+    await manager.getAccessToken();
+    await manager.getAccessToken();
+    expect(getToken).toHaveBeenCalledTimes(2);
+
+    const jwtManager = createTokenManager({ getToken: vi.fn(async () => jwt(3600)) });
+    await jwtManager.getAccessToken();
+    jwtManager.clear();
+    await jwtManager.getAccessToken();
+    expect(vi.getTimerCount()).toBe(1);
+    jwtManager.dispose();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('does not loop on tokens that look expired or expire within seconds', async () => {
+    const getToken = vi.fn().mockResolvedValueOnce(jwt(-30, 'skewed')).mockResolvedValue(jwt(4, 'short'));
+    const manager = createTokenManager({ getToken });
+    await manager.getAccessToken();
+    // Already expired by the local clock: not cached, no forced background refresh.
+    expect(vi.getTimerCount()).toBe(0);
+
+    await manager.getAccessToken();
+    expect(getToken).toHaveBeenLastCalledWith({ forceRefresh: false });
+    await vi.advanceTimersByTimeAsync(4_999);
+    expect(getToken).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(getToken).toHaveBeenCalledTimes(3);
+    manager.dispose();
+  });
+
+  it('does not cache a refresh that resolves after clear', async () => {
+    let resolveStale: (token: string) => void = () => {};
+    const getToken = vi
+      .fn()
+      .mockImplementationOnce(() => new Promise<string>((resolve) => (resolveStale = resolve)))
+      .mockResolvedValue(jwt(3600, 'fresh'));
+    const manager = createTokenManager({ getToken });
+    const stale = manager.getAccessToken();
+
+    manager.clear();
+    resolveStale(jwt(3600, 'signed-out'));
+    await stale;
+    expect(vi.getTimerCount()).toBe(0);
+
+    await expect(manager.getAccessToken()).resolves.toContain('sig-fresh');
+    expect(getToken).toHaveBeenCalledTimes(2);
+    manager.dispose();
+  });
+
+  it('SECURITY: never logs token material', async () => {
+    const token = jwt(3600, 'secret-signature');
+    const manager = createTokenManager({ getToken: async () => token });
+    await manager.getAccessToken();
+    manager.dispose();
+    const logged = JSON.stringify([...mockLog.debug.mock.calls, ...mockLog.error.mock.calls]);
+    expect(logged).not.toContain('secret-signature');
+    expect(mockLog.debug).toHaveBeenCalledWith('Access token refresh scheduled', { refresh_in_ms: expect.any(Number) });
+  });
+});
+
+describe('useTokenManager', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps caching and refreshing under StrictMode', async () => {
+    mockAuth.getAccessTokenSilently.mockResolvedValue(jwt(3600));
+    const { result, unmount } = renderHook(() => useTokenManager(), { wrapper: StrictMode });
+
+    await result.current.getAccessToken();
+    await result.current.getAccessToken();
+    expect(mockAuth.getAccessTokenSilently).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(1);
+
+    unmount();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Access token manager for common-react
+ *
+ * Wraps getAccessTokenSilently so API calls get a token without waiting on a refresh:
+ * - Decodes the JWT `exp` and refreshes `refreshBeforeMs` (plus up to `jitterMs` of random
+ *   jitter, so tabs and clients do not refresh in lockstep) before expiry, in the background.
+ * - Concurrent callers share one refresh: a burst of API calls triggers exactly one request.
+ * - Keeps the getAccessToken contract: `null` when no token can be obtained, and the
+ *   user-facing missing-refresh-token error is thrown.
+ *
+ * Usage:
+ *   const tokens = useTokenManager({ onTokenRefreshFailed: () => toast(t('session.expiring')) });
+ *   const api = createApiClient({ baseUrl: '/api', getToken: tokens.getAccessToken });
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { GetTokenOptions } from '../utils/api-client';
+import { createContextLogger } from '../utils/context-logger';
+import { handleAccessTokenError, useAuth0 } from './auth0';
+
+// Child of auth0Service, so its log level override covers token refresh too.
+const log = createContextLogger('auth0Service.tokens');
+
+export type TokenManagerOptions = {
+  /** Token source; `forceRefresh` must bypass the SDK cache (Auth0: `cacheMode: 'off'`). */
+  getToken: (options: GetTokenOptions) => Promise<string>;
+  /** How long before `exp` the token is refreshed. Default 60000. */
+  refreshBeforeMs?: number;
+  /** Upper bound of the random extra lead added per token. Default 30000. */
+  jitterMs?: number;
+  /**
+   * Called once per failed refresh (background or on demand) with the SDK error, e.g. to
+   * prompt the user to sign in again. Never log the error object as-is: Auth0 errors can wrap
+   * credential material.
+   */
+  onTokenRefreshFailed?: (error: unknown) => void;
+};
+
+export type TokenManager = {
+  /**
+   * The current token, refreshed first when it is inside its refresh window. Resolves to
+   * null when no token can be obtained. Matches createApiClient's `getToken`.
+   */
+  getAccessToken: (options?: Partial<GetTokenOptions>) => Promise<string | null>;
+  /** Forget the cached token (e.g. on logout); a refresh still in flight is not cached either. */
+  clear: () => void;
+  /** Stop the background refresh. */
+  dispose: () => void;
+};
+
+type CachedToken = {
+  token: string;
+  expiresAt: number;
+  refreshAt: number;
+};
+
+/** Shortest delay between two background refreshes. */
+const MIN_REFRESH_DELAY_MS = 5000;
+
+/** Longest delay setTimeout accepts; longer delays fire immediately. */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/** Expiry (epoch ms) from a JWT's `exp` claim, or null for opaque or malformed tokens. */
+export function decodeTokenExpiry(token: string): number | null {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const claims = JSON.parse(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')));
+    return typeof claims?.exp === 'number' ? claims.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+export function createTokenManager(options: TokenManagerOptions): TokenManager {
+  const refreshBeforeMs = options.refreshBeforeMs ?? 60000;
+  const jitterMs = options.jitterMs ?? 30000;
+  let current: CachedToken | null = null;
+  let inFlight: Promise<string> | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let disposed = false;
+  // Bumped by clear / dispose: a refresh started before then must not cache its result.
+  let generation = 0;
+
+  function store(token: string): void {
+    clearTimeout(timer);
+    const expiresAt = decodeTokenExpiry(token);
+    const now = Date.now();
+    // Opaque tokens are not cached: every call goes to the SDK, which caches them itself. Nor
+    // are tokens that already look expired (client clock ahead): forced refreshes would loop.
+    if (expiresAt === null || expiresAt <= now || disposed) {
+      current = null;
+      return;
+    }
+    // Never spend more than half the remaining lifetime, so short-lived tokens do not loop.
+    const lead = Math.min(refreshBeforeMs + Math.random() * jitterMs, (expiresAt - now) / 2);
+    current = { token, expiresAt, refreshAt: expiresAt - lead };
+    const delay = Math.min(Math.max(current.refreshAt - now, MIN_REFRESH_DELAY_MS), MAX_TIMER_DELAY_MS);
+    log.debug('Access token refresh scheduled', { refresh_in_ms: Math.round(delay) });
+    timer = setTimeout(() => {
+      refresh(true).catch((error: unknown) => {
+        try {
+          handleAccessTokenError(error);
+        } catch {
+          // Missing refresh token: surfaced by the next getAccessToken once the token expires.
+        }
+      });
+    }, delay);
+  }
+
+  function refresh(forceRefresh: boolean): Promise<string> {
+    if (!inFlight) {
+      const startedIn = generation;
+      const request: Promise<string> = options
+        .getToken({ forceRefresh })
+        .then(
+          (token) => {
+            if (startedIn === generation) store(token);
+            return token;
+          },
+          (error: unknown) => {
+            if (startedIn === generation) options.onTokenRefreshFailed?.(error);
+            throw error;
+          }
+        )
+        .finally(() => {
+          if (inFlight === request) inFlight = null;
+        });
+      inFlight = request;
+    }
+    return inFlight;
+  }
+
+  function reset(): void {
+    generation++;
+    inFlight = null;
+    clearTimeout(timer);
+    current = null;
+  }
+
+  return {
+    async getAccessToken(request = {}) {
+      const forceRefresh = request.forceRefresh === true;
+      if (!forceRefresh && current && Date.now() < current.refreshAt) {
+        return current.token;
+      }
+      try {
+        // Bypass the SDK cache when the cached token is about to expire, so it is renewed
+        // rather than handed back until the SDK's own leeway.
+        return await refresh(forceRefresh || current !== null);
+      } catch (error) {
+        // A failed early refresh still leaves a usable token.
+        if (!forceRefresh && current && Date.now() < current.expiresAt) {
+          return current.token;
+        }
+        return handleAccessTokenError(error);
+      }
+    },
+    clear() {
+      reset();
+    },
+    dispose() {
+      disposed = true;
+      reset();
+    },
+  };
+}
+
+/**
+ * Token manager bound to the enclosing AuthProvider's Auth0 client. The cached token is
+ * dropped when the user signs out.
+ */
+export function useTokenManager(options: Omit<TokenManagerOptions, 'getToken'> = {}): TokenManager {
+  const { isAuthenticated, getAccessTokenSilently } = useAuth0();
+  const onFailed = useRef(options.onTokenRefreshFailed);
+  onFailed.current = options.onTokenRefreshFailed;
+
+  const createManager = useCallback(
+    () =>
+      createTokenManager({
+        getToken: ({ forceRefresh }) =>
+          getAccessTokenSilently(forceRefresh ? { cacheMode: 'off' } : undefined),
+        refreshBeforeMs: options.refreshBeforeMs,
+        jitterMs: options.jitterMs,
+        onTokenRefreshFailed: (error) => onFailed.current?.(error),
+      }),
+    [getAccessTokenSilently, options.refreshBeforeMs, options.jitterMs]
+  );
+  const [manager, setManager] = useState(createManager);
+  const disposed = useRef<TokenManager | null>(null);
+
+  useEffect(() => {
+    // A disposed manager cannot be revived: after StrictMode's simulated unmount or an
+    // option change, swap in a new one (this effect then runs again for it).
+    if (disposed.current === manager) {
+      setManager(createManager());
+      return;
+    }
+    return () => {
+      manager.dispose();
+      disposed.current = manager;
+    };
+  }, [manager, createManager]);
+
+  useEffect(() => {
+    if (!isAuthenticated) manager.clear();
+  }, [isAuthenticated, manager]);
+
+  return manager;
+}
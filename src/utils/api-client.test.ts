@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createApiClient } from './api-client';
+import { ApiError } from './api-error';
+import { registerFetchLogger } from './requestId';
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function sentRequest(fetchMock: ReturnType<typeof vi.fn>, call = 0): { url: string; init: RequestInit; headers: Headers } {
+  const [url, init] = fetchMock.mock.calls[call] as [string, RequestInit];
+  return { url, init, headers: new Headers(init.headers) };
+}
+
+describe('createApiClient', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('GETs JSON with the bearer token, request id and basePath', async () => {
+    vi.stubEnv('NEXT_PUBLIC_BASE_PATH', '/hello');
+    fetchMock.mockResolvedValue(jsonResponse({ id: 'g1' }));
+    const api = createApiClient({ baseUrl: '/api', getToken: () => 'tok-1' });
+
+    const greeting = await api.get<{ id: string }>('/greetings/g1', { query: { expand: 'author', skip: undefined } });
+
+    expect(greeting).toEqual({ id: 'g1' });
+    const { url, init, headers } = sentRequest(fetchMock);
+    expect(url).toBe('/hello/api/greetings/g1?expand=author');
+    expect(init.method).toBe('GET');
+    expect(headers.get('Authorization')).toBe('Bearer tok-1');
+    expect(headers.get('Accept')).toBe('application/json');
+    expect(headers.get('X-Request-ID')).toMatch(/^[0-9a-f-]{36}$/i);
+  });
+
+  it('uses absolute base URLs as-is and repeats array query keys', async () => {
+    fetchMock.mockResolvedValue(jsonResponse([]));
+    const api = createApiClient({ baseUrl: 'https://engine.example/v1/' });
+    await api.get('/items', { query: { tag: ['a', 'b'], page: 2 } });
+    expect(sentRequest(fetchMock).url).toBe('https://engine.example/v1/items?tag=a&tag=b&page=2');
+    expect(sentRequest(fetchMock).headers.has('Authorization')).toBe(false);
+  });
+
+  it('sends the token and trace headers only to URLs under baseUrl or on the page origin', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse({}));
+    const getToken = vi.fn(() => 'tok-1');
+    const api = createApiClient({ baseUrl: 'https://engine.example/v1', getToken });
+
+    await api.get('https://engine.example/v1/items');
+    await api.get(`${window.location.origin}/api/me`);
+    await api.get('https://evil.example/v1/items');
+    await api.get('https://engine.example/v1evil/items');
+    await createApiClient({ getToken }).get('//evil.example/items');
+
+    expect(fetchMock.mock.calls.map((_, call) => sentRequest(fetchMock, call).headers.get('Authorization'))).toEqual([
+      'Bearer tok-1',
+      'Bearer tok-1',
+      null,
+      null,
+      null,
+    ]);
+    expect(getToken).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls.map((_, call) => sentRequest(fetchMock, call).headers.has('traceparent'))).toEqual([
+      true,
+      true,
+      false,
+      false,
+      false,
+    ]);
+  });
+
+  it('JSON-encodes object bodies and passes FormData through', async () => {
+    fetchMock.mockImplementation(() => Promise.resolve(jsonResponse({ ok: true }, 201)));
+    const api = createApiClient({ baseUrl: '/api' });
+
+    await api.post('/greetings', { text: 'hi' });
+    const json = sentRequest(fetchMock, 0);
+    expect(json.init.method).toBe('POST');
+    expect(json.init.body).toBe('{"text":"hi"}');
+    expect(json.headers.get('Content-Type')).toBe('application/json');
+
+    const form = new FormData();
+    form.append('file', 'x');
+    await api.put('/upload', form);
+    const multipart = sentRequest(fetchMock, 1);
+    expect(multipart.init.body).toBe(form);
+    expect(multipart.headers.has('Content-Type')).toBe(false);
+  });
+
+  it('returns undefined for 204 responses', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+    const api = createApiClient();
+    await expect(api.delete('/api/greetings/g1')).resolves.toBeUndefined();
+    expect(sentRequest(fetchMock).init.method).toBe('DELETE');
+  });
+
+  it('parses X-Total-Count for list endpoints', async () => {
+    fetchMock.mockResolvedValue(jsonResponse([{ id: 1 }, { id: 2 }], 200, { 'X-Total-Count': '42' }));
+    const api = createApiClient({ baseUrl: '/api' });
+    await expect(api.list<{ id: number }>('/greetings')).resolves.toEqual({
+      items: [{ id: 1 }, { id: 2 }],
+      totalCount: 42,
+    });
+
+    fetchMock.mockResolvedValue(jsonResponse([]));
+    await expect(api.list('/greetings')).resolves.toEqual({ items: [], totalCount: null });
+  });
+
+  it('retries once on 401 with a force-refreshed token', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ error: { code: 'token_expired' } }, 401))
+      .mockResolvedValueOnce(jsonResponse({ id: 'me' }));
+    const getToken = vi.fn(({ forceRefresh }: { forceRefresh: boolean }) => (forceRefresh ? 'fresh' : 'stale'));
+    const api = createApiClient({ baseUrl: '/api', getToken });
+
+    await expect(api.get('/me')).resolves.toEqual({ id: 'me' });
+    expect(getToken.mock.calls.map(([opts]) => opts.forceRefresh)).toEqual([false, true]);
+    expect(sentRequest(fetchMock, 0).headers.get('Authorization')).toBe('Bearer stale');
+    expect(sentRequest(fetchMock, 1).headers.get('Authorization')).toBe('Bearer fresh');
+    expect(sentRequest(fetchMock, 0).headers.get('X-Request-ID')).not.toBe(
+      sentRequest(fetchMock, 1).headers.get('X-Request-ID'),
+    );
+  });
+
+  it('throws the 401 ApiError when the retry fails or no token can be refreshed', async () => {
+    fetchMock.mockImplementation(() => Promise.resolve(jsonResponse({ error: { code: 'unauthorized' } }, 401)));
+    const api = createApiClient({ getToken: () => 'tok' });
+    await expect(api.get('/api/me')).rejects.toMatchObject({ status: 401, code: 'unauthorized' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    fetchMock.mockClear();
+    const noRefresh = createApiClient({ getToken: ({ forceRefresh }) => (forceRefresh ? null : 'tok') });
+    await expect(noRefresh.get('/api/me')).rejects.toBeInstanceOf(ApiError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry 401 without a token', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ error: { code: 'unauthorized' } }, 401));
+    const getToken = vi.fn(() => null);
+    const api = createApiClient({ getToken });
+    await expect(api.get('/api/me')).rejects.toMatchObject({ status: 401 });
+    expect(getToken).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('normalizes network failures to ApiError', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+    const api = createApiClient();
+    await expect(api.post('/api/greetings', { text: 'x' })).rejects.toMatchObject({
+      kind: 'network',
+      code: 'network_error',
+    });
+  });
+
+  it('rejects with the AbortError when the caller cancels', async () => {
+    const controller = new AbortController();
+    const abort = new DOMException('Aborted', 'AbortError');
+    fetchMock.mockImplementation((_url: string, init: RequestInit) => {
+      expect(init.signal).toBe(controller.signal);
+      controller.abort();
+      return Promise.reject(abort);
+    });
+    const api = createApiClient();
+    await expect(api.get('/api/slow', { signal: controller.signal })).rejects.toBe(abort);
+  });
+
+  it('logs request and response via the registered fetch logger with one request_id', async () => {
+    const logFn = vi.fn();
+    registerFetchLogger(logFn);
+    fetchMock.mockResolvedValue(jsonResponse({}, 200));
+    await createApiClient().get('/api/ping');
+    const requestId = sentRequest(fetchMock).headers.get('X-Request-ID');
+    expect(logFn).toHaveBeenCalledWith('→ GET /api/ping', expect.objectContaining({ requestId }));
+    expect(logFn).toHaveBeenCalledWith(
+      '← 200 GET /api/ping',
+      expect.objectContaining({ requestId, status: 200, duration_ms: expect.any(Number) }),
+    );
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Typed JSON API client on top of fetchWithRequestId.
+ *
+ * Usage (one client per backend, e.g. in a module or a provider):
+ *   const { getAccessTokenSilently } = useAuth0();
+ *   const api = createApiClient({
+ *     baseUrl: '/api',
+ *     getToken: ({ forceRefresh }) =>
+ *       getAccessToken(() => getAccessTokenSilently(forceRefresh ? { cacheMode: 'off' } : undefined)),
+ *   });
+ *   const greeting = await api.post<Greeting>('/greetings', { text }, { signal });
+ *   const { items, totalCount } = await api.list<Greeting>('/greetings', { query: { page: 2 } });
+ *
+ * - URLs: relative base URLs go through apiUrl (Next.js basePath); absolute ones are used as-is.
+ * - Auth: `Authorization: Bearer <token>` when getToken returns one. A 401 is retried once after
+ *   `getToken({ forceRefresh: true })` (silent refresh); `null` sends the request without a token.
+ *   The token only goes to URLs under `baseUrl` or on the page's own origin: an absolute path
+ *   to any other host is sent without it.
+ * - Bodies: plain objects / arrays are JSON-encoded; FormData, Blob, URLSearchParams and strings
+ *   are sent as-is.
+ * - Errors: every failure is an ApiError (see api-error.ts), including network errors and
+ *   timeouts. A request cancelled through `signal` rejects with the original AbortError.
+ * - Logging: request and response go through the registered fetch logger (registerFetchLogger)
+ *   with the same request_id as the X-Request-ID header.
+ */
+
+import { apiErrorFromFailure, parseApiResponse } from './api-error';
+import { apiUrl, isSameOriginUrl } from './paths';
+import { fetchWithRequestId, logFetchResponse, REQUEST_ID_HEADER } from './requestId';
+
+export type QueryValue = string | number | boolean | null | undefined;
+
+export type ApiRequestOptions = {
+  /** Query parameters; null / undefined are skipped, arrays repeat the key. */
+  query?: Record<string, QueryValue | readonly QueryValue[]>;
+  headers?: HeadersInit;
+  signal?: AbortSignal;
+};
+
+export type ApiResponse<T> = {
+  data: T;
+  status: number;
+  headers: Headers;
+  /** Parsed `X-Total-Count` header, or null when absent. */
+  totalCount: number | null;
+};
+
+export type ApiListResult<T> = {
+  items: T[];
+  /** Parsed `X-Total-Count` header, or null when absent. */
+  totalCount: number | null;
+};
+
+export type GetTokenOptions = {
+  /** True on the retry after a 401: bypass any token cache. */
+  forceRefresh: boolean;
+};
+
+export type ApiClientOptions = {
+  /** Prefix for request paths (e.g. `/api` or an absolute backend URL). Default `''`. */
+  baseUrl?: string;
+  /** Bearer token source; return null to send the request without `Authorization`. */
+  getToken?: (options: GetTokenOptions) => Promise<string | null> | string | null;
+  /** Headers sent with every request (per-request headers win). */
+  headers?: HeadersInit;
+};
+
+export type ApiClient = {
+  request<T>(method: string, path: string, options?: ApiRequestOptions & { body?: unknown }): Promise<ApiResponse<T>>;
+  get<T>(path: string, options?: ApiRequestOptions): Promise<T>;
+  /** GET a list endpoint, with the `X-Total-Count` header for pagination. */
+  list<T>(path: string, options?: ApiRequestOptions): Promise<ApiListResult<T>>;
+  post<T>(path: string, body?: unknown, options?: ApiRequestOptions): Promise<T>;
+  put<T>(path: string, body?: unknown, options?: ApiRequestOptions): Promise<T>;
+  patch<T>(path: string, body?: unknown, options?: ApiRequestOptions): Promise<T>;
+  delete<T = void>(path: string, options?: ApiRequestOptions): Promise<T>;
+};
+
+export const TOTAL_COUNT_HEADER = 'X-Total-Count';
+
+const ABSOLUTE_URL = /^[a-z][a-z0-9+.-]*:/i;
+
+function buildUrl(baseUrl: string, path: string, query: ApiRequestOptions['query']): string {
+  let url = path;
+  if (!ABSOLUTE_URL.test(path)) {
+    const joined = `${baseUrl.replace(/\/$/, '')}${path.startsWith('/') ? path : `/${path}`}`;
+    url = ABSOLUTE_URL.test(joined) ? joined : apiUrl(joined);
+  }
+  if (query) {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      const values = Array.isArray(value) ? value : [value];
+      for (const v of values) {
+        if (v !== null && v !== undefined) params.append(key, String(v));
+      }
+    }
+    const search = params.toString();
+    if (search) url += `${url.includes('?') ? '&' : '?'}${search}`;
+  }
+  return url;
+}
+
+/** True when `url` is under `baseUrl` or on the page's origin — the only targets that get the token. */
+function isTokenTarget(baseUrl: string, url: string): boolean {
+  const base = baseUrl.replace(/\/$/, '');
+  if (ABSOLUTE_URL.test(base) && (url === base || url.startsWith(`${base}/`) || url.startsWith(`${base}?`))) {
+    return true;
+  }
+  return isSameOriginUrl(url);
+}
+
+function isRawBody(body: unknown): body is BodyInit {
+  return (
+    typeof body === 'string' ||
+    (typeof FormData !== 'undefined' && body instanceof FormData) ||
+    (typeof Blob !== 'undefined' && body instanceof Blob) ||
+    body instanceof URLSearchParams ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body)
+  );
+}
+
+function parseTotalCount(headers: Headers): number | null {
+  const value = headers.get(TOTAL_COUNT_HEADER)?.trim();
+  return value && /^\d+$/.test(value) ? Number(value) : null;
+}
+
+function newRequestId(): string {
+  return typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : '';
+}
+
+function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+export function createApiClient(options: ApiClientOptions = {}): ApiClient {
+  const baseUrl = options.baseUrl ?? '';
+
+  async function request<T>(
+    method: string,
+    path: string,
+    requestOptions: ApiRequestOptions & { body?: unknown } = {},
+  ): Promise<ApiResponse<T>> {
+    const { body, signal } = requestOptions;
+    const upperMethod = method.toUpperCase();
+    const url = buildUrl(baseUrl, path, requestOptions.query);
+    const headers = new Headers(options.headers);
+    new Headers(requestOptions.headers).forEach((value, key) => headers.set(key, value));
+    if (!headers.has('Accept')) headers.set('Accept', 'application/json');
+
+    let encodedBody: BodyInit | undefined;
+    if (body !== undefined && body !== null) {
+      if (isRawBody(body)) {
+        encodedBody = body;
+      } else {
+        encodedBody = JSON.stringify(body);
+        if (!headers.has('Content-Type')) headers.set('Content-Type', 'application/json');
+      }
+    }
+
+    async function send(token: string | null): Promise<Response> {
+      const attemptHeaders = new Headers(headers);
+      if (token) attemptHeaders.set('Authorization', `Bearer ${token}`);
+      const requestId = attemptHeaders.get(REQUEST_ID_HEADER) || newRequestId();
+      if (requestId) attemptHeaders.set(REQUEST_ID_HEADER, requestId);
+      const startedAt = now();
+      try {
+        const response = await fetchWithRequestId(
+          url,
+          { method: upperMethod, headers: attemptHeaders, body: encodedBody, signal },
+          undefined,
+          isTokenTarget(baseUrl, url),
+        );
+        logFetchResponse(requestId, upperMethod, url, response.status, Math.round(now() - startedAt));
+        return response;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        throw apiErrorFromFailure(error);
+      }
+    }
+
+    // An explicit Authorization header is the caller's choice: no token lookup, no refresh.
+    const getToken = headers.has('Authorization') || !isTokenTarget(baseUrl, url) ? undefined : options.getToken;
+    const token = getToken ? await getToken({ forceRefresh: false }) : null;
+    let response = await send(token);
+
+    if (response.status === 401 && getToken && token) {
+      const refreshed = await getToken({ forceRefresh: true });
+      if (refreshed) {
+        // Release the connection of the rejected response before retrying.
+        await response.body?.cancel().catch(() => {});
+        response = await send(refreshed);
+      }
+    }
+
+    const data = await parseApiResponse<T>(response, { signal });
+    return { data, status: response.status, headers: response.headers, totalCount: parseTotalCount(response.headers) };
+  }
+
+  return {
+    request,
+    get: async <T>(path: string, opts?: ApiRequestOptions) => (await request<T>('GET', path, opts)).data,
+    list: async <T>(path: string, opts?: ApiRequestOptions) => {
+      const result = await request<T[] | undefined>('GET', path, opts);
+      return { items: result.data ?? [], totalCount: result.totalCount };
+    },
+    post: async <T>(path: string, body?: unknown, opts?: ApiRequestOptions) =>
+      (await request<T>('POST', path, { ...opts, body })).data,
+    put: async <T>(path: string, body?: unknown, opts?: ApiRequestOptions) =>
+      (await request<T>('PUT', path, { ...opts, body })).data,
+    patch: async <T>(path: string, body?: unknown, opts?: ApiRequestOptions) =>
+      (await request<T>('PATCH', path, { ...opts, body })).data,
+    delete: async <T = void>(path: string, opts?: ApiRequestOptions) => (await request<T>('DELETE', path, opts)).data,
+  };
+}
@@ -0,0 +1,196 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ApiError, apiErrorFromFailure, isApiError, parseApiResponse } from './api-error';
+import { mapApiError } from './auth-error-mapper';
+import { createContextLogger } from './context-logger';
+import type { Logger } from './logger';
+
+function jsonResponse(body: unknown, status: number, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+async function rejection(promise: Promise<unknown>): Promise<ApiError> {
+  try {
+    await promise;
+  } catch (error) {
+    expect(isApiError(error)).toBe(true);
+    return error as ApiError;
+  }
+  throw new Error('expected parseApiResponse to throw');
+}
+
+describe('parseApiResponse', () => {
+  it('returns the parsed JSON body on success', async () => {
+    await expect(parseApiResponse(jsonResponse({ id: 1 }, 200))).resolves.toEqual({ id: 1 });
+  });
+
+  it('returns undefined for 204 and text for non-JSON bodies', async () => {
+    await expect(parseApiResponse(new Response(null, { status: 204 }))).resolves.toBeUndefined();
+    await expect(parseApiResponse(new Response('ok', { status: 200 }))).resolves.toBe('ok');
+  });
+
+  it('accepts the fetch promise', async () => {
+    await expect(parseApiResponse(Promise.resolve(jsonResponse([1, 2], 200)))).resolves.toEqual([1, 2]);
+  });
+
+  it('normalizes RFC 7807 problem+json', async () => {
+    const response = new Response(
+      JSON.stringify({
+        type: 'https://errors.example/tenant-not-found',
+        title: 'Tenant not found',
+        status: 404,
+        detail: 'No tenant with id t-1',
+        instance: '/v1/tenants/t-1',
+        code: 'tenant_not_found',
+        request_id: 'req-problem',
+      }),
+      { status: 404, headers: { 'Content-Type': 'application/problem+json' } },
+    );
+    const error = await rejection(parseApiResponse(response));
+    expect(error).toBeInstanceOf(Error);
+    expect(error.kind).toBe('http');
+    expect(error.status).toBe(404);
+    expect(error.code).toBe('tenant_not_found');
+    expect(error.message).toBe('No tenant with id t-1');
+    expect(error.requestId).toBe('req-problem');
+    expect(error.problem).toEqual({
+      type: 'https://errors.example/tenant-not-found',
+      title: 'Tenant not found',
+      detail: 'No tenant with id t-1',
+      instance: '/v1/tenants/t-1',
+    });
+  });
+
+  it('derives the code from the status when a problem has none', async () => {
+    const response = new Response(JSON.stringify({ type: 'about:blank', title: 'Service Unavailable' }), {
+      status: 503,
+      headers: { 'Content-Type': 'application/problem+json', 'Retry-After': '7' },
+    });
+    const error = await rejection(parseApiResponse(response));
+    expect(error.code).toBe('service_unavailable');
+    expect(error.message).toBe('Service Unavailable');
+    expect(error.retryAfter).toBe(7);
+  });
+
+  it('normalizes the IAM {error:{code,message}} shape', async () => {
+    const error = await rejection(
+      parseApiResponse(
+        jsonResponse({ error: { code: 'invalid_credentials', message: 'bad password' }, request_id: 'req-iam' }, 401),
+      ),
+    );
+    expect(error.status).toBe(401);
+    expect(error.code).toBe('invalid_credentials');
+    expect(error.message).toBe('bad password');
+    expect(error.requestId).toBe('req-iam');
+    expect(error.problem).toBeUndefined();
+    expect(error.body).toEqual({ error: { code: 'invalid_credentials', message: 'bad password' }, request_id: 'req-iam' });
+  });
+
+  it('handles {error: string} bodies', async () => {
+    const error = await rejection(parseApiResponse(jsonResponse({ error: 'Forbidden', code: 'forbidden' }, 403)));
+    expect(error.code).toBe('forbidden');
+    expect(error.message).toBe('Forbidden');
+  });
+
+  it('handles plain-text errors and falls back to the X-Request-ID header', async () => {
+    const response = new Response('upstream connect error', {
+      status: 502,
+      headers: { 'Content-Type': 'text/plain', 'X-Request-ID': 'req-header' },
+    });
+    const error = await rejection(parseApiResponse(response));
+    expect(error.code).toBe('internal_error');
+    expect(error.message).toBe('upstream connect error');
+    expect(error.requestId).toBe('req-header');
+  });
+
+  it('uses http_<status> and statusText for empty client errors', async () => {
+    const error = await rejection(parseApiResponse(new Response(null, { status: 404, statusText: 'Not Found' })));
+    expect(error.code).toBe('http_404');
+    expect(error.message).toBe('Not Found');
+  });
+
+  it('maps 429 to rate_limit_exceeded with retryAfter in seconds', async () => {
+    const error = await rejection(parseApiResponse(jsonResponse({}, 429, { 'Retry-After': '30' })));
+    expect(error.code).toBe('rate_limit_exceeded');
+    expect(error.retryAfter).toBe(30);
+  });
+
+  it('normalizes network failures', async () => {
+    const error = await rejection(parseApiResponse(Promise.reject(new TypeError('Failed to fetch'))));
+    expect(error.kind).toBe('network');
+    expect(error.status).toBe(0);
+    expect(error.code).toBe('network_error');
+    expect(error.message).toBe('Failed to fetch');
+  });
+
+  it('normalizes timeouts', async () => {
+    const abort = new DOMException('The operation was aborted.', 'AbortError');
+    const error = await rejection(parseApiResponse(Promise.reject(abort)));
+    expect(error.kind).toBe('timeout');
+    expect(error.code).toBe('timeout');
+  });
+
+  it('rethrows the original error when the caller aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const abort = new DOMException('Aborted', 'AbortError');
+    await expect(parseApiResponse(Promise.reject(abort), { signal: controller.signal })).rejects.toBe(abort);
+  });
+});
+
+describe('apiErrorFromFailure', () => {
+  it('maps UpstreamError codes', () => {
+    const timeout = Object.assign(new Error('iam timed out'), { name: 'UpstreamError', code: 'deadline_exceeded' });
+    expect(apiErrorFromFailure(timeout).code).toBe('timeout');
+
+    const open = Object.assign(new Error('Circuit open for iam'), {
+      name: 'UpstreamError',
+      code: 'circuit_open',
+      retryAfterSeconds: 12,
+    });
+    const error = apiErrorFromFailure(open);
+    expect(error.code).toBe('service_unavailable');
+    expect(error.retryAfter).toBe(12);
+  });
+});
+
+describe('mapApiError', () => {
+  it('maps ApiError codes through AUTH_ERROR_MESSAGES', async () => {
+    const error = await rejection(parseApiResponse(jsonResponse({ error: { code: 'account_locked' } }, 423)));
+    expect(mapApiError(error)).toBe(
+      'Account temporarily locked due to multiple failed login attempts. Please try again in 15 minutes.',
+    );
+    expect(mapApiError(apiErrorFromFailure(new TypeError('Failed to fetch')))).toBe(
+      'Network error. Please check your connection and try again.',
+    );
+  });
+
+  it('falls back to the default for unknown codes and non-API errors', () => {
+    expect(mapApiError(new Error('boom'), 'Could not save')).toBe('Could not save');
+    expect(mapApiError(new ApiError({ kind: 'http', status: 404, code: 'http_404', message: 'x' }))).toBe(
+      'An error occurred. Please try again.',
+    );
+  });
+});
+
+describe('createContextLogger with ApiError', () => {
+  it('logs request_id, status and error_code from the error', async () => {
+    const error = await rejection(
+      parseApiResponse(jsonResponse({ error: { code: 'rate_limit_exceeded' }, request_id: 'req-api' }, 429)),
+    );
+    const base = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    createContextLogger('useThing', base as unknown as Logger).error('Failed', { id: 1 }, error);
+    expect(base.error).toHaveBeenCalledWith(
+      'Failed',
+      expect.objectContaining({
+        service: 'useThing',
+        request_id: 'req-api',
+        status: 429,
+        error_code: 'rate_limit_exceeded',
+        id: 1,
+      }),
+    );
+  });
+});
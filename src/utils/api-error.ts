@@ -0,0 +1,241 @@
+/**
+ * Typed API errors for IAM / engine / BFF responses.
+ *
+ * `parseApiResponse()` turns a fetch result into the parsed body on success, or throws one
+ * {@link ApiError} shape for every kind of failure:
+ * - RFC 7807 `application/problem+json` (`type`, `title`, `detail`, `instance`, extension `code`)
+ * - IAM `{ error: { code, message }, request_id }` (and `{ error: 'message' }`)
+ * - plain-text / HTML error pages
+ * - network failures and timeouts (no response at all)
+ *
+ * Usage:
+ *   try {
+ *     const me = await parseApiResponse<User>(fetchWithRequestId(apiUrl('/v1/me')));
+ *   } catch (error) {
+ *     log.error('Failed to load profile', {}, error); // request_id / status / error_code from the ApiError
+ *     setMessage(mapApiError(error));                  // user-facing text via AUTH_ERROR_MESSAGES
+ *   }
+ *
+ * Codes without a body code fall back to the status (429 → `rate_limit_exceeded`,
+ * 503 → `service_unavailable`, other 5xx → `internal_error`, else `http_<status>`), and failures
+ * without a response use `network_error` / `timeout`, so they all map through mapAuthError.
+ */
+
+import { parseRetryAfter } from './retry-backoff';
+
+export type ApiErrorKind = 'http' | 'network' | 'timeout';
+
+/** RFC 7807 problem details members (present only for problem+json bodies). */
+export type ProblemDetails = {
+  type?: string;
+  title?: string;
+  detail?: string;
+  instance?: string;
+};
+
+export type ApiErrorOptions = {
+  kind: ApiErrorKind;
+  /** HTTP status; 0 when no response was received. */
+  status: number;
+  code: string;
+  message: string;
+  requestId?: string;
+  retryAfter?: number;
+  problem?: ProblemDetails;
+  body?: unknown;
+  cause?: unknown;
+};
+
+/** Normalized failure of an API call; see {@link parseApiResponse}. */
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  /** HTTP status; 0 for network failures and timeouts. */
+  readonly status: number;
+  /** Machine-readable code (IAM / problem `code`, or derived from the status). */
+  readonly code: string;
+  /** Backend request_id (body `request_id`, else the `X-Request-ID` response header). */
+  readonly requestId?: string;
+  /** Suggested wait before retrying, in seconds (from `Retry-After`). */
+  readonly retryAfter?: number;
+  readonly problem?: ProblemDetails;
+  /** Parsed response body (JSON object or text), for callers that need extra fields. */
+  readonly body?: unknown;
+
+  constructor(options: ApiErrorOptions) {
+    super(options.message);
+    this.name = 'ApiError';
+    this.kind = options.kind;
+    this.status = options.status;
+    this.code = options.code;
+    this.requestId = options.requestId;
+    this.retryAfter = options.retryAfter;
+    this.problem = options.problem;
+    this.body = options.body;
+    if (options.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+export type ParseApiResponseOptions = {
+  /**
+   * The caller's abort signal. When it is aborted the original AbortError is rethrown, so
+   * user cancellations are not reported as timeouts.
+   */
+  signal?: AbortSignal | null;
+};
+
+/** Longest plain-text body kept as the error message. */
+const MAX_TEXT_MESSAGE_LENGTH = 500;
+
+/** Code used when the body carries none. */
+export function codeForStatus(status: number): string {
+  if (status === 429) return 'rate_limit_exceeded';
+  if (status === 503) return 'service_unavailable';
+  if (status >= 500) return 'internal_error';
+  return `http_${status}`;
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function isJsonContentType(contentType: string): boolean {
+  return /[/+]json\b/i.test(contentType);
+}
+
+async function readBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  if (!text) return undefined;
+  const contentType = response.headers.get('Content-Type') ?? '';
+  if (isJsonContentType(contentType) || /^\s*[{[]/.test(text)) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  return text;
+}
+
+/** Builds the ApiError for a non-2xx response (the body must not have been read yet). */
+export async function apiErrorFromResponse(response: Response): Promise<ApiError> {
+  let body: unknown;
+  try {
+    body = await readBody(response);
+  } catch {
+    body = undefined;
+  }
+  const status = response.status;
+  const contentType = response.headers.get('Content-Type') ?? '';
+  const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+  const retryAfter = retryAfterMs === null ? undefined : Math.ceil(retryAfterMs / 1000);
+  let requestId = response.headers.get('X-Request-ID') ?? undefined;
+  let code: string | undefined;
+  let message: string | undefined;
+  let problem: ProblemDetails | undefined;
+
+  if (body && typeof body === 'object' && !Array.isArray(body)) {
+    const data = body as Record<string, unknown>;
+    requestId = asString(data.request_id) ?? requestId;
+    if (/application\/problem\+json/i.test(contentType) || ('type' in data && 'title' in data)) {
+      problem = {
+        type: asString(data.type),
+        title: asString(data.title),
+        detail: asString(data.detail),
+        instance: asString(data.instance),
+      };
+      code = asString(data.code);
+      message = problem.detail ?? problem.title;
+    } else if (typeof data.error === 'string') {
+      message = data.error;
+      code = asString(data.code);
+    } else if (data.error && typeof data.error === 'object') {
+      const inner = data.error as Record<string, unknown>;
+      code = asString(inner.code);
+      message = asString(inner.message);
+      requestId = asString(inner.request_id) ?? requestId;
+    } else {
+      code = asString(data.code);
+      message = asString(data.message);
+    }
+  } else if (typeof body === 'string') {
+    const text = body.trim();
+    message = text.length > MAX_TEXT_MESSAGE_LENGTH ? `${text.slice(0, MAX_TEXT_MESSAGE_LENGTH)}…` : text || undefined;
+  }
+
+  return new ApiError({
+    kind: 'http',
+    status,
+    code: code ?? codeForStatus(status),
+    message: message ?? (response.statusText || `Request failed with status ${status}`),
+    requestId,
+    retryAfter,
+    problem,
+    body,
+  });
+}
+
+/**
+ * Normalizes a fetch rejection (no response) into an ApiError: AbortError / TimeoutError and
+ * UpstreamError `timeout` / `deadline_exceeded` become `timeout`, everything else `network_error`.
+ */
+export function apiErrorFromFailure(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  const { name, code, retryAfterSeconds } = (error ?? {}) as {
+    name?: string;
+    code?: string;
+    retryAfterSeconds?: number;
+  };
+  const message = error instanceof Error ? error.message : String(error);
+  const timedOut =
+    name === 'AbortError' ||
+    name === 'TimeoutError' ||
+    (name === 'UpstreamError' && (code === 'timeout' || code === 'deadline_exceeded'));
+  if (name === 'UpstreamError' && code === 'circuit_open') {
+    return new ApiError({
+      kind: 'network',
+      status: 0,
+      code: 'service_unavailable',
+      message,
+      retryAfter: retryAfterSeconds,
+      cause: error,
+    });
+  }
+  return new ApiError({
+    kind: timedOut ? 'timeout' : 'network',
+    status: 0,
+    code: timedOut ? 'timeout' : 'network_error',
+    message,
+    cause: error,
+  });
+}
+
+/**
+ * Resolves to the parsed body of a 2xx response (JSON, text, or undefined when empty) and throws
+ * an {@link ApiError} otherwise. Accepts the fetch promise itself so network failures and
+ * timeouts are normalized too.
+ */
+export async function parseApiResponse<T = unknown>(
+  response: Response | Promise<Response>,
+  options: ParseApiResponseOptions = {},
+): Promise<T> {
+  let res: Response;
+  try {
+    res = await response;
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    throw apiErrorFromFailure(error);
+  }
+  if (!res.ok) {
+    throw await apiErrorFromResponse(res);
+  }
+  if (res.status === 204 || res.status === 205) {
+    return undefined as T;
+  }
+  return (await readBody(res)) as T;
+}
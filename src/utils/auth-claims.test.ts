@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { getClaimValues, hasPermissions, hasRoles, matchesClaims } from './auth-claims';
+import type { Auth0User } from '../types/auth0';
+
+const user: Auth0User = {
+  sub: 'auth0|1',
+  roles: ['viewer'],
+  'https://exbrain.ai/roles': ['admin', 'viewer'],
+  permissions: 'read:users write:users',
+  'https://exbrain.ai/tenant': 'acme',
+  app_roles: ['billing'],
+  'https://other.example/roles': ['owner'],
+};
+
+const namespace = 'https://exbrain.ai';
+
+describe('getClaimValues', () => {
+  it('merges the plain claim with the app namespace claim and de-duplicates', () => {
+    expect(getClaimValues(user, 'roles', namespace)).toEqual(['viewer', 'admin']);
+    expect(getClaimValues(user, 'roles', `${namespace}/`)).toEqual(['viewer', 'admin']);
+  });
+
+  it('ignores claims under other namespaces', () => {
+    expect(getClaimValues(user, 'roles')).toEqual(['viewer']);
+    expect(getClaimValues(user, 'roles', namespace)).not.toContain('owner');
+  });
+
+  it('splits space-separated strings and ignores non-string values', () => {
+    expect(getClaimValues(user, 'permissions')).toEqual(['read:users', 'write:users']);
+    expect(getClaimValues({ sub: 'x', roles: ['a', 1, null] }, 'roles')).toEqual(['a']);
+  });
+
+  it('returns [] for a missing user or claim', () => {
+    expect(getClaimValues(undefined, 'roles')).toEqual([]);
+    expect(getClaimValues({ sub: 'x' }, 'roles')).toEqual([]);
+  });
+});
+
+describe('matchesClaims', () => {
+  it('supports any / all and passes empty requirements', () => {
+    expect(matchesClaims(['a'], ['a', 'b'], 'any')).toBe(true);
+    expect(matchesClaims(['a'], ['a', 'b'], 'all')).toBe(false);
+    expect(matchesClaims([], [], 'all')).toBe(true);
+  });
+});
+
+describe('hasRoles / hasPermissions', () => {
+  it('defaults roles to any and permissions to all', () => {
+    expect(hasRoles(user, ['owner', 'admin'], { namespace })).toBe(true);
+    expect(hasRoles(user, ['viewer', 'admin'], { match: 'all', namespace })).toBe(true);
+    expect(hasRoles(user, ['owner', 'admin'], { match: 'all', namespace })).toBe(false);
+    expect(hasPermissions(user, ['read:users', 'delete:users'])).toBe(false);
+    expect(hasPermissions(user, ['read:users', 'delete:users'], { match: 'any' })).toBe(true);
+  });
+
+  it('reads only the given claim when one is set', () => {
+    expect(hasRoles(user, ['billing'], { claim: 'app_roles' })).toBe(true);
+    expect(hasRoles(user, ['admin'], { claim: 'app_roles' })).toBe(false);
+  });
+
+  it('fails for a missing user unless nothing is required', () => {
+    expect(hasRoles(undefined, ['admin'])).toBe(false);
+    expect(hasPermissions(null, [])).toBe(true);
+  });
+});
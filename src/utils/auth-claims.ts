@@ -0,0 +1,79 @@
+/**
+ * Role / permission checks over Auth0 user claims.
+ *
+ * Auth0 only allows custom claims under a namespace, so roles usually arrive as
+ * `<namespace>/roles` (added by a post-login Action) rather than `roles`. `getClaimValues`
+ * reads the plain claim and, given the app's namespace, `<namespace>/<name>`, as an array or
+ * a space-separated string (scope style). Claims under other namespaces are ignored: they may
+ * come from another app's Action.
+ *
+ * Usage:
+ *   if (hasRoles(user, ['admin', 'owner'])) showAdminMenu();            // any of
+ *   if (hasPermissions(user, ['read:users', 'write:users'])) ...;       // all of
+ *   hasRoles(user, ['admin'], { namespace: CLAIM_NAMESPACE });          // plus `<ns>/roles`
+ *   hasRoles(user, ['admin'], { claim: 'app_metadata_roles' });         // exact claim name
+ */
+
+import type { Auth0User } from '../types/auth0';
+
+/** `any`: at least one required value present; `all`: every required value present. */
+export type ClaimMatch = 'any' | 'all';
+
+export type ClaimCheckOptions = {
+  match?: ClaimMatch;
+  /** The app's custom-claim namespace; `<namespace>/<name>` is read with the plain claim. */
+  namespace?: string;
+  /** Exact claim name to read instead of `<name>` and `<namespace>/<name>`. */
+  claim?: string;
+};
+
+function toValues(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string');
+  }
+  if (typeof value === 'string') {
+    return value.split(/\s+/).filter(Boolean);
+  }
+  return [];
+}
+
+/**
+ * Values of claim `name` on the user: the plain claim plus `<namespace>/<name>` when a
+ * namespace is given, de-duplicated. Returns [] for a missing user.
+ */
+export function getClaimValues(user: Auth0User | null | undefined, name: string, namespace?: string): string[] {
+  if (!user) return [];
+  const values = new Set(toValues(user[name]));
+  if (namespace) {
+    toValues(user[`${namespace.replace(/\/+$/, '')}/${name}`]).forEach((item) => values.add(item));
+  }
+  return [...values];
+}
+
+/** True when `present` satisfies `required` under `match`. An empty requirement always passes. */
+export function matchesClaims(present: readonly string[], required: readonly string[], match: ClaimMatch): boolean {
+  if (required.length === 0) return true;
+  return match === 'all'
+    ? required.every((value) => present.includes(value))
+    : required.some((value) => present.includes(value));
+}
+
+/** Role check; `match` defaults to `any`. */
+export function hasRoles(
+  user: Auth0User | null | undefined,
+  roles: readonly string[],
+  options: ClaimCheckOptions = {},
+): boolean {
+  const present = options.claim ? toValues(user?.[options.claim]) : getClaimValues(user, 'roles', options.namespace);
+  return matchesClaims(present, roles, options.match ?? 'any');
+}
+
+/** Permission check; `match` defaults to `all`. */
+export function hasPermissions(
+  user: Auth0User | null | undefined,
+  permissions: readonly string[],
+  options: ClaimCheckOptions = {},
+): boolean {
+  const present = options.claim ? toValues(user?.[options.claim]) : getClaimValues(user, 'permissions', options.namespace);
+  return matchesClaims(present, permissions, options.match ?? 'all');
+}
@@ -6,6 +6,7 @@
  */
 
 import { AUTH_ERROR_MESSAGES, MSG_AUTH_DEFAULT } from '../lib/messages'
+import { isApiError } from './api-error'
 
 export interface AuthError {
   code: string
@@ -26,6 +27,17 @@ export function mapAuthError(errorCode: string | undefined, defaultMessage?: str
   return AUTH_ERROR_MESSAGES[errorCode] ?? defaultMessage ?? MSG_AUTH_DEFAULT
 }
 
+/**
+ * Maps any error thrown by parseApiResponse (or a fetch call) to a user-friendly message
+ *
+ * @param error - Caught error; ApiError codes go through mapAuthError, anything else gets the default
+ * @param defaultMessage - Default error message if the code is not recognized
+ * @returns User-friendly error message
+ */
+export function mapApiError(error: unknown, defaultMessage?: string): string {
+  return mapAuthError(isApiError(error) ? error.code : undefined, defaultMessage)
+}
+
 /**
  * Extracts error code and message from API response
  * 
@@ -72,6 +72,16 @@ describe('auth events', () => {
       });
     });
 
+    it('should include source for propagated events', () => {
+      logAuthEvent({ eventType: 'logout', appName: 'hello', userId: 'user-123', source: 'cross_tab' });
+      expect(logger.info).toHaveBeenCalledWith('Authentication event', {
+        eventType: 'logout',
+        appName: 'hello',
+        user_id: 'user-123',
+        source: 'cross_tab',
+      });
+    });
+
     it('should always include appName in log output', () => {
       const context: AuthEventContext = {
         eventType: 'login_attempt',
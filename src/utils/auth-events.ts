@@ -1,7 +1,8 @@
 /**
  * Authentication Event Logging
  * 
- * Structured logging for authentication events (login, signup, password reset).
+ * Structured logging for authentication events (login, signup, password reset, logout,
+ * token refresh, idle session timeout).
  * Uses Pino logger for structured JSON logs compatible with Loki log aggregation.
  */
 
@@ -9,7 +10,7 @@ import logger from './logger';
 
 export interface AuthEventContext {
   timestamp?: string
-  eventType: 'login_attempt' | 'login_success' | 'login_failure' | 'signup_attempt' | 'signup_success' | 'signup_failure' | 'password_reset_request' | 'auth_error'
+  eventType: 'login_attempt' | 'login_success' | 'login_failure' | 'signup_attempt' | 'signup_success' | 'signup_failure' | 'password_reset_request' | 'auth_error' | 'logout' | 'token_refresh' | 'session_timeout'
   userId?: string // Internal user ID (UUID) - safe to log, replaces email
   result?: 'success' | 'failure'
   errorCode?: string
@@ -17,6 +18,7 @@ export interface AuthEventContext {
   endpoint?: string
   requestId?: string
   appName: string // Application name for identification (REQUIRED)
+  source?: string // Where the event originated, e.g. 'cross_tab' for events propagated from another tab
 }
 
 /**
@@ -36,6 +38,7 @@ export function logAuthEvent(context: AuthEventContext): void {
     ...(context.errorMessage && { errorMessage: context.errorMessage }),
     ...(context.endpoint && { endpoint: context.endpoint }),
     ...(context.requestId && { requestId: context.requestId }),
+    ...(context.source && { source: context.source }),
   };
 
   // Use structured logger (Pino) instead of console.log
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  disableLogShipping: vi.fn(),
+  logAuthEvent: vi.fn(),
+}));
+
+vi.mock('./logger', () => ({ disableLogShipping: mocks.disableLogShipping }));
+vi.mock('./auth-events', () => ({ logAuthEvent: mocks.logAuthEvent }));
+
+import {
+  AUTH_SYNC_CHANNEL,
+  createAuthSyncBus,
+  publishAuthSyncEvent,
+  setActiveAuthSyncBus,
+  type AuthSyncBus,
+  type AuthSyncEvent,
+} from './auth-sync';
+
+function nextEvent(bus: AuthSyncBus): Promise<AuthSyncEvent> {
+  return new Promise((resolve) => {
+    const unsubscribe = bus.subscribe((event) => {
+      unsubscribe();
+      resolve(event);
+    });
+  });
+}
+
+describe('createAuthSyncBus (BroadcastChannel)', () => {
+  const buses: AuthSyncBus[] = [];
+  const bus = (channelName: string) => {
+    const created = createAuthSyncBus({ appName: 'hello', channelName });
+    buses.push(created);
+    return created;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    buses.splice(0).forEach((b) => b.close());
+  });
+
+  it('delivers events to other tabs, disables log shipping and records a logout', async () => {
+    const tabA = bus('test-logout');
+    const tabB = bus('test-logout');
+    const received = nextEvent(tabB);
+    tabA.publish('logout', 'user-1');
+    const event = await received;
+
+    expect(event).toMatchObject({ type: 'logout', tabId: tabA.tabId, userId: 'user-1' });
+    // Once in the publishing tab, once in the receiving tab.
+    expect(mocks.disableLogShipping).toHaveBeenCalledTimes(2);
+    expect(mocks.logAuthEvent).toHaveBeenCalledWith({
+      eventType: 'logout',
+      appName: 'hello',
+      userId: 'user-1',
+      source: 'cross_tab',
+    });
+  });
+
+  it('maps login and token refresh to auth event types without disabling log shipping', async () => {
+    const tabA = bus('test-login');
+    const tabB = bus('test-login');
+    const login = nextEvent(tabB);
+    tabA.publish('login');
+    await login;
+    const refresh = nextEvent(tabB);
+    tabA.publish('token_refresh');
+    await refresh;
+
+    expect(mocks.logAuthEvent.mock.calls.map(([context]) => context.eventType)).toEqual(['login_success', 'token_refresh']);
+    expect(mocks.disableLogShipping).not.toHaveBeenCalled();
+  });
+
+  it('stops delivering after close', async () => {
+    const tabA = bus('test-close');
+    const tabB = bus('test-close');
+    const listener = vi.fn();
+    tabB.subscribe(listener);
+    tabB.close();
+    tabA.publish('logout');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe('createAuthSyncBus (storage fallback)', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal('BroadcastChannel', undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('writes and removes a localStorage entry on publish', () => {
+    const setItem = vi.spyOn(Storage.prototype, 'setItem');
+    const removeItem = vi.spyOn(Storage.prototype, 'removeItem');
+    const tab = createAuthSyncBus({ appName: 'hello' });
+    tab.publish('token_refresh');
+    expect(setItem).toHaveBeenCalledWith(AUTH_SYNC_CHANNEL, expect.stringContaining('"type":"token_refresh"'));
+    expect(removeItem).toHaveBeenCalledWith(AUTH_SYNC_CHANNEL);
+    expect(window.localStorage.getItem(AUTH_SYNC_CHANNEL)).toBeNull();
+    tab.close();
+  });
+
+  it('receives events from storage events and ignores its own and malformed entries', () => {
+    const tab = createAuthSyncBus({ appName: 'hello' });
+    const listener = vi.fn();
+    tab.subscribe(listener);
+    const fire = (newValue: string | null) =>
+      window.dispatchEvent(new StorageEvent('storage', { key: AUTH_SYNC_CHANNEL, newValue }));
+
+    fire(JSON.stringify({ type: 'logout', tabId: 'other-tab', at: 1 }));
+    fire(JSON.stringify({ type: 'logout', tabId: tab.tabId, at: 2 }));
+    fire('not json');
+    fire(JSON.stringify({ type: 'wipe_disk', tabId: 'other-tab' }));
+    fire(null);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ type: 'logout', tabId: 'other-tab', at: 1 });
+    expect(mocks.disableLogShipping).toHaveBeenCalledTimes(1);
+    tab.close();
+  });
+});
+
+describe('publishAuthSyncEvent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    setActiveAuthSyncBus(null);
+  });
+
+  it('publishes on the active bus', () => {
+    const active = { tabId: 't', publish: vi.fn(), subscribe: vi.fn(), close: vi.fn() };
+    setActiveAuthSyncBus(active);
+    publishAuthSyncEvent('login', 'user-1');
+    expect(active.publish).toHaveBeenCalledWith('login', 'user-1');
+  });
+
+  it('still disables log shipping on logout without an active bus', () => {
+    publishAuthSyncEvent('logout');
+    expect(mocks.disableLogShipping).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Cross-tab auth event bus.
+ *
+ * Propagates login, logout and token refresh from one tab to every other tab of the same
+ * origin, so a logout on a shared workstation signs out all tabs at once. Uses
+ * BroadcastChannel where available and falls back to `storage` events (a short-lived
+ * localStorage entry) otherwise.
+ *
+ * - `publish('logout')` and a received logout both call disableLogShipping().
+ * - Every received event is recorded via logAuthEvent with `source: 'cross_tab'`.
+ * - Events never carry tokens; only the type, the sender tab id, a timestamp and the user id.
+ *
+ * AuthProvider starts the bus (setActiveAuthSyncBus) and applies received events to the Auth0
+ * client; the useAuth0 wrapper publishes logout and token refresh.
+ */
+
+import { logAuthEvent, type AuthEventContext } from './auth-events';
+import { disableLogShipping } from './logger';
+
+export type AuthSyncEventType = 'login' | 'logout' | 'token_refresh';
+
+export interface AuthSyncEvent {
+  type: AuthSyncEventType;
+  /** Id of the tab that published the event. */
+  tabId: string;
+  /** Epoch milliseconds when the event was published. */
+  at: number;
+  /** Internal user id (Auth0 `sub`), never an email. */
+  userId?: string;
+}
+
+export type AuthSyncListener = (event: AuthSyncEvent) => void;
+
+export interface AuthSyncBusOptions {
+  /** Application name recorded with each event (logAuthEvent `appName`). */
+  appName: string;
+  /** BroadcastChannel name / localStorage key. Default 'exbrain-auth-sync'. */
+  channelName?: string;
+}
+
+export interface AuthSyncBus {
+  readonly tabId: string;
+  /** Send an event to every other tab. */
+  publish: (type: AuthSyncEventType, userId?: string) => void;
+  /** Listen for events from other tabs; returns an unsubscribe function. */
+  subscribe: (listener: AuthSyncListener) => () => void;
+  close: () => void;
+}
+
+export const AUTH_SYNC_CHANNEL = 'exbrain-auth-sync';
+
+const EVENT_TYPES: Record<AuthSyncEventType, AuthEventContext['eventType']> = {
+  login: 'login_success',
+  logout: 'logout',
+  token_refresh: 'token_refresh',
+};
+
+function createTabId(): string {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+function parseEvent(data: unknown): AuthSyncEvent | null {
+  const value = typeof data === 'string' ? safeParse(data) : data;
+  if (!value || typeof value !== 'object') return null;
+  const event = value as Partial<AuthSyncEvent>;
+  if (!event.type || !(event.type in EVENT_TYPES) || typeof event.tabId !== 'string') return null;
+  return {
+    type: event.type,
+    tabId: event.tabId,
+    at: typeof event.at === 'number' ? event.at : Date.now(),
+    ...(typeof event.userId === 'string' && { userId: event.userId }),
+  };
+}
+
+function safeParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create a bus for this tab. Works as a no-op (publish does nothing, nothing is received)
+ * on the server or when neither BroadcastChannel nor localStorage is available.
+ */
+export function createAuthSyncBus(options: AuthSyncBusOptions): AuthSyncBus {
+  const channelName = options.channelName ?? AUTH_SYNC_CHANNEL;
+  const tabId = createTabId();
+  const listeners = new Set<AuthSyncListener>();
+  let closed = false;
+
+  function receive(data: unknown): void {
+    const event = parseEvent(data);
+    if (!event || event.tabId === tabId || closed) return;
+    if (event.type === 'logout') disableLogShipping();
+    logAuthEvent({
+      eventType: EVENT_TYPES[event.type],
+      appName: options.appName,
+      userId: event.userId,
+      source: 'cross_tab',
+    });
+    listeners.forEach((listener) => listener(event));
+  }
+
+  let send: (event: AuthSyncEvent) => void = () => {};
+  let teardown: () => void = () => {};
+
+  if (typeof BroadcastChannel === 'function') {
+    const channel = new BroadcastChannel(channelName);
+    channel.onmessage = (message: MessageEvent) => receive(message.data);
+    send = (event) => channel.postMessage(event);
+    teardown = () => channel.close();
+  } else if (typeof window !== 'undefined' && window.localStorage) {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === channelName && e.newValue) receive(e.newValue);
+    };
+    window.addEventListener('storage', onStorage);
+    send = (event) => {
+      try {
+        // Other tabs see the write as a `storage` event; remove it right away.
+        window.localStorage.setItem(channelName, JSON.stringify(event));
+        window.localStorage.removeItem(channelName);
+      } catch {
+        // Storage full or disabled (private mode): the event is not propagated.
+      }
+    };
+    teardown = () => window.removeEventListener('storage', onStorage);
+  }
+
+  return {
+    tabId,
+    publish(type, userId) {
+      if (closed) return;
+      if (type === 'logout') disableLogShipping();
+      send({ type, tabId, at: Date.now(), ...(userId && { userId }) });
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    close() {
+      closed = true;
+      listeners.clear();
+      teardown();
+    },
+  };
+}
+
+let activeBus: AuthSyncBus | null = null;
+
+/** Register the bus used by publishAuthSyncEvent (AuthProvider does this). Pass null to clear. */
+export function setActiveAuthSyncBus(bus: AuthSyncBus | null): void {
+  activeBus = bus;
+}
+
+export function getActiveAuthSyncBus(): AuthSyncBus | null {
+  return activeBus;
+}
+
+/**
+ * Publish on the active bus. A logout still disables log shipping in this tab when no bus
+ * is active.
+ */
+export function publishAuthSyncEvent(type: AuthSyncEventType, userId?: string): void {
+  if (activeBus) {
+    activeBus.publish(type, userId);
+  } else if (type === 'logout') {
+    disableLogShipping();
+  }
+}
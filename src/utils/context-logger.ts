@@ -13,18 +13,24 @@
  * Usage (mutation onError with API error):
  *   const log = createContextLogger('useDeleteGreeting');
  *   log.error('Failed to delete greeting', { resourceUuid }, error);
- *   // → extracts request_id from ApiError body if present
+ *   // → request_id, status and error_code from the ApiError (see api-error.ts) if present
  *
  * Design decisions:
- * - request_id: read from x-request-id cookie (set by middleware), or generated fresh
+ * - request_id: read from x-request-id cookie (set by middleware), else the server request
+ *   context (runWithRequestContext), or generated fresh
  * - browser_id: stable per-session via getOrCreateClientBrowserId()
  * - service: passed at creation time (component/hook name) — like common-go's "service" field
+ * - trace_id / span_id: the page's server span (`<meta name="traceparent">`) in the browser;
+ *   on the server they come from the request context (runWithRequestContext)
  * - user_id: NOT included automatically (would require Redux coupling). Pass in extra fields if needed.
  */
 
 import defaultLogger from './logger';
 import type { Logger } from './logger';
 import { LOG_SCHEMA_FIELDS } from './log-schema';
+import { isApiError } from './api-error';
+import { getAmbientLogContext } from './log-context';
+import { getPageTraceContext } from './trace-context';
 import { getOrCreateClientBrowserId } from './requestId';
 
 const REQUEST_ID_COOKIE = 'x-request-id';
@@ -44,20 +50,23 @@ function readRequestIdCookie(): string {
   return '';
 }
 
-/** Get a request_id: prefer cookie, then generate fresh UUID. */
+/** Get a request_id: prefer cookie, then the ambient server request context, then generate fresh UUID. */
 function getRequestId(): string {
   const fromCookie = readRequestIdCookie();
   if (fromCookie) return fromCookie;
+  const ambient = getAmbientLogContext()?.[LOG_SCHEMA_FIELDS.request_id];
+  if (typeof ambient === 'string' && ambient) return ambient;
   if (typeof crypto !== 'undefined' && crypto.randomUUID) return crypto.randomUUID();
   return '';
 }
 
 /**
- * Try to extract request_id from an ApiError body.
+ * Try to extract request_id from an ApiError (or any error with a response body).
  * Backend responses include `request_id` at the top level.
  */
 function extractApiRequestId(error: unknown): string {
   if (error == null || typeof error !== 'object') return '';
+  if (isApiError(error)) return error.requestId ?? '';
   const body = (error as { body?: { request_id?: string } }).body;
   if (body && typeof body.request_id === 'string') return body.request_id;
   return '';
@@ -69,8 +78,8 @@ export interface ContextLogger {
   info(message: string, extra?: Record<string, unknown>): void;
   warn(message: string, extra?: Record<string, unknown>): void;
   /**
-   * Log an error. If `error` is an ApiError, its body.request_id is preferred
-   * over the cookie request_id for better cross-service correlation.
+   * Log an error. If `error` is an ApiError, its request_id is preferred over the
+   * cookie request_id for better cross-service correlation, and `status` / `error_code` are added.
    */
   error(message: string, extra?: Record<string, unknown>, error?: unknown): void;
 }
@@ -90,11 +99,20 @@ export function createContextLogger(service: string, baseLogger: Logger = defaul
     };
     const browserId = typeof window !== 'undefined' ? getOrCreateClientBrowserId() : '';
     if (browserId) ctx[LOG_SCHEMA_FIELDS.browser_id] = browserId;
+    const trace = getPageTraceContext();
+    if (trace) {
+      ctx[LOG_SCHEMA_FIELDS.trace_id] = trace.traceId;
+      ctx[LOG_SCHEMA_FIELDS.span_id] = trace.spanId;
+    }
     if (extra) Object.assign(ctx, extra);
     // If an Error was passed, include its message (but not the full stack — that's for debug)
     if (error instanceof Error && !ctx['error_message']) {
       ctx['error_message'] = error.message;
     }
+    if (isApiError(error)) {
+      if (!ctx['error_code']) ctx['error_code'] = error.code;
+      if (error.status && !ctx['status']) ctx['status'] = error.status;
+    }
     return ctx;
   }
 
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { fetchWithCsrf, getCsrfHeader, getCsrfToken } from './csrf';
+import { useCsrfFetch } from './use-csrf-fetch';
+
+function setCookie(value: string) {
+  Object.defineProperty(document, 'cookie', { writable: true, value, configurable: true });
+}
+
+function sentHeaders(fetchMock: ReturnType<typeof vi.fn>, call = 0): Headers {
+  return new Headers((fetchMock.mock.calls[call][1] as RequestInit).headers);
+}
+
+describe('csrf (client)', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    setCookie('x-browser-id=b1; csrf_token=tok%2Eabc');
+    fetchMock = vi.fn().mockResolvedValue(new Response());
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    setCookie('');
+  });
+
+  it('reads the token from the cookie', () => {
+    expect(getCsrfToken()).toBe('tok.abc');
+    expect(getCsrfHeader()).toEqual({ 'X-CSRF-Token': 'tok.abc' });
+    expect(getCsrfHeader('missing')).toEqual({});
+  });
+
+  it('adds the header to state-changing requests only', async () => {
+    await fetchWithCsrf('/api/greetings', { method: 'POST', body: '{}' });
+    await fetchWithCsrf('/api/greetings');
+    expect(sentHeaders(fetchMock, 0).get('X-CSRF-Token')).toBe('tok.abc');
+    expect(sentHeaders(fetchMock, 0).get('X-Request-ID')).toBeTruthy();
+    expect(sentHeaders(fetchMock, 1).has('X-CSRF-Token')).toBe(false);
+  });
+
+  it('does not send the token to other origins', async () => {
+    await fetchWithCsrf('https://evil.example/collect', { method: 'POST', body: '{}' });
+    await fetchWithCsrf('//evil.example/collect', { method: 'DELETE' });
+    await fetchWithCsrf(`${window.location.origin}/api/greetings`, { method: 'PUT' });
+    expect(sentHeaders(fetchMock, 0).has('X-CSRF-Token')).toBe(false);
+    expect(sentHeaders(fetchMock, 1).has('X-CSRF-Token')).toBe(false);
+    expect(sentHeaders(fetchMock, 2).get('X-CSRF-Token')).toBe('tok.abc');
+  });
+
+  it('keeps an explicit header', async () => {
+    await fetchWithCsrf('/api/x', { method: 'delete', headers: { 'X-CSRF-Token': 'explicit' } });
+    expect(sentHeaders(fetchMock).get('X-CSRF-Token')).toBe('explicit');
+  });
+
+  it('useCsrfFetch returns a stable fetch that attaches the header', async () => {
+    const { result, rerender } = renderHook(() => useCsrfFetch());
+    const first = result.current;
+    rerender();
+    expect(result.current).toBe(first);
+    await result.current('/api/x', { method: 'PUT' });
+    expect(sentHeaders(fetchMock).get('X-CSRF-Token')).toBe('tok.abc');
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * CSRF double-submit cookie — browser side.
+ *
+ * The server (`@exbrain/common-react/server/csrf`: csrfStep / issueCsrfToken) sets a readable
+ * `csrf_token` cookie; state-changing requests echo it in the `X-CSRF-Token` header, and
+ * verifyCsrf checks that both match. A cross-site page can make the browser send the cookie but
+ * cannot read it, so it cannot produce the header.
+ *
+ * Usage:
+ *   await fetchWithCsrf(apiUrl('/api/greetings'), { method: 'POST', body });
+ *   // or in components: const csrfFetch = useCsrfFetch();
+ */
+
+import { isSameOriginUrl } from './paths';
+import { fetchWithRequestId } from './requestId';
+
+/** Cookie holding the token; must match the server default in server/csrf.ts. */
+export const CSRF_COOKIE_NAME = 'csrf_token';
+
+/** Request header carrying the token on state-changing requests. */
+export const CSRF_HEADER = 'X-CSRF-Token';
+
+/** Methods that never need a token (they must not change state). */
+export const CSRF_SAFE_METHODS: readonly string[] = ['GET', 'HEAD', 'OPTIONS'];
+
+/** Current CSRF token from the cookie, or '' on the server / before one is issued. */
+export function getCsrfToken(cookieName: string = CSRF_COOKIE_NAME): string {
+  if (typeof document === 'undefined') return '';
+  for (const cookie of document.cookie.split(';')) {
+    const trimmed = cookie.trim();
+    const eq = trimmed.indexOf('=');
+    if (eq < 0) continue;
+    if (trimmed.slice(0, eq).trim() === cookieName) {
+      const val = trimmed.slice(eq + 1).trim();
+      try { return decodeURIComponent(val); } catch { return val; }
+    }
+  }
+  return '';
+}
+
+/** `{ 'X-CSRF-Token': token }`, or `{}` when no token is available. */
+export function getCsrfHeader(cookieName: string = CSRF_COOKIE_NAME): Record<string, string> {
+  const token = getCsrfToken(cookieName);
+  return token ? { [CSRF_HEADER]: token } : {};
+}
+
+/**
+ * fetchWithRequestId plus the CSRF header on state-changing methods (POST/PUT/PATCH/DELETE)
+ * to relative or same-origin URLs; other origins never see the token.
+ * An explicit `X-CSRF-Token` in `init.headers` is kept.
+ */
+export function fetchWithCsrf(
+  input: RequestInfo | URL,
+  init?: RequestInit,
+  cookieName: string = CSRF_COOKIE_NAME
+): Promise<Response> {
+  const method = (init?.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase();
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+  if (CSRF_SAFE_METHODS.includes(method) || !isSameOriginUrl(url)) return fetchWithRequestId(input, init);
+  const headers = new Headers(init?.headers);
+  const token = getCsrfToken(cookieName);
+  if (token && !headers.has(CSRF_HEADER)) headers.set(CSRF_HEADER, token);
+  return fetchWithRequestId(input, { ...init, headers });
+}
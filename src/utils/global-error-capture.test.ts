@@ -0,0 +1,131 @@
+/**
+ * Unit tests for global-error-capture.ts — window error / rejection / CSP capture with dedupe
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { installGlobalErrorCapture } from './global-error-capture';
+import type { Logger } from './logger';
+
+function createMockLogger() {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    setLevel: vi.fn(),
+    getLevel: vi.fn(() => 'info' as const),
+  } satisfies Logger;
+}
+
+function dispatchRejection(reason: unknown): void {
+  const event = new Event('unhandledrejection') as Event & { reason?: unknown };
+  event.reason = reason;
+  window.dispatchEvent(event);
+}
+
+describe('installGlobalErrorCapture', () => {
+  let baseLogger: ReturnType<typeof createMockLogger>;
+  let uninstall: () => void;
+
+  beforeEach(() => {
+    baseLogger = createMockLogger();
+    document.cookie = 'x-request-id=req-123';
+    document.cookie = 'x-browser-id=test-browser-id';
+  });
+
+  afterEach(() => {
+    uninstall?.();
+    document.cookie = 'x-request-id=; expires=Thu, 01 Jan 1970 00:00:00 GMT';
+    document.cookie = 'x-browser-id=; expires=Thu, 01 Jan 1970 00:00:00 GMT';
+  });
+
+  it('logs uncaught errors with source location, stack, request_id and browser_id', () => {
+    uninstall = installGlobalErrorCapture({ service: 'hello-ui', baseLogger });
+    const error = new Error('kaboom');
+    window.dispatchEvent(
+      new ErrorEvent('error', { message: 'Uncaught Error: kaboom', filename: '/app.js?token=secret', lineno: 10, colno: 5, error }),
+    );
+
+    expect(baseLogger.error).toHaveBeenCalledTimes(1);
+    const [message, context] = baseLogger.error.mock.calls[0];
+    expect(message).toBe('Uncaught Error: kaboom');
+    expect(context).toMatchObject({
+      service: 'hello-ui',
+      request_id: 'req-123',
+      browser_id: 'test-browser-id',
+      error_type: 'uncaught_error',
+      source_file: '/app.js',
+      line: 10,
+      column: 5,
+    });
+    expect(context.stack).toContain('kaboom');
+  });
+
+  it('logs unhandled rejections for Error and non-Error reasons', () => {
+    uninstall = installGlobalErrorCapture({ baseLogger });
+    dispatchRejection(new Error('fetch failed'));
+    dispatchRejection({ code: 42 });
+
+    expect(baseLogger.error).toHaveBeenCalledTimes(2);
+    expect(baseLogger.error.mock.calls[0][1]).toMatchObject({ error_type: 'unhandled_rejection', error_message: 'fetch failed' });
+    expect(baseLogger.error.mock.calls[1][0]).toBe('Non-error rejection: {"code":42}');
+  });
+
+  it('truncates long stacks', () => {
+    uninstall = installGlobalErrorCapture({ baseLogger, maxStackLength: 20 });
+    const error = new Error('long');
+    error.stack = 'x'.repeat(500);
+    dispatchRejection(error);
+    expect(baseLogger.error.mock.calls[0][1].stack).toBe(`${'x'.repeat(20)}…[truncated]`);
+  });
+
+  it('dedupes identical errors within the window and reports the suppressed count afterwards', () => {
+    vi.useFakeTimers();
+    try {
+      uninstall = installGlobalErrorCapture({ baseLogger, dedupeWindowMs: 1000 });
+      for (let i = 0; i < 5; i++) dispatchRejection('same');
+      expect(baseLogger.error).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(1001);
+      dispatchRejection('same');
+      expect(baseLogger.error).toHaveBeenCalledTimes(2);
+      expect(baseLogger.error.mock.calls[1][1]).toMatchObject({ suppressed_count: 4 });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('logs CSP violations (report-only at warn level)', () => {
+    uninstall = installGlobalErrorCapture({ baseLogger });
+    const event = new Event('securitypolicyviolation') as Event & Record<string, unknown>;
+    Object.assign(event, {
+      violatedDirective: 'script-src',
+      effectiveDirective: 'script-src-elem',
+      blockedURI: 'https://cdn.example/evil.js?q=1',
+      sourceFile: '/page',
+      lineNumber: 3,
+      columnNumber: 1,
+      disposition: 'report',
+    });
+    document.dispatchEvent(event);
+
+    expect(baseLogger.warn).toHaveBeenCalledWith(
+      'CSP violation: script-src-elem',
+      expect.objectContaining({ error_type: 'csp_violation', blocked_uri: 'https://cdn.example/evil.js', line: 3 }),
+    );
+  });
+
+  it('reinstalling replaces the previous hooks and uninstall removes them', () => {
+    const first = createMockLogger();
+    installGlobalErrorCapture({ baseLogger: first });
+    uninstall = installGlobalErrorCapture({ baseLogger });
+    dispatchRejection('once');
+    expect(first.error).not.toHaveBeenCalled();
+    expect(baseLogger.error).toHaveBeenCalledTimes(1);
+
+    uninstall();
+    dispatchRejection('after uninstall');
+    expect(baseLogger.error).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Global error capture — opt-in hook that routes uncaught browser errors into the
+ * structured logger so crashes reach Grafana even when nobody wrapped them in `logger.error`.
+ *
+ * Usage (next to enableLogShipping, once at app startup):
+ *   import { installGlobalErrorCapture } from '@exbrain/common-react/logger';
+ *   installGlobalErrorCapture({ service: 'hello-ui' });
+ *
+ * Captures:
+ * - `error` on window (same events as `window.onerror`; uses addEventListener so an app's own
+ *   `onerror` handler keeps working)
+ * - `unhandledrejection` on window
+ * - `securitypolicyviolation` on document (CSP violations)
+ *
+ * Each event becomes one structured entry (message, source_file, line, column, truncated stack)
+ * via createContextLogger, so `service`, `request_id` and `browser_id` are attached.
+ * Identical errors within the dedupe window are logged once; the next entry after the window
+ * carries `suppressed_count` so a render loop cannot flood the shipper.
+ */
+
+import type { Logger } from './logger';
+import defaultLogger from './logger';
+import { createContextLogger } from './context-logger';
+
+export interface GlobalErrorCaptureOptions {
+  /** Value for the `service` field. Default `'window'`. */
+  service?: string;
+  /** Window in which identical errors are logged only once. Default 60000 (1 minute). */
+  dedupeWindowMs?: number;
+  /** Maximum stack length in characters; longer stacks are truncated. Default 2000. */
+  maxStackLength?: number;
+  /** Capture `securitypolicyviolation` events. Default true. */
+  captureCspViolations?: boolean;
+  /** Logger override (for testing). Defaults to the singleton. */
+  baseLogger?: Logger;
+}
+
+type CapturedErrorType = 'uncaught_error' | 'unhandled_rejection' | 'csp_violation';
+
+interface NormalizedError {
+  errorType: CapturedErrorType;
+  message: string;
+  sourceFile?: string;
+  line?: number;
+  column?: number;
+  stack?: string;
+  extra?: Record<string, unknown>;
+}
+
+let uninstallCurrent: (() => void) | null = null;
+
+/** PII (golden §7): strip query string and fragment — they can carry tokens/emails. */
+function stripQuery(url: string | undefined): string | undefined {
+  if (!url) return undefined;
+  const cut = url.search(/[?#]/);
+  return cut >= 0 ? url.slice(0, cut) : url;
+}
+
+function truncate(value: string | undefined, max: number): string | undefined {
+  if (!value) return undefined;
+  return value.length > max ? `${value.slice(0, max)}…[truncated]` : value;
+}
+
+function describeReason(reason: unknown): { message: string; stack?: string } {
+  if (reason instanceof Error) {
+    return { message: reason.message || reason.name, stack: reason.stack };
+  }
+  if (typeof reason === 'string') {
+    return { message: reason };
+  }
+  try {
+    return { message: `Non-error rejection: ${JSON.stringify(reason)}` };
+  } catch {
+    return { message: `Non-error rejection of type ${typeof reason}` };
+  }
+}
+
+function normalizeErrorEvent(event: ErrorEvent): NormalizedError {
+  const error: unknown = event.error;
+  return {
+    errorType: 'uncaught_error',
+    message: event.message || (error instanceof Error ? error.message : 'Script error'),
+    sourceFile: event.filename,
+    line: event.lineno || undefined,
+    column: event.colno || undefined,
+    stack: error instanceof Error ? error.stack : undefined,
+  };
+}
+
+function normalizeRejectionEvent(event: PromiseRejectionEvent): NormalizedError {
+  const { message, stack } = describeReason(event.reason);
+  return { errorType: 'unhandled_rejection', message, stack };
+}
+
+function normalizeCspEvent(event: SecurityPolicyViolationEvent): NormalizedError {
+  return {
+    errorType: 'csp_violation',
+    message: `CSP violation: ${event.effectiveDirective || event.violatedDirective}`,
+    sourceFile: event.sourceFile,
+    line: event.lineNumber || undefined,
+    column: event.columnNumber || undefined,
+    extra: {
+      blocked_uri: stripQuery(event.blockedURI),
+      violated_directive: event.violatedDirective,
+      disposition: event.disposition,
+    },
+  };
+}
+
+/**
+ * Install global error capture. Returns an uninstall function.
+ * Calling again replaces the previous installation (options take effect, no double logging).
+ * No-op on the server (returns a no-op uninstall).
+ */
+export function installGlobalErrorCapture(options: GlobalErrorCaptureOptions = {}): () => void {
+  if (typeof window === 'undefined') {
+    return () => {};
+  }
+  uninstallCurrent?.();
+
+  const dedupeWindowMs = options.dedupeWindowMs ?? 60000;
+  const maxStackLength = options.maxStackLength ?? 2000;
+  const log = createContextLogger(options.service ?? 'window', options.baseLogger ?? defaultLogger);
+  const recent = new Map<string, { firstSeen: number; suppressed: number }>();
+
+  function report(error: NormalizedError): void {
+    try {
+      const sourceFile = stripQuery(error.sourceFile);
+      const fingerprint = [error.errorType, error.message, sourceFile, error.line, error.column].join('|');
+      const now = Date.now();
+      const seen = recent.get(fingerprint);
+      if (seen && now - seen.firstSeen < dedupeWindowMs) {
+        seen.suppressed++;
+        return;
+      }
+      recent.set(fingerprint, { firstSeen: now, suppressed: 0 });
+      // Keep the dedupe map bounded: drop entries whose window has passed.
+      if (recent.size > 100) {
+        for (const [key, value] of recent) {
+          if (now - value.firstSeen >= dedupeWindowMs) recent.delete(key);
+        }
+      }
+
+      const context: Record<string, unknown> = {
+        error_type: error.errorType,
+        error_message: error.message,
+        ...(sourceFile && { source_file: sourceFile }),
+        ...(error.line !== undefined && { line: error.line }),
+        ...(error.column !== undefined && { column: error.column }),
+        ...(error.stack && { stack: truncate(error.stack, maxStackLength) }),
+        ...(seen && seen.suppressed > 0 && { suppressed_count: seen.suppressed }),
+        ...error.extra,
+      };
+      if (error.errorType === 'csp_violation' && error.extra?.disposition === 'report') {
+        log.warn(error.message, context);
+      } else {
+        log.error(error.message, context);
+      }
+    } catch {
+      // Never let the error handler itself throw.
+    }
+  }
+
+  const onError = (event: ErrorEvent) => report(normalizeErrorEvent(event));
+  const onRejection = (event: PromiseRejectionEvent) => report(normalizeRejectionEvent(event));
+  const onCspViolation = (event: SecurityPolicyViolationEvent) => report(normalizeCspEvent(event));
+  const captureCsp = (options.captureCspViolations ?? true) && typeof document !== 'undefined';
+
+  window.addEventListener('error', onError);
+  window.addEventListener('unhandledrejection', onRejection);
+  if (captureCsp) {
+    document.addEventListener('securitypolicyviolation', onCspViolation);
+  }
+
+  const uninstall = () => {
+    window.removeEventListener('error', onError);
+    window.removeEventListener('unhandledrejection', onRejection);
+    if (captureCsp) {
+      document.removeEventListener('securitypolicyviolation', onCspViolation);
+    }
+    if (uninstallCurrent === uninstall) {
+      uninstallCurrent = null;
+    }
+  };
+  uninstallCurrent = uninstall;
+  return uninstall;
+}
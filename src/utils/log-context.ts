@@ -0,0 +1,29 @@
+/**
+ * Ambient log context — fields merged into every log entry without being passed by hand.
+ *
+ * The logger is shared by browser and server bundles, so it cannot import Node's
+ * AsyncLocalStorage itself. Instead a provider is registered at runtime (by
+ * server/request-context on import) and LoggerWrapper asks it for the current fields.
+ * Explicit context passed at the call site always wins over ambient fields.
+ *
+ * Same registration pattern as registerFetchLogger in requestId.ts.
+ */
+
+export type LogContextProvider = () => Record<string, unknown> | undefined;
+
+let provider: LogContextProvider | null = null;
+
+/** Registers the ambient context source (one per process; the last registration wins). */
+export function registerLogContextProvider(next: LogContextProvider | null): void {
+  provider = next;
+}
+
+/** Current ambient fields, or undefined outside any context (or if the provider throws). */
+export function getAmbientLogContext(): Record<string, unknown> | undefined {
+  if (!provider) return undefined;
+  try {
+    return provider();
+  } catch {
+    return undefined;
+  }
+}
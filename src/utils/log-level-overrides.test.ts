@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  getServiceLogLevels,
+  lowestServiceLogLevel,
+  onServiceLogLevelsChange,
+  parseLogLevelOverrides,
+  resolveServiceLogLevel,
+  setServiceLogLevel,
+  setServiceLogLevels,
+} from './log-level-overrides';
+
+describe('log-level-overrides', () => {
+  afterEach(() => {
+    setServiceLogLevels({});
+  });
+
+  it('parses LOG_LEVELS-style specs and skips malformed pairs', () => {
+    expect(parseLogLevelOverrides('auth0Service:debug, AuthProvider=WARN,broken,x:verbose,:info')).toEqual({
+      auth0Service: 'debug',
+      AuthProvider: 'warn',
+    });
+    expect(parseLogLevelOverrides(undefined)).toEqual({});
+  });
+
+  it('resolves exact names first, then dotted parents', () => {
+    setServiceLogLevels({ auth0Service: 'debug', 'auth0Service.tokens': 'error' });
+    expect(resolveServiceLogLevel('auth0Service')).toBe('debug');
+    expect(resolveServiceLogLevel('auth0Service.session')).toBe('debug');
+    expect(resolveServiceLogLevel('auth0Service.tokens.refresh')).toBe('error');
+    expect(resolveServiceLogLevel('auth0ServiceX')).toBeUndefined();
+    expect(resolveServiceLogLevel(undefined)).toBeUndefined();
+  });
+
+  it('tracks the most verbose override and notifies listeners', () => {
+    const listener = vi.fn();
+    const unsubscribe = onServiceLogLevelsChange(listener);
+    setServiceLogLevel('AuthProvider', 'warn');
+    setServiceLogLevel('auth0Service', 'debug');
+    expect(lowestServiceLogLevel()).toBe('debug');
+    setServiceLogLevel('auth0Service', null);
+    expect(getServiceLogLevels()).toEqual({ AuthProvider: 'warn' });
+    expect(lowestServiceLogLevel()).toBe('warn');
+    expect(listener).toHaveBeenCalledTimes(3);
+    unsubscribe();
+    setServiceLogLevel('AuthProvider', null);
+    expect(listener).toHaveBeenCalledTimes(3);
+    expect(lowestServiceLogLevel()).toBeUndefined();
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Per-service log level overrides, keyed by the `service` name passed to
+ * `createContextLogger` / `createServerLogger` (e.g. `auth0Service=debug` while the rest of the
+ * app stays at `info`).
+ *
+ * Overrides are hierarchical on `.`: an override for `auth0Service` also applies to
+ * `auth0Service.tokens` unless that name has its own override.
+ *
+ * State is module-level (one table per process / browser tab). LoggerWrapper consults it on
+ * every call; server code manages it through log-level-manager (runtime API + `LOG_LEVELS` env).
+ *
+ * Client- and server-safe: no Node or browser APIs.
+ */
+
+import type { LogLevel } from './logger';
+
+export const LOG_LEVEL_RANK: Readonly<Record<LogLevel, number>> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const overrides = new Map<string, LogLevel>();
+const listeners = new Set<() => void>();
+
+function isLogLevel(value: string): value is LogLevel {
+  return Object.prototype.hasOwnProperty.call(LOG_LEVEL_RANK, value);
+}
+
+function notify(): void {
+  for (const listener of listeners) listener();
+}
+
+/**
+ * Parses `auth0Service:debug,AuthProvider:warn` (`=` is accepted instead of `:`).
+ * Malformed pairs and unknown levels are skipped.
+ */
+export function parseLogLevelOverrides(spec: string | null | undefined): Record<string, LogLevel> {
+  const parsed: Record<string, LogLevel> = {};
+  if (!spec) return parsed;
+  for (const pair of spec.split(',')) {
+    const match = /^\s*([^:=\s]+)\s*[:=]\s*(\w+)\s*$/.exec(pair);
+    if (!match) continue;
+    const level = match[2].toLowerCase();
+    if (isLogLevel(level)) parsed[match[1]] = level;
+  }
+  return parsed;
+}
+
+/** Sets (or with `null`, removes) the override for one service. */
+export function setServiceLogLevel(service: string, level: LogLevel | null): void {
+  if (level === null) {
+    if (!overrides.delete(service)) return;
+  } else {
+    overrides.set(service, level);
+  }
+  notify();
+}
+
+/** Replaces all overrides at once (e.g. from a parsed env var or an admin endpoint). */
+export function setServiceLogLevels(levels: Record<string, LogLevel>): void {
+  overrides.clear();
+  for (const [service, level] of Object.entries(levels)) {
+    if (isLogLevel(level)) overrides.set(service, level);
+  }
+  notify();
+}
+
+/** Current overrides as a plain object. */
+export function getServiceLogLevels(): Record<string, LogLevel> {
+  return Object.fromEntries(overrides);
+}
+
+/** Override for `service` — exact name first, then its `.`-separated parents. */
+export function resolveServiceLogLevel(service: unknown): LogLevel | undefined {
+  if (overrides.size === 0 || typeof service !== 'string' || !service) return undefined;
+  let name = service;
+  for (;;) {
+    const level = overrides.get(name);
+    if (level) return level;
+    const dot = name.lastIndexOf('.');
+    if (dot <= 0) return undefined;
+    name = name.slice(0, dot);
+  }
+}
+
+/** Most verbose override level, or undefined without overrides. */
+export function lowestServiceLogLevel(): LogLevel | undefined {
+  let lowest: LogLevel | undefined;
+  for (const level of overrides.values()) {
+    if (!lowest || LOG_LEVEL_RANK[level] < LOG_LEVEL_RANK[lowest]) lowest = level;
+  }
+  return lowest;
+}
+
+/** Subscribes to override changes; returns an unsubscribe function. */
+export function onServiceLogLevelsChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
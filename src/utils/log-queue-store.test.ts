@@ -0,0 +1,52 @@
+/**
+ * Unit tests for log-queue-store.ts — queue budget eviction (debug dropped before error)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { enforceQueueBudget, estimateEntryBytes, createIndexedDbLogStore, type QueuedLogEntry } from './log-queue-store';
+
+function entry(level: QueuedLogEntry['level'], message: string): QueuedLogEntry {
+  return { level, message, timestamp: '2026-01-01T00:00:00.000Z' };
+}
+
+describe('enforceQueueBudget', () => {
+  it('leaves a queue within budget untouched', () => {
+    const queue = [entry('debug', 'a'), entry('error', 'b')];
+    expect(enforceQueueBudget(queue, { maxEntries: 5, maxBytes: 10_000 })).toBe(0);
+    expect(queue).toHaveLength(2);
+  });
+
+  it('drops debug before info, warn and error when over the entry limit', () => {
+    const queue = [entry('error', 'e1'), entry('info', 'i1'), entry('debug', 'd1'), entry('warn', 'w1'), entry('debug', 'd2')];
+    const dropped = enforceQueueBudget(queue, { maxEntries: 3, maxBytes: 10_000 });
+    expect(dropped).toBe(2);
+    expect(queue.map((e) => e.message)).toEqual(['e1', 'i1', 'w1']);
+  });
+
+  it('drops the oldest entry of the lowest severity first', () => {
+    const queue = [entry('info', 'i1'), entry('error', 'e1'), entry('info', 'i2')];
+    enforceQueueBudget(queue, { maxEntries: 2, maxBytes: 10_000 });
+    expect(queue.map((e) => e.message)).toEqual(['e1', 'i2']);
+  });
+
+  it('falls back to dropping the oldest errors when only errors remain', () => {
+    const queue = [entry('error', 'e1'), entry('error', 'e2'), entry('error', 'e3')];
+    enforceQueueBudget(queue, { maxEntries: 2, maxBytes: 10_000 });
+    expect(queue.map((e) => e.message)).toEqual(['e2', 'e3']);
+  });
+
+  it('enforces the byte budget', () => {
+    const big = entry('debug', 'x'.repeat(500));
+    const err = entry('error', 'boom');
+    const queue = [big, err];
+    enforceQueueBudget(queue, { maxEntries: 100, maxBytes: estimateEntryBytes(err) + 10 });
+    expect(queue).toEqual([err]);
+  });
+});
+
+describe('createIndexedDbLogStore', () => {
+  it('returns null when IndexedDB is unavailable', () => {
+    // jsdom does not implement IndexedDB
+    expect(createIndexedDbLogStore('test-db')).toBeNull();
+  });
+});
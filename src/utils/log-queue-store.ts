@@ -0,0 +1,179 @@
+/**
+ * Persistent log queue for the browser log shipper (IndexedDB-backed).
+ *
+ * The in-memory shipper queue is lost on reload or crash — exactly when the last
+ * errors before the crash matter most. When enabled via `enablePersistentLogQueue()`
+ * (see logger.ts), the shipper mirrors its pending entries into IndexedDB and replays
+ * them on the next page load once shipping is enabled.
+ *
+ * Storage layout: one record per page session (keyed by a random session key), holding
+ * that session's pending entries. On load, records written by *other* sessions are
+ * claimed (read + deleted in one transaction) and prepended to the queue. Two tabs open
+ * at the same time can therefore occasionally ship the same entry twice; duplicates
+ * are preferred over loss.
+ *
+ * All IndexedDB failures are swallowed — logging must never break the app.
+ */
+
+import type { LogLevel } from './logger';
+
+/** One pending browser log entry (shape shipped in the `/api/logs` batch body). */
+export interface QueuedLogEntry {
+  level: LogLevel;
+  message: string;
+  context?: Record<string, unknown>;
+  timestamp: string;
+}
+
+/** Queue budget: whichever limit is hit first triggers eviction. */
+export interface LogQueueBudget {
+  /** Maximum number of entries kept. */
+  maxEntries: number;
+  /** Maximum total size in bytes (approximate: UTF-16 length of each entry's JSON). */
+  maxBytes: number;
+}
+
+/** Storage backend for pending entries. Swappable for tests. */
+export interface PersistentLogStore {
+  /** Replace this session's persisted entries (empty array deletes the record). */
+  save(entries: QueuedLogEntry[]): Promise<void>;
+  /** Claim entries persisted by previous sessions (removes them from storage). */
+  claimOrphaned(): Promise<QueuedLogEntry[]>;
+}
+
+/** Eviction order: lowest severity is dropped first. */
+const EVICTION_ORDER: readonly LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/** Approximate serialized size of an entry (what it costs on the wire and in IndexedDB). */
+export function estimateEntryBytes(entry: QueuedLogEntry): number {
+  try {
+    return JSON.stringify(entry).length;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Evicts entries in place until the queue fits the budget.
+ * Drops the oldest entry of the lowest severity present (debug before info before
+ * warn before error), so errors survive longest. Returns the number of entries dropped.
+ */
+export function enforceQueueBudget(queue: QueuedLogEntry[], budget: LogQueueBudget): number {
+  let totalBytes = 0;
+  for (const entry of queue) totalBytes += estimateEntryBytes(entry);
+
+  let dropped = 0;
+  while (queue.length > 0 && (queue.length > budget.maxEntries || totalBytes > budget.maxBytes)) {
+    let victim = -1;
+    for (const level of EVICTION_ORDER) {
+      victim = queue.findIndex((e) => e.level === level);
+      if (victim >= 0) break;
+    }
+    if (victim < 0) victim = 0;
+    const [removed] = queue.splice(victim, 1);
+    totalBytes -= estimateEntryBytes(removed);
+    dropped++;
+  }
+  return dropped;
+}
+
+const DB_VERSION = 1;
+const STORE_NAME = 'pending';
+
+type PendingRecord = { sessionKey: string; entries: QueuedLogEntry[]; updatedAt: string };
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * IndexedDB-backed {@link PersistentLogStore}.
+ * Returns null when IndexedDB is unavailable (SSR, private mode in some browsers, tests).
+ *
+ * @param dbName - IndexedDB database name (one per app origin is enough)
+ */
+export function createIndexedDbLogStore(dbName: string): PersistentLogStore | null {
+  if (typeof indexedDB === 'undefined') {
+    return null;
+  }
+
+  const sessionKey =
+    typeof crypto !== 'undefined' && crypto.randomUUID
+      ? crypto.randomUUID()
+      : `session-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'sessionKey' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later retry if opening failed (e.g. blocked by another tab's upgrade).
+      dbPromise.catch(() => {
+        dbPromise = null;
+      });
+    }
+    return dbPromise;
+  }
+
+  // Serialize writes so an older snapshot can never overwrite a newer one.
+  let writeChain: Promise<void> = Promise.resolve();
+
+  return {
+    save(entries) {
+      const snapshot = [...entries];
+      writeChain = writeChain
+        .then(async () => {
+          const db = await openDb();
+          const tx = db.transaction(STORE_NAME, 'readwrite');
+          const store = tx.objectStore(STORE_NAME);
+          if (snapshot.length === 0) {
+            store.delete(sessionKey);
+          } else {
+            const record: PendingRecord = { sessionKey, entries: snapshot, updatedAt: new Date().toISOString() };
+            store.put(record);
+          }
+          await transactionDone(tx);
+        })
+        .catch(() => { /* persistence is best-effort */ });
+      return writeChain;
+    },
+
+    async claimOrphaned() {
+      try {
+        const db = await openDb();
+        const tx = db.transaction(STORE_NAME, 'readwrite');
+        const store = tx.objectStore(STORE_NAME);
+        const records = (await requestToPromise(store.getAll())) as PendingRecord[];
+        const orphaned = records
+          .filter((r) => r.sessionKey !== sessionKey)
+          .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt));
+        for (const record of orphaned) {
+          store.delete(record.sessionKey);
+        }
+        await transactionDone(tx);
+        return orphaned.flatMap((r) => (Array.isArray(r.entries) ? r.entries : []));
+      } catch {
+        return [];
+      }
+    },
+  };
+}
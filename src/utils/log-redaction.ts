@@ -0,0 +1,169 @@
+/**
+ * PII redaction for structured logs (golden §7).
+ *
+ * One rule set shared by every log path:
+ * - LoggerWrapper in utils/logger.ts (browser console + shipper, and the server pino instance)
+ * - the browser log ingest handler in server/client-logs-ingest.ts (defence in depth for
+ *   batches shipped by older clients)
+ *
+ * Two layers:
+ * - Sensitive keys are masked at any depth. Keys are compared case-insensitively with
+ *   `_` / `-` ignored, so `accessToken`, `access-token` and `ACCESS_TOKEN` all match `access_token`.
+ * - Pattern detectors scrub JWTs, bearer tokens and email addresses inside any string value
+ *   (including the log message itself).
+ *
+ * Redaction never mutates the caller's objects and never throws.
+ */
+
+export const REDACTED = '[REDACTED]';
+
+/** A string-level detector: every match of `pattern` is replaced with `replacement`. */
+export interface RedactionPattern {
+  name: string;
+  /** Must be a global (`g`) regular expression. */
+  pattern: RegExp;
+  replacement: string;
+}
+
+export interface LogRedactionOptions {
+  /** Extra sensitive keys, added to {@link DEFAULT_REDACTED_KEYS}. */
+  keys?: string[];
+  /** Extra string detectors, added to {@link DEFAULT_REDACTION_PATTERNS}. */
+  patterns?: RedactionPattern[];
+  /** Set false to turn redaction off entirely (e.g. local debugging). Default true. */
+  enabled?: boolean;
+}
+
+/** Keys masked at any depth by default. */
+export const DEFAULT_REDACTED_KEYS: readonly string[] = [
+  'password',
+  'token',
+  'authorization',
+  'email',
+  'access_token',
+  'id_token',
+  'refresh_token',
+  'client_secret',
+  'cookie',
+  'set_cookie',
+];
+
+/** String detectors applied to every string value by default. */
+export const DEFAULT_REDACTION_PATTERNS: readonly RedactionPattern[] = [
+  {
+    name: 'bearer',
+    pattern: /\bBearer\s+[A-Za-z0-9\-._~+/]+=*/gi,
+    replacement: `Bearer ${REDACTED}`,
+  },
+  {
+    name: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+    replacement: '[REDACTED_JWT]',
+  },
+  {
+    name: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+    replacement: '[REDACTED_EMAIL]',
+  },
+];
+
+/** Nested objects deeper than this are replaced wholesale (also guards pathological inputs). */
+const MAX_DEPTH = 10;
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[-_]/g, '');
+}
+
+interface ActiveRules {
+  enabled: boolean;
+  keys: Set<string>;
+  patterns: RedactionPattern[];
+}
+
+function buildRules(options: LogRedactionOptions = {}): ActiveRules {
+  return {
+    enabled: options.enabled ?? true,
+    keys: new Set([...DEFAULT_REDACTED_KEYS, ...(options.keys ?? [])].map(normalizeKey)),
+    patterns: [...DEFAULT_REDACTION_PATTERNS, ...(options.patterns ?? [])],
+  };
+}
+
+let activeRules: ActiveRules = buildRules();
+
+/**
+ * Configure the process-wide redaction rules (extends the defaults; defaults are always kept).
+ * Call once at startup in the browser and/or server entry.
+ */
+export function configureLogRedaction(options: LogRedactionOptions): void {
+  activeRules = buildRules(options);
+}
+
+/** Scrub JWTs, bearer tokens, emails (and configured patterns) from a string. */
+export function redactString(value: string): string {
+  if (!activeRules.enabled) return value;
+  let result = value;
+  for (const { pattern, replacement } of activeRules.patterns) {
+    pattern.lastIndex = 0;
+    result = result.replace(pattern, replacement);
+  }
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function redactValue(value: unknown, depth: number, seen: WeakSet<object>): unknown {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[MaxDepth]';
+  }
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      ...(value.stack && { stack: redactString(value.stack) }),
+    };
+  }
+  if (Array.isArray(value)) {
+    seen.add(value);
+    const out = value.map((item) => redactValue(item, depth + 1, seen));
+    seen.delete(value);
+    return out;
+  }
+  if (!isPlainObject(value)) {
+    // Dates, URLs, class instances: serialized by the logger as-is.
+    return value;
+  }
+  seen.add(value);
+  const out: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    out[key] = activeRules.keys.has(normalizeKey(key)) ? REDACTED : redactValue(child, depth + 1, seen);
+  }
+  seen.delete(value);
+  return out;
+}
+
+/**
+ * Returns a redacted copy of a log context object (sensitive keys masked at any depth,
+ * string values scrubbed). Returns the input unchanged when redaction is disabled.
+ */
+export function redactLogContext(context: Record<string, unknown>): Record<string, unknown> {
+  if (!activeRules.enabled) return context;
+  try {
+    return redactValue(context, 0, new WeakSet()) as Record<string, unknown>;
+  } catch {
+    // Fail closed: an unredactable context is dropped rather than shipped verbatim.
+    return { redaction_error: true };
+  }
+}
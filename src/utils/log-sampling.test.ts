@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { LogSampler, hashToUnitInterval, fingerprintLog } from './log-sampling';
+
+describe('hashToUnitInterval', () => {
+  it('is stable and within [0, 1)', () => {
+    const a = hashToUnitInterval('browser-1');
+    expect(a).toBe(hashToUnitInterval('browser-1'));
+    expect(a).toBeGreaterThanOrEqual(0);
+    expect(a).toBeLessThan(1);
+  });
+});
+
+describe('fingerprintLog', () => {
+  it('groups messages that differ only by numbers', () => {
+    expect(fingerprintLog('info', 'item 12 rendered')).toBe(fingerprintLog('info', 'item 7 rendered'));
+    expect(fingerprintLog('info', 'x')).not.toBe(fingerprintLog('warn', 'x'));
+  });
+});
+
+describe('LogSampler.isSampled', () => {
+  it('ships every level by default', () => {
+    const sampler = new LogSampler();
+    expect(sampler.isSampled('debug', 'b')).toBe(true);
+  });
+
+  it('is consistent per browser_id', () => {
+    const sampler = new LogSampler({ sampleRates: { debug: 0.5 } });
+    for (const browserId of ['a', 'b', 'c', 'd']) {
+      const first = sampler.isSampled('debug', browserId);
+      for (let i = 0; i < 10; i++) {
+        expect(sampler.isSampled('debug', browserId)).toBe(first);
+      }
+    }
+  });
+
+  it('samples roughly the configured fraction of browsers', () => {
+    const sampler = new LogSampler({ sampleRates: { debug: 0.1, error: 1 } });
+    let sampled = 0;
+    for (let i = 0; i < 2000; i++) {
+      if (sampler.isSampled('debug', `browser-${i}`)) sampled++;
+      expect(sampler.isSampled('error', `browser-${i}`)).toBe(true);
+    }
+    expect(sampled).toBeGreaterThan(120);
+    expect(sampled).toBeLessThan(280);
+  });
+
+  it('drops everything at rate 0', () => {
+    const sampler = new LogSampler({ sampleRates: { info: 0 } });
+    expect(sampler.isSampled('info', 'any')).toBe(false);
+  });
+});
+
+describe('LogSampler.tryAcquire', () => {
+  it('allows a burst, then suppresses until tokens refill', () => {
+    const sampler = new LogSampler({ rateLimit: { capacity: 3, refillPerSecond: 1 } });
+    const t0 = 1_000_000;
+    expect([1, 2, 3].map(() => sampler.tryAcquire('info', 'loop', t0))).toEqual([true, true, true]);
+    expect(sampler.tryAcquire('info', 'loop', t0)).toBe(false);
+    expect(sampler.tryAcquire('info', 'other', t0)).toBe(true);
+    expect(sampler.tryAcquire('info', 'loop', t0 + 1000)).toBe(true);
+  });
+
+  it('summarizes suppressed entries once and resets the counter', () => {
+    const sampler = new LogSampler({ rateLimit: { capacity: 1, refillPerSecond: 0 } });
+    for (let i = 0; i < 5; i++) sampler.tryAcquire('info', `render ${i}`, 0);
+    expect(sampler.hasSuppressed()).toBe(true);
+
+    const summaries = sampler.drainSummaries();
+    expect(summaries).toHaveLength(1);
+    expect(summaries[0]).toMatchObject({
+      level: 'warn',
+      message: '4 log message(s) suppressed by rate limit',
+      context: { suppressed_count: 4, suppressed_level: 'info', suppressed_message: 'render 0' },
+    });
+    expect(sampler.drainSummaries()).toEqual([]);
+  });
+
+  it('can be disabled', () => {
+    const sampler = new LogSampler({ rateLimit: false });
+    for (let i = 0; i < 100; i++) expect(sampler.tryAcquire('info', 'x', 0)).toBe(true);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Sampling and rate limiting for the browser log shipper.
+ *
+ * Protects `/api/logs` from floods (e.g. a render loop logging at info level in thousands
+ * of browsers). Applies to shipping only — the browser console still gets every entry.
+ *
+ * - Per-level sampling: "ship 10% of debug, 100% of warn/error". The decision is a stable
+ *   hash of the browser_id, so one browser session is either fully sampled or not for a
+ *   given rate (never a random subset of its logs).
+ * - Per-fingerprint token bucket: each distinct message (level + message with digits
+ *   collapsed) gets a burst `capacity` refilled at `refillPerSecond`. Entries over the
+ *   limit are dropped and counted; a synthetic "N messages suppressed" summary entry is
+ *   emitted with the next flush.
+ */
+
+import type { LogLevel } from './logger';
+import type { QueuedLogEntry } from './log-queue-store';
+
+export interface LogRateLimitOptions {
+  /** Burst size per fingerprint. Default 30. */
+  capacity?: number;
+  /** Tokens added per second per fingerprint. Default 1. */
+  refillPerSecond?: number;
+}
+
+export interface LogSamplingOptions {
+  /** Fraction of entries shipped per level, 0..1. Unlisted levels ship at 1 (100%). */
+  sampleRates?: Partial<Record<LogLevel, number>>;
+  /** Token-bucket limit per message fingerprint; `false` disables it. */
+  rateLimit?: LogRateLimitOptions | false;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  suppressed: number;
+  level: LogLevel;
+  message: string;
+}
+
+/** Upper bound on tracked fingerprints (oldest dropped first). */
+const MAX_FINGERPRINTS = 500;
+
+/** FNV-1a hash mapped to [0, 1) — stable across page loads for the same input. */
+export function hashToUnitInterval(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/** Groups messages that differ only by numbers (ids, counts) into one fingerprint. */
+export function fingerprintLog(level: LogLevel, message: string): string {
+  return `${level}|${message.replace(/\d+/g, '#').slice(0, 200)}`;
+}
+
+export class LogSampler {
+  private readonly sampleRates: Partial<Record<LogLevel, number>>;
+  private readonly rateLimit: Required<LogRateLimitOptions> | null;
+  private readonly buckets = new Map<string, Bucket>();
+
+  constructor(options: LogSamplingOptions = {}) {
+    this.sampleRates = options.sampleRates ?? {};
+    this.rateLimit = options.rateLimit === false
+      ? null
+      : { capacity: 30, refillPerSecond: 1, ...options.rateLimit };
+  }
+
+  /** Per-level sampling decision, consistent for a given browser_id. */
+  isSampled(level: LogLevel, browserId: string): boolean {
+    const rate = this.sampleRates[level] ?? 1;
+    if (rate >= 1) return true;
+    if (rate <= 0) return false;
+    // Without a browser_id there is nothing stable to hash — fall back to per-entry sampling.
+    const position = browserId ? hashToUnitInterval(browserId) : Math.random();
+    return position < rate;
+  }
+
+  /** Takes a token for the entry's fingerprint; false means the entry is over the limit. */
+  tryAcquire(level: LogLevel, message: string, now: number = Date.now()): boolean {
+    if (!this.rateLimit) return true;
+    const key = fingerprintLog(level, message);
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      if (this.buckets.size >= MAX_FINGERPRINTS) {
+        const oldest = this.buckets.keys().next().value;
+        if (oldest !== undefined) this.buckets.delete(oldest);
+      }
+      bucket = { tokens: this.rateLimit.capacity, updatedAt: now, suppressed: 0, level, message };
+      this.buckets.set(key, bucket);
+    } else {
+      const elapsedSeconds = Math.max(0, now - bucket.updatedAt) / 1000;
+      bucket.tokens = Math.min(this.rateLimit.capacity, bucket.tokens + elapsedSeconds * this.rateLimit.refillPerSecond);
+      bucket.updatedAt = now;
+    }
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return true;
+    }
+    bucket.suppressed++;
+    return false;
+  }
+
+  /** True when suppressed entries are waiting to be summarized. */
+  hasSuppressed(): boolean {
+    for (const bucket of this.buckets.values()) {
+      if (bucket.suppressed > 0) return true;
+    }
+    return false;
+  }
+
+  /** One synthetic warn entry per fingerprint with suppressed entries; resets the counters. */
+  drainSummaries(): QueuedLogEntry[] {
+    const summaries: QueuedLogEntry[] = [];
+    for (const bucket of this.buckets.values()) {
+      if (bucket.suppressed === 0) continue;
+      summaries.push({
+        level: 'warn',
+        message: `${bucket.suppressed} log message(s) suppressed by rate limit`,
+        context: {
+          suppressed_count: bucket.suppressed,
+          suppressed_level: bucket.level,
+          suppressed_message: bucket.message.slice(0, 200),
+        },
+        timestamp: new Date().toISOString(),
+      });
+      bucket.suppressed = 0;
+    }
+    return summaries;
+  }
+}
@@ -11,6 +11,10 @@ export const LOG_SCHEMA_FIELDS = {
   request_id: 'request_id',
   browser_id: 'browser_id',
   tenant_id: 'tenant_id',
+  /** W3C trace ID (32 hex) — same value as OpenTelemetry's trace_id in Go services. */
+  trace_id: 'trace_id',
+  /** W3C span ID (16 hex) of the span that wrote the entry. */
+  span_id: 'span_id',
 } as const;
 
 export type LogSchemaFieldName = keyof typeof LOG_SCHEMA_FIELDS;
@@ -23,7 +23,15 @@ vi.mock('pino', () => {
 
 // Mock dependencies so the module loads cleanly in Node/test
 vi.mock('./log-schema', () => ({
-  LOG_SCHEMA_FIELDS: { message: 'message', level: 'level', timestamp: 'timestamp', service: 'service', request_id: 'request_id' },
+  LOG_SCHEMA_FIELDS: {
+    message: 'message',
+    level: 'level',
+    timestamp: 'timestamp',
+    service: 'service',
+    request_id: 'request_id',
+    trace_id: 'trace_id',
+    span_id: 'span_id',
+  },
 }));
 
 vi.mock('./paths', () => ({
@@ -137,4 +145,192 @@ describe('logger shipping gate (bug #184)', () => {
     // Still false because no shipper is created on server
     expect(isLogShippingEnabled()).toBe(false);
   });
+
+  it('replays entries persisted by a previous page load once shipping is enabled', async () => {
+    const { enablePersistentLogQueue, enableLogShipping } = await import('./logger');
+    const store = {
+      save: vi.fn().mockResolvedValue(undefined),
+      claimOrphaned: vi.fn().mockResolvedValue([
+        { level: 'error', message: 'crashed before reload', timestamp: '2026-01-01T00:00:00.000Z' },
+      ]),
+    };
+
+    enablePersistentLogQueue({ store });
+    await vi.waitFor(() => expect(store.claimOrphaned).toHaveBeenCalled());
+    // Still gated: nothing shipped before enableLogShipping()
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    enableLogShipping();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body.logs).toEqual([
+      { level: 'error', message: 'crashed before reload', timestamp: '2026-01-01T00:00:00.000Z' },
+    ]);
+
+    // In-flight batch is persisted until the POST resolves, then cleared
+    await vi.waitFor(() => expect(store.save).toHaveBeenLastCalledWith([]));
+  });
+
+  describe('retry pipeline', () => {
+    const persisted = [{ level: 'error', message: 'boom', timestamp: '2026-01-01T00:00:00.000Z' }];
+
+    async function seedAndEnable(options?: Parameters<typeof import('./logger').enableLogShipping>[0]) {
+      const { enablePersistentLogQueue, enableLogShipping } = await import('./logger');
+      const store = { save: vi.fn().mockResolvedValue(undefined), claimOrphaned: vi.fn().mockResolvedValue(persisted) };
+      enablePersistentLogQueue({ store });
+      await vi.waitFor(() => expect(store.claimOrphaned).toHaveBeenCalled());
+      await Promise.resolve();
+      enableLogShipping(options);
+      return store;
+    }
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('retries a failed batch with the same batchRequestId', async () => {
+      mockFetch
+        .mockRejectedValueOnce(new TypeError('network down'))
+        .mockResolvedValueOnce({ ok: false, status: 502, headers: new Headers() })
+        .mockResolvedValueOnce({ ok: true, status: 200 });
+      await seedAndEnable({ retry: { baseDelayMs: 10, maxDelayMs: 50 } });
+
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(3));
+      const ids = mockFetch.mock.calls.map((c) => c[1].headers['X-Request-ID']);
+      const bodies = mockFetch.mock.calls.map((c) => c[1].body);
+      expect(new Set(ids)).toEqual(new Set(['00000000-test-batch-id']));
+      expect(new Set(bodies).size).toBe(1);
+    });
+
+    it('waits for Retry-After on 429', async () => {
+      vi.useFakeTimers();
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 429, headers: new Headers({ 'Retry-After': '3' }) })
+        .mockResolvedValueOnce({ ok: true, status: 200 });
+      await seedAndEnable({ retry: { baseDelayMs: 10, maxDelayMs: 60000 } });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(2900);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(200);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('drops batches the server rejects with a non-retryable status', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 400, headers: new Headers() });
+      const store = await seedAndEnable({ retry: { baseDelayMs: 1, maxDelayMs: 1 } });
+
+      await vi.waitFor(() => expect(store.save).toHaveBeenLastCalledWith([]));
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('requeues the batch once attempts are exhausted', async () => {
+      mockFetch.mockRejectedValue(new TypeError('offline'));
+      const store = await seedAndEnable({ retry: { maxAttempts: 2, baseDelayMs: 1, maxDelayMs: 1 } });
+
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+      // Back in the queue (and in the persisted snapshot) rather than thrown away
+      await vi.waitFor(() => expect(store.save).toHaveBeenLastCalledWith(persisted));
+      await new Promise((r) => setTimeout(r, 20));
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it('counts in-flight batches against the queue budget', async () => {
+    const pino = (await import('pino')).default as unknown as ReturnType<typeof vi.fn>;
+    const { enablePersistentLogQueue, enableLogShipping } = await import('./logger');
+    const write = pino.mock.calls[pino.mock.calls.length - 1][0].browser.write as (o: object) => void;
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    // Never settles: the replayed batch stays in flight.
+    mockFetch.mockReturnValue(new Promise(() => {}));
+    const replayed = { level: 'error', message: 'boom', timestamp: '2026-01-01T00:00:00.000Z' };
+    const store = { save: vi.fn().mockResolvedValue(undefined), claimOrphaned: vi.fn().mockResolvedValue([replayed]) };
+    enablePersistentLogQueue({ store, maxEntries: 2 });
+    await vi.waitFor(() => expect(store.claimOrphaned).toHaveBeenCalled());
+    await Promise.resolve();
+    enableLogShipping();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    write({ level: 30, msg: 'first' });
+    write({ level: 30, msg: 'second' });
+    await vi.waitFor(() =>
+      expect(store.save).toHaveBeenLastCalledWith([replayed, expect.objectContaining({ message: 'second' })]),
+    );
+  });
+
+  it('redacts sensitive context keys and token patterns before they reach pino', async () => {
+    const pino = (await import('pino')).default as unknown as ReturnType<typeof vi.fn>;
+    const mod = await import('./logger');
+    const mockPino = pino.mock.results[pino.mock.results.length - 1].value;
+
+    mod.default.info('user jane@example.com signed in', { password: 'hunter2', nested: { access_token: 'abc' } });
+    expect(mockPino.info).toHaveBeenCalledWith(
+      { password: '[REDACTED]', nested: { access_token: '[REDACTED]' } },
+      'user [REDACTED_EMAIL] signed in',
+    );
+  });
+
+  it('applies per-service level overrides on top of the process level', async () => {
+    const pino = (await import('pino')).default as unknown as ReturnType<typeof vi.fn>;
+    const mod = await import('./logger');
+    const overrides = await import('./log-level-overrides');
+    const mockPino = pino.mock.results[pino.mock.results.length - 1].value;
+    mockPino.debug.mockClear();
+    mockPino.info.mockClear();
+
+    overrides.setServiceLogLevel('auth0Service', 'debug');
+    overrides.setServiceLogLevel('AuthProvider', 'warn');
+    // pino must let debug through; the wrapper filters per service
+    expect(mockPino.level).toBe('debug');
+    expect(mod.default.getLevel()).toBe('info');
+
+    mod.default.debug('token refresh', { service: 'auth0Service.tokens' });
+    mod.default.debug('other module', { service: 'MyHellos' });
+    mod.default.info('auth state', { service: 'AuthProvider' });
+    expect(mockPino.debug).toHaveBeenCalledTimes(1);
+    expect(mockPino.debug).toHaveBeenCalledWith({ service: 'auth0Service.tokens' }, 'token refresh');
+    expect(mockPino.info).not.toHaveBeenCalled();
+
+    overrides.setServiceLogLevels({});
+    expect(mockPino.level).toBe('info');
+  });
+
+  it('merges ambient request context under the call-site context', async () => {
+    const pino = (await import('pino')).default as unknown as ReturnType<typeof vi.fn>;
+    const mod = await import('./logger');
+    const { registerLogContextProvider } = await import('./log-context');
+    const mockPino = pino.mock.results[pino.mock.results.length - 1].value;
+
+    registerLogContextProvider(() => ({ request_id: 'req-1', tenant_id: 't-1' }));
+    try {
+      mod.default.info('handled', { tenant_id: 'explicit' });
+      expect(mockPino.info).toHaveBeenLastCalledWith({ request_id: 'req-1', tenant_id: 'explicit' }, 'handled');
+    } finally {
+      registerLogContextProvider(null);
+    }
+  });
+
+  it('rate limits a flooding message and ships a suppression summary', async () => {
+    vi.useFakeTimers();
+    try {
+      const pino = (await import('pino')).default as unknown as ReturnType<typeof vi.fn>;
+      const { enableLogShipping } = await import('./logger');
+      const write = pino.mock.calls[pino.mock.calls.length - 1][0].browser.write as (o: object) => void;
+      vi.spyOn(console, 'info').mockImplementation(() => {});
+
+      enableLogShipping({ sampling: { rateLimit: { capacity: 2, refillPerSecond: 0 } } });
+      for (let i = 0; i < 7; i++) write({ level: 30, msg: 'render loop' });
+
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.logs.map((l: { message: string }) => l.message)).toEqual([
+        'render loop',
+        'render loop',
+        '5 log message(s) suppressed by rate limit',
+      ]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
 });
@@ -16,9 +16,49 @@ import pino from 'pino';
 import { LOG_SCHEMA_FIELDS } from './log-schema';
 import { apiUrl } from './paths';
 import { createBatchRequestId, getOrCreateClientBrowserId, getBrowserIdHeader, registerFetchLogger } from './requestId';
+import {
+  createIndexedDbLogStore,
+  enforceQueueBudget,
+  estimateEntryBytes,
+  type LogQueueBudget,
+  type PersistentLogStore,
+  type QueuedLogEntry,
+} from './log-queue-store';
+import { redactLogContext, redactString } from './log-redaction';
+import { LogSampler, type LogSamplingOptions } from './log-sampling';
+import {
+  LOG_LEVEL_RANK,
+  lowestServiceLogLevel,
+  onServiceLogLevelsChange,
+  parseLogLevelOverrides,
+  resolveServiceLogLevel,
+  setServiceLogLevel,
+} from './log-level-overrides';
+import { getAmbientLogContext } from './log-context';
+import { computeBackoffDelay, honoursRetryAfter, isRetryableStatus, parseRetryAfter } from './retry-backoff';
 
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
+/** Retry policy for failed log batch POSTs (see `enableLogShipping`). */
+export interface LogShippingRetryOptions {
+  /** Total attempts per batch including the first POST. Default 4. */
+  maxAttempts?: number;
+  /** Backoff ceiling for the first retry, doubled per attempt (full jitter). Default 1000. */
+  baseDelayMs?: number;
+  /** Upper bound for any retry delay, including `Retry-After`. Default 30000. */
+  maxDelayMs?: number;
+}
+
+export interface LogShippingOptions {
+  /** Retry policy for failed batches. */
+  retry?: LogShippingRetryOptions;
+  /**
+   * Per-level sampling and per-message rate limiting for shipped entries (console output is
+   * unaffected). Default: ship every level, rate limit each message to a burst of 30 then 1/s.
+   */
+  sampling?: LogSamplingOptions;
+}
+
 /** Re-export unified schema field names (same as common-go/logger/schema.go) for use in app loggers */
 export { LOG_SCHEMA_FIELDS } from './log-schema';
 
@@ -45,42 +85,139 @@ function getLogShippingEndpoint(): string | null {
  * Shipping is **disabled by default** in the browser. Consuming apps must call
  * `enableLogShipping()` after confirming an authenticated session so that
  * unauthenticated requests don't hit ForwardAuth-protected endpoints (see #184).
- * While disabled, logs accumulate in the queue (up to MAX_QUEUE_SIZE) and are
+ * While disabled, logs accumulate in the queue (within the queue budget) and are
  * flushed as a backlog once shipping is enabled.
+ *
+ * When the budget is exceeded, the oldest queued entry of the lowest severity is evicted
+ * (debug before info before warn before error). Entries of in-flight batches count
+ * against the budget but are never evicted. With a persistent store attached
+ * (see `enablePersistentLogQueue`), pending and in-flight entries are mirrored to
+ * IndexedDB and replayed on the next page load.
+ *
+ * Failed POSTs (network errors, 408/429/5xx) are retried with exponential backoff and
+ * full jitter, honouring `Retry-After` on 429/503. Every retry resends the identical
+ * payload, so the batch keeps its `00000000-` batchRequestId and Loki can dedupe it.
+ * When attempts run out (or shipping is disabled mid-retry) the batch goes back to the
+ * front of the queue and rides along with the next flush — under that flush's new
+ * batchRequestId, so Loki cannot dedupe it against an earlier attempt the server did
+ * receive. Duplicates are preferred over loss.
+ *
+ * Entries pass through a LogSampler before queueing (per-level sampling keyed on browser_id,
+ * per-message token bucket); suppressed entries are summarized in a synthetic warn entry.
  */
 class ClientLogShipper {
-  private logQueue: Array<{
-    level: LogLevel;
-    message: string;
-    context?: Record<string, unknown>;
-    timestamp: string;
-  }> = [];
+  private logQueue: QueuedLogEntry[] = [];
+  /** Batches sent but not yet acknowledged — kept in the persisted snapshot until delivered. */
+  private inFlight = new Map<string, QueuedLogEntry[]>();
   private flushTimer: ReturnType<typeof setTimeout> | null = null;
   private readonly BATCH_SIZE = 10;
   private readonly FLUSH_INTERVAL_MS = 5000; // 5 seconds
   private readonly MAX_QUEUE_SIZE = 200;
+  private readonly MAX_QUEUE_BYTES = 256 * 1024;
   private readonly endpoint: string;
   private _enabled = false;
+  private budget: LogQueueBudget = { maxEntries: this.MAX_QUEUE_SIZE, maxBytes: this.MAX_QUEUE_BYTES };
+  private store: PersistentLogStore | null = null;
+  private persistScheduled = false;
+  private retryPolicy: Required<LogShippingRetryOptions> = { maxAttempts: 4, baseDelayMs: 1000, maxDelayMs: 30000 };
+  /** Retry timers for in-flight batches, keyed like `inFlight`. */
+  private retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private sampler = new LogSampler();
 
   constructor(endpoint: string) {
     this.endpoint = endpoint;
   }
 
   /** Enable log shipping (call after auth session is confirmed). Flushes backlog. */
-  enable(): void {
+  enable(options?: LogShippingOptions): void {
+    if (options?.retry) {
+      this.retryPolicy = { ...this.retryPolicy, ...options.retry };
+    }
+    if (options?.sampling) {
+      this.sampler = new LogSampler(options.sampling);
+    }
     this._enabled = true;
     if (this.logQueue.length > 0) {
       this.flush();
     }
   }
 
-  /** Disable log shipping (call on logout). Clears pending timer but keeps queued logs. */
+  /**
+   * Attach a persistent store: replays entries left behind by previous page loads
+   * (prepended, oldest first) and mirrors the queue from now on.
+   */
+  async attachStore(store: PersistentLogStore, budget: LogQueueBudget): Promise<void> {
+    this.store = store;
+    this.budget = budget;
+    const orphaned = await store.claimOrphaned();
+    if (orphaned.length > 0) {
+      this.logQueue = [...orphaned, ...this.logQueue];
+    }
+    this.enforceBudget();
+    this.schedulePersist();
+    if (this._enabled && this.logQueue.length > 0) {
+      this.flush();
+    }
+  }
+
+  /** Coalesce snapshot writes to one per tick (many logs in one render = one IndexedDB write). */
+  private schedulePersist(): void {
+    if (!this.store || this.persistScheduled) {
+      return;
+    }
+    this.persistScheduled = true;
+    queueMicrotask(() => {
+      this.persistScheduled = false;
+      const pending = [...Array.from(this.inFlight.values()).flat(), ...this.logQueue];
+      void this.store?.save(pending);
+    });
+  }
+
+  /** Disable log shipping (call on logout). Clears pending timers but keeps queued logs. */
   disable(): void {
     this._enabled = false;
     if (this.flushTimer) {
       clearTimeout(this.flushTimer);
       this.flushTimer = null;
     }
+    this.requeuePendingRetries();
+  }
+
+  /**
+   * Evict queued entries until queue plus in-flight batches fit the budget. In-flight entries
+   * are already on the wire, so only the queue shrinks.
+   */
+  private enforceBudget(): void {
+    let inFlightEntries = 0;
+    let inFlightBytes = 0;
+    for (const batch of this.inFlight.values()) {
+      inFlightEntries += batch.length;
+      for (const entry of batch) inFlightBytes += estimateEntryBytes(entry);
+    }
+    enforceQueueBudget(this.logQueue, {
+      maxEntries: Math.max(0, this.budget.maxEntries - inFlightEntries),
+      maxBytes: Math.max(0, this.budget.maxBytes - inFlightBytes),
+    });
+  }
+
+  /** Put a batch back at the front of the queue (older entries first). */
+  private requeue(inFlightKey: string, batch: QueuedLogEntry[]): void {
+    this.inFlight.delete(inFlightKey);
+    this.logQueue = [...batch, ...this.logQueue];
+    this.enforceBudget();
+    this.schedulePersist();
+  }
+
+  /** Cancel scheduled retries and requeue their batches (on disable and before unload). */
+  private requeuePendingRetries(): void {
+    for (const [key, timer] of this.retryTimers) {
+      clearTimeout(timer);
+      const batch = this.inFlight.get(key);
+      if (batch) {
+        this.requeue(key, batch);
+      }
+    }
+    this.retryTimers.clear();
   }
 
   isEnabled(): boolean {
@@ -91,9 +228,13 @@ class ClientLogShipper {
    * Add log to queue and schedule flush if needed
    */
   addLog(level: LogLevel, message: string, context?: Record<string, unknown>): void {
-    // Cap queue size to prevent unbounded memory growth while shipping is disabled
-    if (this.logQueue.length >= this.MAX_QUEUE_SIZE) {
-      this.logQueue.shift();
+    if (!this.sampler.isSampled(level, getOrCreateClientBrowserId())) {
+      return;
+    }
+    if (!this.sampler.tryAcquire(level, message)) {
+      // Over the per-message limit: counted by the sampler, summarized on the next flush.
+      this.scheduleFlush();
+      return;
     }
 
     this.logQueue.push({
@@ -103,6 +244,10 @@ class ClientLogShipper {
       timestamp: new Date().toISOString(),
     });
 
+    // Enforce the budget to prevent unbounded memory growth while shipping is disabled
+    this.enforceBudget();
+    this.schedulePersist();
+
     // Only schedule/trigger flush when shipping is enabled
     if (!this._enabled) {
       return;
@@ -111,11 +256,26 @@ class ClientLogShipper {
     // Flush immediately if batch size reached
     if (this.logQueue.length >= this.BATCH_SIZE) {
       this.flush();
-    } else if (!this.flushTimer) {
-      // Schedule flush after interval
-      this.flushTimer = setTimeout(() => {
-        this.flush();
-      }, this.FLUSH_INTERVAL_MS);
+    } else {
+      this.scheduleFlush();
+    }
+  }
+
+  /** Schedule a flush after the interval (no-op when disabled or already scheduled). */
+  private scheduleFlush(): void {
+    if (!this._enabled || this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flush();
+    }, this.FLUSH_INTERVAL_MS);
+  }
+
+  /** Append "N messages suppressed" summaries so rate-limited floods stay visible. */
+  private appendSuppressionSummaries(): void {
+    const summaries = this.sampler.drainSummaries();
+    if (summaries.length > 0) {
+      this.logQueue.push(...summaries);
     }
   }
 
@@ -123,7 +283,7 @@ class ClientLogShipper {
    * Build the JSON payload for a log batch.
    * batchRequestId is in the body for all transports; also used as X-Request-ID header on fetch paths.
    */
-  private buildBatchPayload(batch: typeof this.logQueue): { payload: string; batchRequestId: string } {
+  private buildBatchPayload(batch: QueuedLogEntry[]): { payload: string; batchRequestId: string } {
     const browserId = getOrCreateClientBrowserId();
     // Batch request ID: `00000000-xxxx-...` prefix marks it as a batch transport ID in Grafana/Loki.
     const batchRequestId = createBatchRequestId();
@@ -144,6 +304,7 @@ class ClientLogShipper {
    * so gateway access logs can correlate log-shipping POSTs with other service logs.
    */
   private async flush(): Promise<void> {
+    this.appendSuppressionSummaries();
     if (this.logQueue.length === 0) {
       return;
     }
@@ -157,7 +318,24 @@ class ClientLogShipper {
     this.logQueue = [];
 
     const { payload, batchRequestId } = this.buildBatchPayload(batch);
+    const inFlightKey = batchRequestId || `batch-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+    this.inFlight.set(inFlightKey, batch);
+    this.schedulePersist();
+
+    this.sendBatch(inFlightKey, batch, payload, batchRequestId, 1);
+  }
 
+  /**
+   * POST one batch attempt. The payload (and therefore batchRequestId) is identical
+   * across attempts so retried batches dedupe downstream.
+   */
+  private sendBatch(
+    inFlightKey: string,
+    batch: QueuedLogEntry[],
+    payload: string,
+    batchRequestId: string,
+    attempt: number,
+  ): void {
     try {
       fetch(this.endpoint, {
         method: 'POST',
@@ -168,16 +346,60 @@ class ClientLogShipper {
         },
         body: payload,
         keepalive: true,
-      }).catch((err: unknown) => {
-        if (typeof process !== 'undefined' && process.env?.NODE_ENV === 'development') {
-          console.warn('[logger] Failed to ship logs to server:', err);
+      }).then((response) => {
+        if (response.ok) {
+          this.inFlight.delete(inFlightKey);
+          this.schedulePersist();
+          return;
         }
+        if (!isRetryableStatus(response.status)) {
+          // Client errors (400, 413, ...) will not succeed on retry — drop the batch.
+          this.inFlight.delete(inFlightKey);
+          this.schedulePersist();
+          if (typeof process !== 'undefined' && process.env?.NODE_ENV === 'development') {
+            console.warn('[logger] Log batch rejected by server:', response.status);
+          }
+          return;
+        }
+        const retryAfterMs = honoursRetryAfter(response.status)
+          ? parseRetryAfter(response.headers?.get('Retry-After'))
+          : null;
+        this.scheduleRetry(inFlightKey, batch, payload, batchRequestId, attempt, retryAfterMs);
+      }).catch(() => {
+        this.scheduleRetry(inFlightKey, batch, payload, batchRequestId, attempt, null);
       });
     } catch (error) {
       if (typeof process !== 'undefined' && process.env?.NODE_ENV === 'development') {
         console.warn('[logger] Failed to ship logs:', error);
       }
+      this.requeue(inFlightKey, batch);
+    }
+  }
+
+  /** Retry after backoff (or `Retry-After`), or requeue once attempts are exhausted. */
+  private scheduleRetry(
+    inFlightKey: string,
+    batch: QueuedLogEntry[],
+    payload: string,
+    batchRequestId: string,
+    attempt: number,
+    retryAfterMs: number | null,
+  ): void {
+    if (attempt >= this.retryPolicy.maxAttempts || !this._enabled) {
+      if (typeof process !== 'undefined' && process.env?.NODE_ENV === 'development') {
+        console.warn(`[logger] Failed to ship logs after ${attempt} attempt(s); requeued`);
+      }
+      this.requeue(inFlightKey, batch);
+      return;
     }
+    const delay = retryAfterMs !== null
+      ? Math.min(retryAfterMs, this.retryPolicy.maxDelayMs)
+      : computeBackoffDelay(attempt, this.retryPolicy);
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(inFlightKey);
+      this.sendBatch(inFlightKey, batch, payload, batchRequestId, attempt + 1);
+    }, delay);
+    this.retryTimers.set(inFlightKey, timer);
   }
 
   /**
@@ -187,7 +409,13 @@ class ClientLogShipper {
    * Respects the enabled gate — does not ship when shipping is disabled.
    */
   forceFlush(): void {
-    if (this.logQueue.length === 0 || !this._enabled) {
+    if (!this._enabled) {
+      return;
+    }
+    // Batches waiting for a retry would be lost with the page — send them in the beacon.
+    this.requeuePendingRetries();
+    this.appendSuppressionSummaries();
+    if (this.logQueue.length === 0) {
       return;
     }
 
@@ -204,7 +432,11 @@ class ClientLogShipper {
     try {
       if (navigator.sendBeacon) {
         const blob = new Blob([payload], { type: 'application/json' });
-        navigator.sendBeacon(this.endpoint, blob);
+        // A rejected beacon (browser queue full) keeps the batch persisted for the next load.
+        if (!navigator.sendBeacon(this.endpoint, blob)) {
+          this.logQueue = batch;
+        }
+        this.schedulePersist();
       } else {
         // Fallback: fetch+keepalive on browsers without sendBeacon
         fetch(this.endpoint, {
@@ -351,6 +583,12 @@ function createLogger(): pino.Logger {
 // Create singleton logger instance
 const logger = createLogger();
 
+// Per-service overrides baked into the bundle (e.g. NEXT_PUBLIC_LOG_LEVELS=auth0Service:debug).
+// Server processes additionally read LOG_LEVELS in server/log-level-manager.
+for (const [service, level] of Object.entries(parseLogLevelOverrides(process.env.NEXT_PUBLIC_LOG_LEVELS))) {
+  setServiceLogLevel(service, level);
+}
+
 /**
  * Logger interface matching common-go logger pattern
  * Provides consistent API across client and server
@@ -364,54 +602,93 @@ export interface Logger {
   getLevel(): LogLevel;
 }
 
+/** Ambient fields (e.g. server request context) under the call-site context; explicit fields win. */
+function withAmbientContext(context?: Record<string, unknown>): Record<string, unknown> | undefined {
+  const ambient = getAmbientLogContext();
+  return ambient ? { ...ambient, ...context } : context;
+}
+
 /**
  * Logger wrapper that provides consistent API
+ *
+ * Every entry passes through the shared PII redaction rules (log-redaction.ts) before it
+ * reaches pino — in the browser (console + shipper) and on the server (stdout), so both
+ * sides apply the same golden §7 policy.
+ *
+ * Ambient fields from log-context.ts (request_id / tenant_id / service of the current server
+ * request, see server/request-context) are merged under the call-site context.
  */
 class LoggerWrapper implements Logger {
   private pinoLogger: pino.Logger;
+  /** Process-wide level; per-service overrides (log-level-overrides.ts) take precedence. */
+  private baseLevel: LogLevel;
 
   constructor(pinoLogger: pino.Logger) {
     this.pinoLogger = pinoLogger;
+    this.baseLevel = pinoLogger.level as LogLevel;
+    this.syncPinoLevel();
+    onServiceLogLevelsChange(() => this.syncPinoLevel());
   }
 
-  debug(message: string, context?: Record<string, unknown>): void {
+  /** pino runs at the most verbose of base and override levels; `isEnabled` does the filtering. */
+  private syncPinoLevel(): void {
+    const lowest = lowestServiceLogLevel();
+    this.pinoLogger.level =
+      lowest && LOG_LEVEL_RANK[lowest] < LOG_LEVEL_RANK[this.baseLevel] ? lowest : this.baseLevel;
+  }
+
+  private isEnabled(level: LogLevel, context?: Record<string, unknown>): boolean {
+    const threshold = resolveServiceLogLevel(context?.[LOG_SCHEMA_FIELDS.service]) ?? this.baseLevel;
+    return LOG_LEVEL_RANK[level] >= LOG_LEVEL_RANK[threshold];
+  }
+
+  debug(message: string, explicitContext?: Record<string, unknown>): void {
+    const context = withAmbientContext(explicitContext);
+    if (!this.isEnabled('debug', context)) return;
     if (context) {
-      this.pinoLogger.debug(context, message);
+      this.pinoLogger.debug(redactLogContext(context), redactString(message));
     } else {
-      this.pinoLogger.debug(message);
+      this.pinoLogger.debug(redactString(message));
     }
   }
 
-  info(message: string, context?: Record<string, unknown>): void {
+  info(message: string, explicitContext?: Record<string, unknown>): void {
+    const context = withAmbientContext(explicitContext);
+    if (!this.isEnabled('info', context)) return;
     if (context) {
-      this.pinoLogger.info(context, message);
+      this.pinoLogger.info(redactLogContext(context), redactString(message));
     } else {
-      this.pinoLogger.info(message);
+      this.pinoLogger.info(redactString(message));
     }
   }
 
-  warn(message: string, context?: Record<string, unknown>): void {
+  warn(message: string, explicitContext?: Record<string, unknown>): void {
+    const context = withAmbientContext(explicitContext);
+    if (!this.isEnabled('warn', context)) return;
     if (context) {
-      this.pinoLogger.warn(context, message);
+      this.pinoLogger.warn(redactLogContext(context), redactString(message));
     } else {
-      this.pinoLogger.warn(message);
+      this.pinoLogger.warn(redactString(message));
     }
   }
 
-  error(message: string, context?: Record<string, unknown>): void {
+  error(message: string, explicitContext?: Record<string, unknown>): void {
+    const context = withAmbientContext(explicitContext);
+    if (!this.isEnabled('error', context)) return;
     if (context) {
-      this.pinoLogger.error(context, message);
+      this.pinoLogger.error(redactLogContext(context), redactString(message));
     } else {
-      this.pinoLogger.error(message);
+      this.pinoLogger.error(redactString(message));
     }
   }
 
   setLevel(level: LogLevel): void {
-    this.pinoLogger.level = level;
+    this.baseLevel = level;
+    this.syncPinoLevel();
   }
 
   getLevel(): LogLevel {
-    return this.pinoLogger.level as LogLevel;
+    return this.baseLevel;
   }
 }
 
@@ -431,12 +708,14 @@ registerFetchLogger((message, context) => defaultLogger.info(message, context));
  * POSTs to /api/logs carry a valid session cookie and are not rejected
  * by ForwardAuth (see bug #184).
  *
+ * Failed batches are retried with exponential backoff and jitter (see `options.retry`).
+ *
  * Safe to call multiple times or on the server (no-op outside browser).
  */
-export function enableLogShipping(): void {
+export function enableLogShipping(options?: LogShippingOptions): void {
   const shipper = getLogShipper();
   if (shipper) {
-    shipper.enable();
+    shipper.enable(options);
   }
 }
 
@@ -453,6 +732,41 @@ export function disableLogShipping(): void {
   }
 }
 
+export interface PersistentLogQueueOptions {
+  /** Maximum number of pending entries kept (memory and IndexedDB). Default 500. */
+  maxEntries?: number;
+  /** Maximum total size of pending entries in bytes (approximate). Default 512 KiB. */
+  maxBytes?: number;
+  /** IndexedDB database name. Defaults to one per log endpoint (basePath-aware). */
+  dbName?: string;
+  /** Storage override (for testing). Defaults to IndexedDB. */
+  store?: PersistentLogStore;
+}
+
+/**
+ * Persist the client log queue to IndexedDB so entries queued before
+ * `enableLogShipping()`, while offline, or right before a crash survive a reload.
+ * Entries left by previous page loads are replayed once shipping is enabled.
+ *
+ * Call once at app startup (before auth resolves) to cover the pre-auth window.
+ * No-op on the server or when IndexedDB is unavailable.
+ */
+export function enablePersistentLogQueue(options: PersistentLogQueueOptions = {}): void {
+  const shipper = getLogShipper();
+  const endpoint = getLogShippingEndpoint();
+  if (!shipper || !endpoint) {
+    return;
+  }
+  const store = options.store ?? createIndexedDbLogStore(options.dbName ?? `exbrain-log-queue:${endpoint}`);
+  if (!store) {
+    return;
+  }
+  void shipper.attachStore(store, {
+    maxEntries: options.maxEntries ?? 500,
+    maxBytes: options.maxBytes ?? 512 * 1024,
+  });
+}
+
 /**
  * Check whether client-side log shipping is currently enabled.
  */
@@ -482,10 +796,13 @@ export function patchConsoleForStructuredLogging(options?: PatchConsoleOptions):
     const first = args[0];
     const rest = args.slice(1);
     const message = typeof first === 'string' ? first : JSON.stringify(first);
-    // Unified schema: service + request_id (same fields as common-go schema.go)
+    // Unified schema: service + request_id (same fields as common-go schema.go).
+    // Inside runWithRequestContext the ambient request_id / tenant_id / service apply.
+    const ambient = getAmbientLogContext();
     const context: Record<string, unknown> = {
-      [LOG_SCHEMA_FIELDS.service]: service,
-      [LOG_SCHEMA_FIELDS.request_id]: '',
+      ...ambient,
+      [LOG_SCHEMA_FIELDS.service]: ambient?.[LOG_SCHEMA_FIELDS.service] ?? service,
+      [LOG_SCHEMA_FIELDS.request_id]: ambient?.[LOG_SCHEMA_FIELDS.request_id] ?? '',
     };
     if (rest.length > 0) context.args = rest.length === 1 ? rest[0] : rest;
     return { message, context };
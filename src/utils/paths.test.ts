@@ -6,6 +6,7 @@ import {
   withoutBasePath,
   hasBasePath,
   getDashboardHomePath,
+  isSameOriginUrl,
 } from './paths';
 
 describe('path utilities', () => {
@@ -160,6 +161,23 @@ describe('path utilities', () => {
     });
   });
 
+  describe('isSameOriginUrl', () => {
+    it('should compare origins in the browser', () => {
+      global.window = originalWindow;
+      expect(isSameOriginUrl('/api/me')).toBe(true);
+      expect(isSameOriginUrl(`${window.location.origin}/api/me`)).toBe(true);
+      expect(isSameOriginUrl('https://evil.example/api')).toBe(false);
+      expect(isSameOriginUrl('//evil.example/api')).toBe(false);
+    });
+
+    it('should accept only relative URLs on the server', () => {
+      expect(isSameOriginUrl('/api/me')).toBe(true);
+      expect(isSameOriginUrl('https://evil.example/api')).toBe(false);
+      expect(isSameOriginUrl('//evil.example/api')).toBe(false);
+      expect(isSameOriginUrl('/\\evil.example/api')).toBe(false);
+    });
+  });
+
   describe('getDashboardHomePath', () => {
     it('should return dashboard home path without basePath', () => {
       expect(getDashboardHomePath()).toBe('/dashboard/home');
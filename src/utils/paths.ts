@@ -77,6 +77,26 @@ export function hasBasePath(path: string): boolean {
   return path.startsWith(basePath)
 }
 
+/**
+ * Check if a URL targets the page's own origin (relative URLs always do)
+ * Use this before attaching credentials or correlation headers to a request
+ *
+ * @example
+ * isSameOriginUrl('/api/me') // true
+ * isSameOriginUrl('//cdn.example.com/x') // false unless the page is on cdn.example.com
+ */
+export function isSameOriginUrl(url: string): boolean {
+  if (typeof window !== 'undefined') {
+    try {
+      return new URL(url, window.location.href).origin === window.location.origin
+    } catch {
+      return false
+    }
+  }
+  // Server-side: only relative URLs; protocol-relative (`//host`, `/\host`) ones leave the origin
+  return !/^[a-z][a-z0-9+.-]*:/i.test(url) && !/^[/\\]{2}/.test(url)
+}
+
 /**
  * Get default dashboard home path (with basePath)
  */
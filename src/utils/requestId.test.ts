@@ -222,5 +222,66 @@ describe('requestId', () => {
       );
       vi.unstubAllGlobals();
     });
+
+    it('sends a traceparent child of the page span from <meta name="traceparent">', async () => {
+      const meta = document.createElement('meta');
+      meta.name = 'traceparent';
+      meta.content = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+      document.head.appendChild(meta);
+      const fetchMock = vi.fn().mockResolvedValue(new Response());
+      vi.stubGlobal('fetch', fetchMock);
+      try {
+        const { fetchWithRequestId } = await import('./requestId');
+        await fetchWithRequestId('/api/x');
+        const h = new Headers((fetchMock.mock.calls[0][1] as RequestInit).headers);
+        expect(h.get('traceparent')).toMatch(/^00-4bf92f3577b34da6a3ce929d0e0e4736-[0-9a-f]{16}-01$/);
+        expect(h.get('traceparent')).not.toContain('00f067aa0ba902b7');
+      } finally {
+        meta.remove();
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it('starts a new trace without a page span and keeps an explicit traceparent', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response());
+      vi.stubGlobal('fetch', fetchMock);
+      const { fetchWithRequestId } = await import('./requestId');
+      await fetchWithRequestId('/api/x');
+      const explicit = '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-00';
+      await fetchWithRequestId('/api/y', { headers: { traceparent: explicit } });
+      const first = new Headers((fetchMock.mock.calls[0][1] as RequestInit).headers);
+      const second = new Headers((fetchMock.mock.calls[1][1] as RequestInit).headers);
+      expect(first.get('traceparent')).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+      expect(second.get('traceparent')).toBe(explicit);
+      vi.unstubAllGlobals();
+    });
+
+    it('sends trace headers to other origins only when asked', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response());
+      vi.stubGlobal('fetch', fetchMock);
+      const { fetchWithRequestId } = await import('./requestId');
+      await fetchWithRequestId('https://cdn.example/x');
+      await fetchWithRequestId('https://api.example/x', undefined, undefined, true);
+      await fetchWithRequestId('/api/x', undefined, undefined, false);
+      const sent = (call: number) => new Headers((fetchMock.mock.calls[call][1] as RequestInit).headers);
+      expect(sent(0).has('traceparent')).toBe(false);
+      expect(sent(0).get('X-Request-ID')).toBeTruthy();
+      expect(sent(1).get('traceparent')).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+      expect(sent(2).has('traceparent')).toBe(false);
+      vi.unstubAllGlobals();
+    });
+
+    it('keeps an explicit X-Request-ID and logs the request with it', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response());
+      vi.stubGlobal('fetch', fetchMock);
+      const { fetchWithRequestId, registerFetchLogger } = await import('./requestId');
+      const logFn = vi.fn();
+      registerFetchLogger(logFn);
+      await fetchWithRequestId('http://api.example/x', { headers: { 'X-Request-ID': 'explicit-rid' } });
+      const h = new Headers((fetchMock.mock.calls[0][1] as RequestInit).headers);
+      expect(h.get('X-Request-ID')).toBe('explicit-rid');
+      expect(logFn).toHaveBeenCalledWith('→ GET http://api.example/x', expect.objectContaining({ requestId: 'explicit-rid' }));
+      vi.unstubAllGlobals();
+    });
   });
 });
@@ -10,12 +10,24 @@
  * - getOrCreateClientRequestId: backward-compat alias for getOrCreateClientBrowserId
  * - getRequestIdHeader: header object for OpenAPI/fetch (generates fresh UUID per call)
  * - getBrowserIdHeader: header object with X-Browser-ID (stable browser session ID)
- * - fetchWithRequestId: fetch wrapper that adds X-Request-ID and X-Browser-ID to every request
+ * - fetchWithRequestId: fetch wrapper that adds X-Request-ID, X-Browser-ID and a W3C
+ *   `traceparent` child span (see trace-context.ts) to same-origin requests
  *
  * Server-side: use @exbrain/common-react/server getOrCreateRequestId and
  * fetchWithTimeout (with requestId option) to forward request ID when proxying.
  */
 
+import { LOG_SCHEMA_FIELDS } from './log-schema';
+import { isSameOriginUrl } from './paths';
+import {
+  createChildSpan,
+  getPageTraceContext,
+  getTraceHeaders,
+  startTrace,
+  TRACEPARENT_HEADER,
+  type TraceContext,
+} from './trace-context';
+
 /** Default cookie name for request ID (set by Next.js middleware). */
 export const REQUEST_ID_COOKIE_NAME = 'x-request-id';
 
@@ -160,29 +172,57 @@ export function registerFetchLogger(fn: LogFn): void {
  * cross-referenced with backend (gateway / IAM / engine) logs in Grafana.
  * Requires logger.ts to have called registerFetchLogger — guaranteed by module load order.
  */
-export function logOutgoingRequest(requestId: string, method: string, url: string): void {
+export function logOutgoingRequest(requestId: string, method: string, url: string, trace?: TraceContext): void {
   if (_fetchLogger && requestId) {
-    _fetchLogger(`→ ${method.toUpperCase()} ${url}`, { requestId });
+    _fetchLogger(`→ ${method.toUpperCase()} ${url}`, {
+      requestId,
+      ...(trace && { [LOG_SCHEMA_FIELDS.trace_id]: trace.traceId, [LOG_SCHEMA_FIELDS.span_id]: trace.spanId }),
+    });
   }
 }
 
 /**
- * Fetch with X-Request-ID and X-Browser-ID set on every request.
+ * Logs the response to an outgoing request (status and duration) under the same request_id as
+ * logOutgoingRequest. Used by createApiClient; no-op until logger.ts has registered the logger.
+ */
+export function logFetchResponse(
+  requestId: string,
+  method: string,
+  url: string,
+  status: number,
+  durationMs: number
+): void {
+  if (_fetchLogger && requestId) {
+    _fetchLogger(`← ${status} ${method.toUpperCase()} ${url}`, { requestId, status, duration_ms: durationMs });
+  }
+}
+
+/**
+ * Fetch with X-Request-ID and X-Browser-ID set on every request, plus `traceparent` for a new
+ * span: a child of the page's server span (`<meta name="traceparent">`) or a new trace.
+ * Trace headers go to relative and same-origin URLs only (other origins would need a CORS
+ * preflight and would learn the trace ids) unless `propagateTrace` says otherwise.
+ * An explicit `X-Request-ID` or `traceparent` in `init.headers` is kept.
  * Automatically logs the outgoing request via the registered fetch logger (see registerFetchLogger),
  * so the frontend log shares the same request_id as the backend logs in Grafana.
  *
  * @param input - URL or Request (same as fetch)
  * @param init - RequestInit (same as fetch)
  * @param cookieName - Cookie name for browser ID (default BROWSER_ID_COOKIE_NAME)
+ * @param propagateTrace - Send trace headers (default: only to same-origin URLs)
  */
 export function fetchWithRequestId(
   input: RequestInfo | URL,
   init?: RequestInit,
-  cookieName: string = BROWSER_ID_COOKIE_NAME
+  cookieName: string = BROWSER_ID_COOKIE_NAME,
+  propagateTrace?: boolean
 ): Promise<Response> {
-  const requestId = typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : '';
   const headers = new Headers(init?.headers);
-  if (requestId) headers.set(REQUEST_ID_HEADER, requestId);
+  let requestId = headers.get(REQUEST_ID_HEADER) ?? '';
+  if (!requestId) {
+    requestId = typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : '';
+    if (requestId) headers.set(REQUEST_ID_HEADER, requestId);
+  }
   const bid = getBrowserIdHeader(cookieName);
   Object.entries(bid).forEach(([k, v]) => headers.set(k, v));
   const url = typeof input === 'string'
@@ -190,7 +230,13 @@ export function fetchWithRequestId(
     : input instanceof URL
       ? input.href
       : (input as Request).url;
+  let span: TraceContext | undefined;
+  if (!headers.has(TRACEPARENT_HEADER) && (propagateTrace ?? isSameOriginUrl(url))) {
+    const page = getPageTraceContext();
+    span = page ? createChildSpan(page) : startTrace();
+    Object.entries(getTraceHeaders(span)).forEach(([k, v]) => headers.set(k, v));
+  }
   const method = init?.method ?? (!(typeof input === 'string' || input instanceof URL) ? (input as Request).method : undefined) ?? 'GET';
-  logOutgoingRequest(requestId, method, url);
+  logOutgoingRequest(requestId, method, url, span);
   return fetch(input, { ...init, headers });
 }
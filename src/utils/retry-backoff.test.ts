@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { computeBackoffDelay, parseRetryAfter, isRetryableStatus, honoursRetryAfter } from './retry-backoff';
+
+describe('computeBackoffDelay', () => {
+  const options = { baseDelayMs: 1000, maxDelayMs: 30000 };
+
+  it('doubles the jitter ceiling per attempt', () => {
+    const max = () => 0.999999;
+    expect(computeBackoffDelay(1, options, max)).toBe(999);
+    expect(computeBackoffDelay(2, options, max)).toBe(1999);
+    expect(computeBackoffDelay(3, options, max)).toBe(3999);
+  });
+
+  it('caps the ceiling at maxDelayMs', () => {
+    expect(computeBackoffDelay(20, options, () => 0.999999)).toBeLessThan(30000);
+    expect(computeBackoffDelay(20, options, () => 0.5)).toBe(15000);
+  });
+
+  it('applies full jitter (zero is a valid delay)', () => {
+    expect(computeBackoffDelay(3, options, () => 0)).toBe(0);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('parses delta-seconds', () => {
+    expect(parseRetryAfter('120')).toBe(120_000);
+  });
+
+  it('parses an HTTP-date relative to now', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:05 GMT', now)).toBe(5000);
+  });
+
+  it('clamps past dates to zero', () => {
+    const now = Date.parse('2026-01-01T00:00:10Z');
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:05 GMT', now)).toBe(0);
+  });
+
+  it('returns null for missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter('')).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
+
+describe('status classification', () => {
+  it('retries timeouts, rate limits and transient server errors', () => {
+    for (const status of [408, 429, 500, 502, 503, 504]) {
+      expect(isRetryableStatus(status)).toBe(true);
+    }
+  });
+
+  it('does not retry client errors or 501', () => {
+    for (const status of [400, 401, 403, 404, 413, 501]) {
+      expect(isRetryableStatus(status)).toBe(false);
+    }
+  });
+
+  it('honours Retry-After only on 429 and 503', () => {
+    expect(honoursRetryAfter(429)).toBe(true);
+    expect(honoursRetryAfter(503)).toBe(true);
+    expect(honoursRetryAfter(502)).toBe(false);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Retry backoff helpers — exponential backoff with full jitter and `Retry-After` parsing.
+ *
+ * Framework-neutral and side-effect free (no timers, no fetch) so both the browser log
+ * shipper and server-side fetch helpers can share the same retry math.
+ */
+
+export interface BackoffOptions {
+  /** Delay cap for the first retry, doubled per attempt. */
+  baseDelayMs: number;
+  /** Upper bound for any single delay (also caps `Retry-After`). */
+  maxDelayMs: number;
+}
+
+/**
+ * Delay before retry number `attempt` (1 = first retry) using "full jitter":
+ * a uniform random value in `[0, min(maxDelayMs, baseDelayMs * 2^(attempt-1))]`.
+ * Jitter spreads retries from many browsers so a recovering gateway is not hit in lockstep.
+ *
+ * @param random - Random source in [0, 1) (injectable for tests). Defaults to Math.random.
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  options: BackoffOptions,
+  random: () => number = Math.random,
+): number {
+  const exponent = Math.max(0, attempt - 1);
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** exponent);
+  return Math.floor(random() * ceiling);
+}
+
+/**
+ * Parses a `Retry-After` header value (delta-seconds or HTTP-date) into milliseconds.
+ * Returns null when the header is missing or unparseable; past dates yield 0.
+ *
+ * @param now - Current time in ms (injectable for tests). Defaults to Date.now().
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+/** Statuses worth retrying: request timeout, rate limiting and transient gateway/server errors. */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || (status >= 500 && status !== 501);
+}
+
+/** Statuses whose `Retry-After` header is honoured (RFC 9110 §10.2.3). */
+export function honoursRetryAfter(status: number): boolean {
+  return status === 429 || status === 503;
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  continueTrace,
+  createChildSpan,
+  formatTraceparent,
+  generateSpanId,
+  generateTraceId,
+  getTraceHeaders,
+  parseTraceparent,
+  parseTracestate,
+} from './trace-context';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+
+describe('trace-context', () => {
+  it('generates non-zero lowercase hex IDs of the right length', () => {
+    expect(generateTraceId()).toMatch(/^[0-9a-f]{32}$/);
+    expect(generateSpanId()).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('parses valid traceparent headers', () => {
+    expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01`)).toEqual({ traceId: TRACE_ID, spanId: SPAN_ID, sampled: true });
+    expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-00`)?.sampled).toBe(false);
+    // Future versions may append fields
+    expect(parseTraceparent(`01-${TRACE_ID}-${SPAN_ID}-01-extra`)?.traceId).toBe(TRACE_ID);
+  });
+
+  it.each([
+    ['missing', undefined],
+    ['wrong shape', 'garbage'],
+    ['uppercase hex', `00-${TRACE_ID.toUpperCase()}-${SPAN_ID}-01`],
+    ['version ff', `ff-${TRACE_ID}-${SPAN_ID}-01`],
+    ['trailing data on version 00', `00-${TRACE_ID}-${SPAN_ID}-01-extra`],
+    ['zero trace id', `00-${'0'.repeat(32)}-${SPAN_ID}-01`],
+    ['zero span id', `00-${TRACE_ID}-${'0'.repeat(16)}-01`],
+  ])('rejects an invalid traceparent (%s)', (_label, value) => {
+    expect(parseTraceparent(value)).toBeNull();
+  });
+
+  it('validates tracestate and drops invalid lists entirely', () => {
+    expect(parseTracestate('rojo=00f067aa0ba902b7, congo=t61rcWkgMzE,')).toBe('rojo=00f067aa0ba902b7,congo=t61rcWkgMzE');
+    expect(parseTracestate('tenant@vendor=x')).toBe('tenant@vendor=x');
+    expect(parseTracestate('Invalid=1')).toBeUndefined();
+    expect(parseTracestate('a=1,a=2')).toBeUndefined();
+    expect(parseTracestate(Array.from({ length: 33 }, (_, i) => `k${i}=v`).join(','))).toBeUndefined();
+  });
+
+  it('continues a trace as a child span and round-trips the header', () => {
+    const span = continueTrace(`00-${TRACE_ID}-${SPAN_ID}-01`, 'rojo=1');
+    expect(span).toMatchObject({ traceId: TRACE_ID, sampled: true, traceState: 'rojo=1' });
+    expect(span.spanId).not.toBe(SPAN_ID);
+    const child = createChildSpan(span);
+    expect(child.traceId).toBe(TRACE_ID);
+    expect(child.spanId).not.toBe(span.spanId);
+    expect(parseTraceparent(formatTraceparent(child))).toEqual({ traceId: TRACE_ID, spanId: child.spanId, sampled: true });
+    expect(getTraceHeaders(child)).toEqual({ traceparent: formatTraceparent(child), tracestate: 'rojo=1' });
+  });
+
+  it('starts a new trace when the incoming header is invalid', () => {
+    const span = continueTrace('nope', 'rojo=1');
+    expect(span.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(span.traceState).toBeUndefined();
+  });
+});
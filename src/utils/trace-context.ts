@@ -0,0 +1,140 @@
+/**
+ * W3C Trace Context (`traceparent` / `tracestate`) — generation, parsing and validation.
+ *
+ * Propagated alongside X-Request-ID so browser → Next.js → Go (OpenTelemetry) traces join up:
+ * - middleware continues an incoming trace or starts one (server/middleware-request-id)
+ * - fetchWithRequestId (browser) and fetchWithTimeout (server) send a child span per request
+ * - logs carry `trace_id` / `span_id` (LOG_SCHEMA_FIELDS)
+ *
+ * Browser pages join the server trace through `<meta name="traceparent">` rendered by the app
+ * (see {@link getPageTraceContext}); without it each browser request starts a new trace.
+ *
+ * Edge- and browser-safe: Web Crypto only.
+ * Spec: W3C Trace Context (Level 1).
+ */
+
+export const TRACEPARENT_HEADER = 'traceparent';
+export const TRACESTATE_HEADER = 'tracestate';
+
+/** A span within a trace. `spanId` is what the header calls `parent-id` for the receiver. */
+export interface TraceContext {
+  /** 32 lowercase hex chars, not all zero. */
+  traceId: string;
+  /** 16 lowercase hex chars, not all zero. */
+  spanId: string;
+  /** `sampled` trace flag (01). */
+  sampled: boolean;
+  /** Validated `tracestate` list, passed through unchanged. */
+  traceState?: string;
+}
+
+const TRACEPARENT_RE = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const ZERO_TRACE_ID = '0'.repeat(32);
+const ZERO_SPAN_ID = '0'.repeat(16);
+/** tracestate list-member: `key=value`, key per spec (simple or multi-tenant `tenant@system`). */
+const TRACESTATE_MEMBER_RE =
+  /^(?:[a-z][a-z0-9_\-*/]{0,255}|[a-z0-9][a-z0-9_\-*/]{0,240}@[a-z][a-z0-9_\-*/]{0,13})=[\x20-\x2b\x2d-\x3c\x3e-\x7e]{0,255}[\x21-\x2b\x2d-\x3c\x3e-\x7e]$/;
+const MAX_TRACESTATE_MEMBERS = 32;
+
+function randomHex(bytes: number): string {
+  const buffer = new Uint8Array(bytes);
+  if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+    crypto.getRandomValues(buffer);
+  } else {
+    for (let i = 0; i < bytes; i++) buffer[i] = Math.floor(Math.random() * 256);
+  }
+  return Array.from(buffer, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** New random trace ID (32 hex). */
+export function generateTraceId(): string {
+  const id = randomHex(16);
+  return id === ZERO_TRACE_ID ? generateTraceId() : id;
+}
+
+/** New random span ID (16 hex). */
+export function generateSpanId(): string {
+  const id = randomHex(8);
+  return id === ZERO_SPAN_ID ? generateSpanId() : id;
+}
+
+/**
+ * Parses a `traceparent` header. Returns null for anything invalid (wrong shape, uppercase hex,
+ * version `ff`, all-zero IDs, trailing data on version 00) — callers then start a new trace.
+ */
+export function parseTraceparent(value: string | null | undefined): Omit<TraceContext, 'traceState'> | null {
+  if (!value) return null;
+  const match = TRACEPARENT_RE.exec(value.trim());
+  if (!match) return null;
+  const [, version, traceId, spanId, flags, rest] = match;
+  if (version === 'ff' || (version === '00' && rest)) return null;
+  if (traceId === ZERO_TRACE_ID || spanId === ZERO_SPAN_ID) return null;
+  return { traceId, spanId, sampled: (parseInt(flags, 16) & 1) === 1 };
+}
+
+/** Formats a version-00 `traceparent` header for `context`. */
+export function formatTraceparent(context: TraceContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+}
+
+/**
+ * Validates a `tracestate` header. Returns the normalized list (empty members dropped), or
+ * undefined when absent or invalid — an invalid tracestate is discarded, never forwarded.
+ */
+export function parseTracestate(value: string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  const members = value.split(',').map((member) => member.trim()).filter(Boolean);
+  if (members.length === 0 || members.length > MAX_TRACESTATE_MEMBERS) return undefined;
+  const keys = new Set<string>();
+  for (const member of members) {
+    if (!TRACESTATE_MEMBER_RE.test(member)) return undefined;
+    const key = member.slice(0, member.indexOf('='));
+    if (keys.has(key)) return undefined;
+    keys.add(key);
+  }
+  return members.join(',');
+}
+
+/** Root span of a new trace (sampled). */
+export function startTrace(): TraceContext {
+  return { traceId: generateTraceId(), spanId: generateSpanId(), sampled: true };
+}
+
+/** New span in the same trace as `parent` (flags and tracestate carried over). */
+export function createChildSpan(parent: TraceContext): TraceContext {
+  return { ...parent, spanId: generateSpanId() };
+}
+
+/**
+ * Continues an incoming trace as a new child span, or starts a new trace when `traceparent`
+ * is missing or invalid.
+ */
+export function continueTrace(
+  traceparent: string | null | undefined,
+  tracestate?: string | null,
+): TraceContext {
+  const parent = parseTraceparent(traceparent);
+  if (!parent) return startTrace();
+  const traceState = parseTracestate(tracestate);
+  return { ...parent, spanId: generateSpanId(), ...(traceState && { traceState }) };
+}
+
+/** `traceparent` (and `tracestate` when present) headers for `context`. */
+export function getTraceHeaders(context: TraceContext): Record<string, string> {
+  const headers: Record<string, string> = { [TRACEPARENT_HEADER]: formatTraceparent(context) };
+  if (context.traceState) headers[TRACESTATE_HEADER] = context.traceState;
+  return headers;
+}
+
+/**
+ * Browser: the page's server span from `<meta name="traceparent">` (and optional
+ * `<meta name="tracestate">`), or null when absent / on the server.
+ */
+export function getPageTraceContext(): TraceContext | null {
+  if (typeof document === 'undefined') return null;
+  const traceparent = document.querySelector('meta[name="traceparent"]')?.getAttribute('content');
+  const parent = parseTraceparent(traceparent);
+  if (!parent) return null;
+  const traceState = parseTracestate(document.querySelector('meta[name="tracestate"]')?.getAttribute('content'));
+  return { ...parent, ...(traceState && { traceState }) };
+}
@@ -0,0 +1,16 @@
+'use client';
+
+import { useCallback } from 'react';
+import { CSRF_COOKIE_NAME, fetchWithCsrf } from './csrf';
+
+/**
+ * Returns a stable `fetch` for components and mutation hooks: fetchWithRequestId with the
+ * `X-CSRF-Token` header on POST/PUT/PATCH/DELETE (see utils/csrf.ts).
+ *
+ * @param cookieName - CSRF cookie name when the app overrides the server default
+ */
+export function useCsrfFetch(
+  cookieName: string = CSRF_COOKIE_NAME
+): (input: RequestInfo | URL, init?: RequestInit) => Promise<Response> {
+  return useCallback((input, init) => fetchWithCsrf(input, init, cookieName), [cookieName]);
+}